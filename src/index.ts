@@ -5,9 +5,21 @@
 
 // Core functionality
 export * from './lib/core.js'
+// Error classes
+export * from './lib/errors.js'
 // Image optimization library
 // Use: import { OptimizedImage, ... } from '@nextnode/functions-client/image'
 export * from './lib/image/index.js'
+// Middleware pipeline
+export * from './lib/middleware.js'
+// In-memory transport for tests
+export * from './lib/mock-transport.js'
+// Retry policy
+export * from './lib/retry.js'
+// Response validation
+export * from './lib/schema.js'
+// Transports
+export * from './lib/transport.js'
 // Type definitions
 export * from './types/index.js'
 // Utility functions
@@ -2,15 +2,38 @@
  * Core library functionality tests
  */
 
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+	vi,
+} from 'vitest'
 
+import type { ApiResponse } from '../types/index.js'
+import { logApiResponse } from '../utils/logger.js'
 import { createClient, processData, validateConfig } from './core.js'
+import {
+	FunctionsConfigError,
+	FunctionsTimeoutError,
+	isFunctionsAuthError,
+	isFunctionsHttpError,
+	isFunctionsNetworkError,
+	isFunctionsRateLimitError,
+} from './errors.js'
+import { schema } from './schema.js'
 
 // Mock the logger
 vi.mock('../utils/logger.js', () => ({
+	apiLogger: {
+		warn: vi.fn(),
+	},
 	coreLogger: {
 		info: vi.fn(),
 	},
+	logApiResponse: vi.fn(),
 	logError: vi.fn(),
 }))
 
@@ -20,32 +43,493 @@ describe('Core Library', () => {
 	})
 
 	describe('createClient', () => {
+		const fetchMock = vi.fn()
+
+		const jsonResponse = (body: unknown, status = 200): Response =>
+			new Response(JSON.stringify(body), {
+				status,
+				headers: { 'Content-Type': 'application/json' },
+			})
+
+		beforeEach(() => {
+			fetchMock.mockReset()
+			vi.stubGlobal('fetch', fetchMock)
+		})
+
+		afterEach(() => {
+			vi.unstubAllGlobals()
+			vi.useRealTimers()
+		})
+
 		it('should create client with default options', () => {
 			const client = createClient()
 
 			expect(client).toBeDefined()
-			expect(client.apiKey).toBeUndefined()
-			expect(client.baseUrl).toBeUndefined()
+			expect(client.invoke).toBeTypeOf('function')
+		})
+
+		it('should reject invalid timeout', () => {
+			expect(() => createClient({ timeout: -1 })).toThrow(
+				FunctionsConfigError,
+			)
 		})
 
-		it('should create client with provided options', () => {
-			const options = {
+		it('should POST the payload to the function endpoint', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({ url: 'resized.jpg' }))
+			const client = createClient({
 				apiKey: 'test-key',
-				baseUrl: 'https://api.example.com',
+				baseUrl: 'https://api.example.com/',
+			})
+
+			const response = await client.invoke('resizeImage', { width: 800 })
+
+			expect(fetchMock).toHaveBeenCalledWith(
+				'https://api.example.com/functions/resizeImage',
+				expect.objectContaining({
+					method: 'POST',
+					body: JSON.stringify({ width: 800 }),
+				}),
+			)
+			const init = fetchMock.mock.calls[0]?.[1] as RequestInit
+			expect(init.headers).toMatchObject({
+				Authorization: 'Bearer test-key',
+				'Content-Type': 'application/json',
+			})
+			expect(response).toEqual({
+				success: true,
+				data: { url: 'resized.jpg' },
+				statusCode: 200,
+			})
+		})
+
+		it('should use relative URLs without a base URL', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({}))
+			const client = createClient()
+
+			await client.invoke('hello')
+
+			expect(fetchMock.mock.calls[0]?.[0]).toBe('/functions/hello')
+			const init = fetchMock.mock.calls[0]?.[1] as RequestInit
+			expect(init.headers).not.toHaveProperty('Authorization')
+		})
+
+		it('should encode function names', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({}))
+			const client = createClient({ baseUrl: 'https://api.example.com' })
+
+			await client.invoke('../admin')
+
+			expect(fetchMock.mock.calls[0]?.[0]).toBe(
+				'https://api.example.com/functions/..%2Fadmin',
+			)
+		})
+
+		it('should merge client and per-call headers', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({}))
+			const client = createClient({ headers: { 'X-Tenant': 'acme' } })
+
+			await client.invoke('hello', undefined, {
+				headers: { 'X-Trace': 'abc' },
+			})
+
+			const init = fetchMock.mock.calls[0]?.[1] as RequestInit
+			expect(init.headers).toMatchObject({
+				'X-Tenant': 'acme',
+				'X-Trace': 'abc',
+			})
+		})
+
+		it('should reject failed responses with a typed HTTP error', async () => {
+			fetchMock.mockResolvedValue(
+				new Response(JSON.stringify({ error: 'Function not found' }), {
+					status: 404,
+					headers: {
+						'Content-Type': 'application/json',
+						'X-Request-Id': 'req-123',
+					},
+				}),
+			)
+			const client = createClient()
+
+			const error = await client.invoke('missing').catch(e => e)
+
+			expect(isFunctionsHttpError(error)).toBe(true)
+			expect(error).toMatchObject({
+				code: 'HTTP_ERROR',
+				functionName: 'missing',
+				requestId: 'req-123',
+				statusCode: 404,
+				body: { error: 'Function not found' },
+			})
+			expect(error.message).toContain('Function not found')
+		})
+
+		it('should send a request id header', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({}, 500))
+			const client = createClient({ retry: { maxAttempts: 1 } })
+
+			const error = await client.invoke('hello').catch(e => e)
+
+			const init = fetchMock.mock.calls[0]?.[1] as RequestInit
+			const headers = init.headers as Record<string, string>
+			expect(headers['X-Request-Id']).toMatch(/^[0-9a-f-]{36}$/)
+			expect(error.requestId).toBe(headers['X-Request-Id'])
+		})
+
+		it('should reject 401 and 403 with an auth error', async () => {
+			fetchMock.mockImplementation(async () =>
+				jsonResponse({ error: 'Invalid API key' }, 401),
+			)
+			const client = createClient()
+
+			const error = await client.invoke('secure').catch(e => e)
+
+			expect(isFunctionsAuthError(error)).toBe(true)
+			expect(error.code).toBe('AUTH_ERROR')
+			expect(error.statusCode).toBe(401)
+		})
+
+		it('should reject 429 with a rate limit error once retries are exhausted', async () => {
+			fetchMock.mockImplementation(
+				async () =>
+					new Response(null, {
+						status: 429,
+						headers: { 'Retry-After': '0' },
+					}),
+			)
+			const client = createClient({ retry: { maxAttempts: 2 } })
+
+			const error = await client.invoke('limited').catch(e => e)
+
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+			expect(isFunctionsRateLimitError(error)).toBe(true)
+			expect(error.code).toBe('RATE_LIMITED')
+			expect(error.retryAfter).toBe(0)
+		})
+
+		it('should reject network failures with a network error', async () => {
+			fetchMock.mockRejectedValue(new TypeError('fetch failed'))
+			const client = createClient({ retry: { maxAttempts: 1 } })
+
+			const error = await client.invoke('hello').catch(e => e)
+
+			expect(isFunctionsNetworkError(error)).toBe(true)
+			expect(error.code).toBe('NETWORK_ERROR')
+			expect(error.cause).toBeInstanceOf(TypeError)
+		})
+
+		it('should retry retryable status codes', async () => {
+			fetchMock
+				.mockResolvedValueOnce(
+					jsonResponse({ error: 'Bad gateway' }, 502),
+				)
+				.mockResolvedValueOnce(jsonResponse({ ok: true }))
+			const client = createClient({
+				retry: { baseDelay: 0, maxDelay: 0 },
+			})
+
+			const response = await client.invoke('flaky')
+
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+			expect(response).toEqual({
+				success: true,
+				data: { ok: true },
+				statusCode: 200,
+			})
+		})
+
+		it('should reject with the last failure once attempts are exhausted', async () => {
+			fetchMock.mockImplementation(async () =>
+				jsonResponse({ error: 'Unavailable' }, 503),
+			)
+			const client = createClient({
+				retry: { maxAttempts: 2, baseDelay: 0, maxDelay: 0 },
+			})
+
+			await expect(client.invoke('down')).rejects.toMatchObject({
+				statusCode: 503,
+			})
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+		})
+
+		it('should not retry non-retryable status codes', async () => {
+			fetchMock.mockResolvedValue(
+				jsonResponse({ error: 'Bad input' }, 400),
+			)
+			const client = createClient({
+				retry: { baseDelay: 0, maxDelay: 0 },
+			})
+
+			await expect(client.invoke('strict')).rejects.toThrow('Bad input')
+			expect(fetchMock).toHaveBeenCalledTimes(1)
+		})
+
+		it('should retry network errors', async () => {
+			fetchMock
+				.mockRejectedValueOnce(new TypeError('fetch failed'))
+				.mockResolvedValueOnce(jsonResponse({ ok: true }))
+			const client = createClient({
+				retry: { baseDelay: 0, maxDelay: 0 },
+			})
+
+			const response = await client.invoke('hello')
+
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+			expect(response.success).toBe(true)
+		})
+
+		it('should wait for the Retry-After delay', async () => {
+			vi.useFakeTimers()
+			fetchMock
+				.mockResolvedValueOnce(
+					new Response(null, {
+						status: 429,
+						headers: { 'Retry-After': '2' },
+					}),
+				)
+				.mockResolvedValueOnce(jsonResponse({ ok: true }))
+			const client = createClient()
+
+			const pending = client.invoke('limited')
+			await vi.advanceTimersByTimeAsync(1999)
+			expect(fetchMock).toHaveBeenCalledTimes(1)
+			await vi.advanceTimersByTimeAsync(1)
+
+			await expect(pending).resolves.toMatchObject({ success: true })
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+		})
+
+		it('should infer payload and result types from the registry', async () => {
+			type Functions = {
+				resizeImage: {
+					input: { src: string; width: number }
+					output: { url: string }
+				}
+				ping: { input: undefined; output: 'pong' }
 			}
-			const client = createClient(options)
+			fetchMock.mockImplementation(async () =>
+				jsonResponse({ url: 'resized.jpg' }),
+			)
+			const client = createClient<Functions>()
 
-			expect(client).toBeDefined()
-			expect(client.apiKey).toBe('test-key')
-			expect(client.baseUrl).toBe('https://api.example.com')
+			const response = await client.invoke('resizeImage', {
+				src: 'photo.jpg',
+				width: 800,
+			})
+			expectTypeOf(response.data).toEqualTypeOf<
+				{ url: string } | undefined
+			>()
+			expectTypeOf(client.invoke('ping')).resolves.toEqualTypeOf<
+				ApiResponse<'pong'>
+			>()
+
+			// @ts-expect-error - unknown function name
+			await client.invoke('resizeImg', { src: 'photo.jpg', width: 800 })
+			// @ts-expect-error - payload does not match the input type
+			await client.invoke('resizeImage', { src: 'photo.jpg' })
+			// @ts-expect-error - payload is required
+			await client.invoke('resizeImage')
 		})
 
-		it('should create client with partial options', () => {
-			const client = createClient({ apiKey: 'test-key' })
+		it('should validate response data with a schema', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({ url: 'resized.jpg' }))
+			const client = createClient()
 
-			expect(client).toBeDefined()
-			expect(client.apiKey).toBe('test-key')
-			expect(client.baseUrl).toBeUndefined()
+			const response = await client.invoke('resizeImage', undefined, {
+				schema: schema.object({ url: schema.string() }),
+			})
+
+			expectTypeOf(response.data).toEqualTypeOf<
+				{ url: string } | undefined
+			>()
+			expect(response.data).toEqual({ url: 'resized.jpg' })
+		})
+
+		it('should reject responses that do not match the schema', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({ url: 42 }))
+			const client = createClient()
+
+			await expect(
+				client.invoke('resizeImage', undefined, {
+					schema: schema.object({ url: schema.string() }),
+				}),
+			).rejects.toMatchObject({
+				code: 'RESPONSE_VALIDATION_FAILED',
+				path: ['url'],
+			})
+		})
+
+		it('should run configured and added middleware on every call', async () => {
+			fetchMock.mockImplementation(async () => jsonResponse({ value: 1 }))
+			const calls: string[] = []
+			const client = createClient({
+				middleware: [
+					(request, next) => {
+						calls.push('config')
+						return next({
+							...request,
+							headers: { ...request.headers, 'X-Tenant': 'acme' },
+						})
+					},
+				],
+			})
+			client.use(async (request, next) => {
+				calls.push('use')
+				const response = await next(request)
+				return { ...response, data: { wrapped: response.data } }
+			})
+
+			const response = await client.invoke('hello')
+
+			expect(calls).toEqual(['config', 'use'])
+			const init = fetchMock.mock.calls[0]?.[1] as RequestInit
+			expect(init.headers).toMatchObject({ 'X-Tenant': 'acme' })
+			expect(response.data).toEqual({ wrapped: { value: 1 } })
+		})
+
+		it('should let middleware short-circuit the request', async () => {
+			const client = createClient().use(async () => ({
+				status: 200,
+				headers: new Headers(),
+				data: 'cached',
+			}))
+
+			const response = await client.invoke('hello')
+
+			expect(response.data).toBe('cached')
+			expect(fetchMock).not.toHaveBeenCalled()
+		})
+
+		it('should log every attempt through the logging middleware', async () => {
+			fetchMock
+				.mockResolvedValueOnce(jsonResponse({}, 503))
+				.mockResolvedValueOnce(jsonResponse({}))
+			const client = createClient({
+				retry: { baseDelay: 0, maxDelay: 0 },
+			})
+
+			await client.invoke('hello')
+
+			expect(logApiResponse).toHaveBeenCalledTimes(2)
+			expect(logApiResponse).toHaveBeenLastCalledWith(
+				'POST',
+				'/functions/hello',
+				200,
+			)
+		})
+
+		it('should reject when the function name is empty', async () => {
+			const client = createClient()
+
+			await expect(client.invoke('')).rejects.toThrow(
+				FunctionsConfigError,
+			)
+			expect(fetchMock).not.toHaveBeenCalled()
+		})
+
+		it('should abort requests exceeding the timeout', async () => {
+			vi.useFakeTimers()
+			fetchMock.mockImplementation(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => {
+						init.signal?.addEventListener('abort', () =>
+							reject(new DOMException('Aborted', 'AbortError')),
+						)
+					}),
+			)
+			const client = createClient({ timeout: 100 })
+
+			const pending = client.invoke('slow')
+			const assertion = expect(pending).rejects.toThrow(
+				FunctionsTimeoutError,
+			)
+			await vi.advanceTimersByTimeAsync(100)
+
+			await assertion
+		})
+
+		it('should let a per-call timeout override the client timeout', async () => {
+			vi.useFakeTimers()
+			fetchMock.mockImplementation(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => {
+						init.signal?.addEventListener('abort', () =>
+							reject(new DOMException('Aborted', 'AbortError')),
+						)
+					}),
+			)
+			const client = createClient({ timeout: 10_000 })
+
+			const pending = client.invoke('slow', undefined, { timeout: 50 })
+			const assertion = expect(pending).rejects.toMatchObject({
+				code: 'TIMEOUT',
+				timeout: 50,
+			})
+			await vi.advanceTimersByTimeAsync(50)
+
+			await assertion
+		})
+
+		it('should reject an invalid per-call timeout', async () => {
+			const client = createClient()
+
+			await expect(
+				client.invoke('hello', undefined, { timeout: -1 }),
+			).rejects.toThrow(FunctionsConfigError)
+			expect(fetchMock).not.toHaveBeenCalled()
+		})
+
+		it('should reject with the abort reason when the signal aborts', async () => {
+			fetchMock.mockImplementation(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => {
+						init.signal?.addEventListener('abort', () =>
+							reject(new DOMException('Aborted', 'AbortError')),
+						)
+					}),
+			)
+			const controller = new AbortController()
+			const reason = new Error('cancelled by user')
+			const client = createClient()
+
+			const pending = client.invoke('slow', undefined, {
+				signal: controller.signal,
+			})
+			controller.abort(reason)
+
+			await expect(pending).rejects.toBe(reason)
+		})
+
+		it('should not send a request when the signal is already aborted', async () => {
+			const client = createClient()
+
+			await expect(
+				client.invoke('hello', undefined, {
+					signal: AbortSignal.abort(),
+				}),
+			).rejects.toMatchObject({ name: 'AbortError' })
+			expect(fetchMock).not.toHaveBeenCalled()
+		})
+
+		it('should stop retrying once the signal aborts', async () => {
+			vi.useFakeTimers()
+			fetchMock.mockResolvedValue(jsonResponse({}, 503))
+			const controller = new AbortController()
+			const client = createClient({
+				retry: { baseDelay: 1000, jitter: false },
+			})
+
+			const pending = client.invoke('hello', undefined, {
+				signal: controller.signal,
+			})
+			const assertion = expect(pending).rejects.toMatchObject({
+				name: 'AbortError',
+			})
+			await vi.advanceTimersByTimeAsync(0)
+			controller.abort()
+
+			await assertion
+			expect(fetchMock).toHaveBeenCalledTimes(1)
 		})
 	})
 
@@ -2,16 +2,251 @@
  * Core library functionality
  */
 
-import type { ClientConfig } from '../types/index.js'
-import { coreLogger, logError } from '../utils/logger.js'
+import type {
+	ApiResponse,
+	ClientConfig,
+	FunctionRegistry,
+	FunctionRegistryShape,
+	FunctionRequest,
+	FunctionResponse,
+	FunctionsClient,
+	InvokeOptions,
+	JobHandle,
+	Middleware,
+	MiddlewareNext,
+	StreamEvent,
+	StreamOptions,
+} from '../types/index.js'
+import { apiLogger, coreLogger, logError } from '../utils/logger.js'
+import { delay } from '../utils/utils.js'
+import type { FunctionsErrorContext } from './errors.js'
+import {
+	FunctionsAuthError,
+	FunctionsClientError,
+	FunctionsConfigError,
+	FunctionsHttpError,
+	FunctionsRateLimitError,
+	FunctionsTimeoutError,
+	isFunctionsNetworkError,
+} from './errors.js'
+import type { ExecutedRequest } from './jobs.js'
+import { createJobHandle, parseJobState } from './jobs.js'
+import { composeMiddleware, loggingMiddleware } from './middleware.js'
+import {
+	getRetryDelay,
+	isRetryableStatus,
+	parseRetryAfter,
+	resolveRetryPolicy,
+} from './retry.js'
+import { validateResponse } from './schema.js'
+import type { EventStreamState } from './stream.js'
+import { readStreamEvents, STREAM_ACCEPT } from './stream.js'
+import { fetchTransport } from './transport.js'
 
 /**
- * Example core function - creates a client instance
- * Replace this with your actual library functionality
+ * Path prefix under which functions are exposed
  */
-export const createClient = (
+const FUNCTIONS_PATH = '/functions'
+
+/**
+ * Build the invocation URL for a function
+ * Names are URI-encoded so they can never escape the functions path
+ */
+const buildFunctionUrl = (baseUrl: string, name: string): string =>
+	`${baseUrl}${FUNCTIONS_PATH}/${encodeURIComponent(name)}`
+
+/**
+ * Build the URL of the jobs collection of a function
+ */
+const buildJobsUrl = (baseUrl: string, name: string): string =>
+	`${buildFunctionUrl(baseUrl, name)}/jobs`
+
+/**
+ * Build request headers from client and per-call configuration
+ */
+const buildHeaders = (
+	config: ClientConfig,
+	options: InvokeOptions,
+): Record<string, string> => ({
+	Accept: 'application/json',
+	'Content-Type': 'application/json',
+	...config.headers,
+	...options.headers,
+	...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+})
+
+/**
+ * Extract a human-readable error message from a failed response
+ */
+const getErrorMessage = (body: unknown, status: number): string => {
+	if (typeof body === 'string' && body) return body
+
+	if (typeof body === 'object' && body !== null) {
+		const { error, message } = body as Record<string, unknown>
+		if (typeof error === 'string') return error
+		if (typeof message === 'string') return message
+	}
+
+	return `Request failed with status ${status}`
+}
+
+/**
+ * Header carrying the request identifier
+ */
+const REQUEST_ID_HEADER = 'X-Request-Id'
+
+/**
+ * Validate a function name
+ * @throws {FunctionsConfigError} If the name is empty
+ */
+const assertFunctionName = (name: string): void => {
+	if (!name) {
+		throw new FunctionsConfigError('Function name is required')
+	}
+}
+
+/**
+ * Validate a timeout in milliseconds
+ * @throws {FunctionsConfigError} If the timeout is not a positive number
+ */
+const assertValidTimeout = (timeout: number | undefined): void => {
+	if (timeout !== undefined && (!Number.isFinite(timeout) || timeout <= 0)) {
+		throw new FunctionsConfigError(
+			`Invalid timeout: expected a positive number of milliseconds, got ${timeout}`,
+			{ details: { timeout } },
+		)
+	}
+}
+
+/**
+ * Run a single attempt through the middleware chain
+ * The attempt is aborted once the timeout elapses or the caller's signal aborts
+ * @throws {FunctionsTimeoutError} If the timeout elapses
+ * @throws The signal's abort reason if the caller aborts
+ */
+const runAttempt = async (
+	handler: MiddlewareNext,
+	request: FunctionRequest,
+	timeout?: number,
+	signal?: AbortSignal,
+): Promise<FunctionResponse> => {
+	signal?.throwIfAborted()
+
+	const controller = new AbortController()
+	const onAbort = (): void => controller.abort(signal?.reason)
+	signal?.addEventListener('abort', onAbort, { once: true })
+
+	const timer =
+		timeout !== undefined
+			? setTimeout(
+					() =>
+						controller.abort(
+							new FunctionsTimeoutError(
+								`Function "${request.functionName}" timed out after ${timeout}ms`,
+								timeout,
+								{
+									functionName: request.functionName,
+									requestId: request.requestId,
+								},
+							),
+						),
+					timeout,
+				)
+			: undefined
+
+	try {
+		return await handler({ ...request, signal: controller.signal })
+	} catch (error) {
+		// Middleware may have wrapped the abort, report the abort reason itself
+		if (controller.signal.aborted) {
+			throw controller.signal.reason
+		}
+		throw error
+	} finally {
+		clearTimeout(timer)
+		signal?.removeEventListener('abort', onAbort)
+	}
+}
+
+/**
+ * Create the typed error for a non-2xx response
+ */
+const createHttpError = (
+	response: FunctionResponse,
+	context: FunctionsErrorContext,
+): FunctionsHttpError => {
+	const message = `Function "${context.functionName}" failed with status ${response.status}: ${getErrorMessage(response.data, response.status)}`
+	const errorContext = {
+		...context,
+		statusCode: response.status,
+		body: response.data,
+	}
+
+	if (response.status === 401 || response.status === 403) {
+		return new FunctionsAuthError(message, errorContext)
+	}
+
+	if (response.status === 429) {
+		return new FunctionsRateLimitError(
+			message,
+			errorContext,
+			parseRetryAfter(response.headers.get('retry-after')),
+		)
+	}
+
+	return new FunctionsHttpError(message, errorContext)
+}
+
+/**
+ * Log a scheduled retry
+ * @param reason - Status code or error that caused the retry
+ */
+const logRetry = (
+	name: string,
+	attempt: number,
+	retryDelay: number,
+	reason: unknown,
+): void => {
+	apiLogger.warn(`Retrying function "${name}"`, {
+		details: {
+			attempt,
+			delay: retryDelay,
+			reason: reason instanceof Error ? reason.message : reason,
+		},
+	})
+}
+
+/**
+ * Create a client for invoking Nextnode Functions
+ * Pass a function registry to type-check names, payloads and results
+ *
+ * @example
+ * ```typescript
+ * type Functions = {
+ *   resizeImage: {
+ *     input: { src: string; width: number }
+ *     output: { url: string }
+ *   }
+ * }
+ *
+ * const client = createClient<Functions>({
+ *   apiKey: process.env.FUNCTIONS_API_KEY,
+ *   baseUrl: 'https://functions.example.com',
+ *   timeout: 5000,
+ * })
+ *
+ * const response = await client.invoke('resizeImage', {
+ *   src: 'photo.jpg',
+ *   width: 800,
+ * })
+ * response.data?.url // string | undefined
+ * ```
+ */
+export const createClient = <
+	R extends FunctionRegistryShape<R> = FunctionRegistry,
+>(
 	options: ClientConfig = {},
-): { apiKey?: string; baseUrl?: string } => {
+): FunctionsClient<R> => {
 	coreLogger.info('Creating client instance', {
 		details: {
 			hasApiKey: Boolean(options.apiKey),
@@ -20,11 +255,268 @@ export const createClient = (
 	})
 
 	try {
-		const client = {
-			...(options.apiKey && { apiKey: options.apiKey }),
-			...(options.baseUrl && { baseUrl: options.baseUrl }),
+		assertValidTimeout(options.timeout)
+
+		// Without a base URL, requests are relative to the current origin
+		const baseUrl = (options.baseUrl ?? '').replace(/\/+$/, '')
+
+		const retryPolicy = resolveRetryPolicy(options.retry)
+		const transport = options.transport ?? fetchTransport
+
+		// Logging is always the outermost middleware
+		const middleware: Middleware[] = [
+			loggingMiddleware,
+			...(options.middleware ?? []),
+		]
+
+		/**
+		 * Send a request through middleware, retries and timeouts
+		 * @throws {FunctionsHttpError} If the final response is not 2xx
+		 */
+		const execute = async (
+			name: string,
+			method: string,
+			url: string,
+			body: unknown,
+			requestOptions: InvokeOptions &
+				Pick<FunctionRequest, 'responseType'>,
+		): Promise<ExecutedRequest> => {
+			const { signal } = requestOptions
+			const timeout = requestOptions.timeout ?? options.timeout
+			assertValidTimeout(timeout)
+
+			const requestId = globalThis.crypto.randomUUID()
+			const request: FunctionRequest = {
+				functionName: name,
+				url,
+				method,
+				headers: {
+					...buildHeaders(options, requestOptions),
+					[REQUEST_ID_HEADER]: requestId,
+				},
+				body,
+				requestId,
+				attempt: 1,
+				responseType: requestOptions.responseType,
+			}
+			const handler = composeMiddleware(middleware, transport)
+
+			for (let attempt = 1; ; attempt++) {
+				let response: FunctionResponse
+				try {
+					response = await runAttempt(
+						handler,
+						{ ...request, attempt },
+						timeout,
+						signal,
+					)
+				} catch (error) {
+					const retryDelay = isFunctionsNetworkError(error)
+						? getRetryDelay(attempt, retryPolicy)
+						: undefined
+
+					if (retryDelay === undefined) {
+						throw error
+					}
+
+					logRetry(name, attempt, retryDelay, error)
+					await delay(retryDelay, signal)
+					continue
+				}
+
+				// Prefer the identifier assigned by the server when it sends one
+				const context: FunctionsErrorContext = {
+					functionName: name,
+					requestId:
+						response.headers.get(REQUEST_ID_HEADER) ?? requestId,
+					statusCode: response.status,
+				}
+
+				if (response.status < 200 || response.status >= 300) {
+					const retryDelay = isRetryableStatus(
+						response.status,
+						retryPolicy,
+					)
+						? getRetryDelay(
+								attempt,
+								retryPolicy,
+								response.headers.get('retry-after'),
+							)
+						: undefined
+
+					if (retryDelay !== undefined) {
+						logRetry(name, attempt, retryDelay, response.status)
+						await delay(retryDelay, signal)
+						continue
+					}
+
+					throw createHttpError(response, context)
+				}
+
+				return { response, context }
+			}
+		}
+
+		const invoke = async (
+			name: string,
+			payload?: unknown,
+			invokeOptions: InvokeOptions = {},
+		): Promise<ApiResponse> => {
+			assertFunctionName(name)
+
+			const { response, context } = await execute(
+				name,
+				'POST',
+				buildFunctionUrl(baseUrl, name),
+				payload,
+				invokeOptions,
+			)
+
+			const data = invokeOptions.schema
+				? validateResponse(
+						name,
+						invokeOptions.schema,
+						response.data,
+						context,
+					)
+				: response.data
+
+			return {
+				success: true,
+				data,
+				statusCode: response.status,
+			}
+		}
+
+		/**
+		 * Stream events, reconnecting dropped SSE streams from the last event id
+		 */
+		async function* stream(
+			name: string,
+			payload?: unknown,
+			streamOptions: StreamOptions = {},
+		): AsyncGenerator<StreamEvent> {
+			assertFunctionName(name)
+
+			const { signal, schema, reconnect = true } = streamOptions
+			const state: EventStreamState = {
+				lastEventId: streamOptions.lastEventId,
+			}
+
+			for (let reconnects = 0; ; ) {
+				const { response, context } = await execute(
+					name,
+					'POST',
+					buildFunctionUrl(baseUrl, name),
+					payload,
+					{
+						...streamOptions,
+						headers: {
+							Accept: STREAM_ACCEPT,
+							...(state.lastEventId !== undefined && {
+								'Last-Event-ID': state.lastEventId,
+							}),
+							...streamOptions.headers,
+						},
+						responseType: 'stream',
+					},
+				)
+
+				try {
+					for await (const event of readStreamEvents(
+						name,
+						response,
+						state,
+						context,
+						signal,
+					)) {
+						reconnects = 0
+						yield schema
+							? {
+									...event,
+									data: validateResponse(
+										name,
+										schema,
+										event.data,
+										context,
+									),
+								}
+							: event
+					}
+					return
+				} catch (error) {
+					// Only streams with event ids can resume where they stopped
+					const retryDelay =
+						reconnect &&
+						state.lastEventId !== undefined &&
+						isFunctionsNetworkError(error)
+							? getRetryDelay(++reconnects, retryPolicy)
+							: undefined
+
+					if (retryDelay === undefined) {
+						throw error
+					}
+
+					logRetry(name, reconnects, state.retry ?? retryDelay, error)
+					await delay(state.retry ?? retryDelay, signal)
+				}
+			}
+		}
+
+		const job = (
+			name: string,
+			id: string,
+			jobOptions: Omit<InvokeOptions, 'signal'> = {},
+		): JobHandle => {
+			assertFunctionName(name)
+			if (!id) {
+				throw new FunctionsConfigError('Job id is required', {
+					functionName: name,
+				})
+			}
+
+			return createJobHandle({
+				functionName: name,
+				id,
+				jobsUrl: buildJobsUrl(baseUrl, name),
+				execute,
+				options: jobOptions,
+			})
+		}
+
+		const submit = async (
+			name: string,
+			payload?: unknown,
+			submitOptions: InvokeOptions = {},
+		): Promise<JobHandle> => {
+			assertFunctionName(name)
+
+			const { response, context } = await execute(
+				name,
+				'POST',
+				buildJobsUrl(baseUrl, name),
+				payload,
+				submitOptions,
+			)
+			const { id } = parseJobState(name, response.data, context)
+
+			// The signal only covers the submission, not the job's lifetime
+			const { signal: _signal, ...jobOptions } = submitOptions
+			return job(name, id, jobOptions)
 		}
 
+		// Registry types only exist at compile time
+		const client = {
+			invoke,
+			stream,
+			submit,
+			job,
+			use: (added: Middleware) => {
+				middleware.push(added)
+				return client
+			},
+		} as FunctionsClient<R>
+
 		coreLogger.info('Client created successfully')
 		return client
 	} catch (error) {
@@ -76,8 +568,10 @@ export const processData = async (data: unknown[]): Promise<unknown[]> => {
 		return processed
 	} catch (error) {
 		logError(error, { inputData: data })
-		throw new Error(
+		throw new FunctionsClientError(
 			`Data processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+			'PROCESSING_ERROR',
+			{ cause: error },
 		)
 	}
 }
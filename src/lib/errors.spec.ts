@@ -0,0 +1,136 @@
+/**
+ * Functions client error hierarchy tests
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+	FunctionsAuthError,
+	FunctionsClientError,
+	FunctionsConfigError,
+	FunctionsHttpError,
+	FunctionsJobError,
+	FunctionsNetworkError,
+	FunctionsRateLimitError,
+	FunctionsTimeoutError,
+	isFunctionsAuthError,
+	isFunctionsClientError,
+	isFunctionsConfigError,
+	isFunctionsHttpError,
+	isFunctionsJobError,
+	isFunctionsNetworkError,
+	isFunctionsRateLimitError,
+	isFunctionsTimeoutError,
+	isResponseValidationError,
+	ResponseValidationError,
+} from './errors.js'
+
+describe('Functions Client Errors', () => {
+	const context = {
+		functionName: 'resizeImage',
+		requestId: 'req-1',
+		statusCode: 503,
+		body: { error: 'Unavailable' },
+	}
+
+	it('should carry code and request context', () => {
+		const error = new FunctionsClientError('Failed', 'CUSTOM', {
+			...context,
+			details: { attempt: 2 },
+		})
+
+		expect(error).toBeInstanceOf(Error)
+		expect(error.name).toBe('FunctionsClientError')
+		expect(error.code).toBe('CUSTOM')
+		expect(error.functionName).toBe('resizeImage')
+		expect(error.requestId).toBe('req-1')
+		expect(error.statusCode).toBe(503)
+		expect(error.body).toEqual({ error: 'Unavailable' })
+		expect(error.details).toEqual({ attempt: 2 })
+	})
+
+	it('should default details to an empty object', () => {
+		expect(new FunctionsClientError('Failed', 'CUSTOM').details).toEqual({})
+	})
+
+	it('should keep the underlying cause', () => {
+		const cause = new TypeError('fetch failed')
+
+		expect(new FunctionsNetworkError('Failed', { cause }).cause).toBe(cause)
+	})
+
+	it.each([
+		[new FunctionsConfigError('x'), 'CONFIG_ERROR', 'FunctionsConfigError'],
+		[
+			new FunctionsNetworkError('x'),
+			'NETWORK_ERROR',
+			'FunctionsNetworkError',
+		],
+		[
+			new FunctionsTimeoutError('x', 1000),
+			'TIMEOUT',
+			'FunctionsTimeoutError',
+		],
+		[
+			new FunctionsHttpError('x', context),
+			'HTTP_ERROR',
+			'FunctionsHttpError',
+		],
+		[
+			new FunctionsAuthError('x', { ...context, statusCode: 401 }),
+			'AUTH_ERROR',
+			'FunctionsAuthError',
+		],
+		[
+			new FunctionsRateLimitError('x', { ...context, statusCode: 429 }),
+			'RATE_LIMITED',
+			'FunctionsRateLimitError',
+		],
+		[
+			new FunctionsJobError('x', 'job-1', 'failed'),
+			'JOB_FAILED',
+			'FunctionsJobError',
+		],
+		[
+			new FunctionsJobError('x', 'job-1', 'cancelled'),
+			'JOB_CANCELLED',
+			'FunctionsJobError',
+		],
+		[
+			new ResponseValidationError('x', ['url']),
+			'RESPONSE_VALIDATION_FAILED',
+			'ResponseValidationError',
+		],
+	])('should set code and name for %s', (error, code, name) => {
+		expect(error.code).toBe(code)
+		expect(error.name).toBe(name)
+		expect(isFunctionsClientError(error)).toBe(true)
+	})
+
+	it('should treat auth and rate limit errors as HTTP errors', () => {
+		const auth = new FunctionsAuthError('x', { statusCode: 403 })
+		const rateLimit = new FunctionsRateLimitError(
+			'x',
+			{ statusCode: 429 },
+			2000,
+		)
+
+		expect(isFunctionsHttpError(auth)).toBe(true)
+		expect(isFunctionsHttpError(rateLimit)).toBe(true)
+		expect(rateLimit.retryAfter).toBe(2000)
+	})
+
+	it('should narrow errors with type guards', () => {
+		const timeout = new FunctionsTimeoutError('x', 500)
+
+		expect(isFunctionsTimeoutError(timeout)).toBe(true)
+		expect(timeout.timeout).toBe(500)
+		expect(isFunctionsNetworkError(timeout)).toBe(false)
+		expect(isFunctionsConfigError(timeout)).toBe(false)
+		expect(isFunctionsAuthError(timeout)).toBe(false)
+		expect(isFunctionsRateLimitError(timeout)).toBe(false)
+		expect(isResponseValidationError(timeout)).toBe(false)
+		expect(isFunctionsJobError(timeout)).toBe(false)
+		expect(isFunctionsClientError(new Error('x'))).toBe(false)
+	})
+})
@@ -0,0 +1,245 @@
+/**
+ * Custom error classes for the functions client
+ * Provides structured error handling with error codes and request context
+ */
+
+import type { LibraryError } from '../types/index.js'
+
+/**
+ * Request context carried by functions client errors
+ */
+export interface FunctionsErrorContext {
+	/** Name of the invoked function */
+	functionName?: string
+	/** Request identifier (X-Request-Id) */
+	requestId?: string
+	/** HTTP status code of the response */
+	statusCode?: number
+	/** Parsed response body sent by the server */
+	body?: unknown
+	/** Additional error details */
+	details?: Record<string, unknown>
+	/** Underlying error */
+	cause?: unknown
+}
+
+/**
+ * Base error class for all functions client errors
+ */
+export class FunctionsClientError extends Error implements LibraryError {
+	public readonly functionName?: string
+	public readonly requestId?: string
+	public readonly statusCode?: number
+	public readonly body?: unknown
+	public readonly details: Record<string, unknown>
+
+	constructor(
+		message: string,
+		public readonly code: string,
+		context: FunctionsErrorContext = {},
+	) {
+		super(message, { cause: context.cause })
+		this.name = 'FunctionsClientError'
+		this.functionName = context.functionName
+		this.requestId = context.requestId
+		this.statusCode = context.statusCode
+		this.body = context.body
+		this.details = context.details ?? {}
+		Error.captureStackTrace(this, this.constructor)
+	}
+}
+
+/**
+ * Configuration errors (invalid options, missing function name, etc.)
+ */
+export class FunctionsConfigError extends FunctionsClientError {
+	constructor(message: string, context?: FunctionsErrorContext) {
+		super(message, 'CONFIG_ERROR', context)
+		this.name = 'FunctionsConfigError'
+	}
+}
+
+/**
+ * Network errors (DNS failure, connection reset, etc.)
+ * The request may or may not have reached the server
+ */
+export class FunctionsNetworkError extends FunctionsClientError {
+	constructor(message: string, context?: FunctionsErrorContext) {
+		super(message, 'NETWORK_ERROR', context)
+		this.name = 'FunctionsNetworkError'
+	}
+}
+
+/**
+ * Timeout errors (request exceeded its time budget)
+ */
+export class FunctionsTimeoutError extends FunctionsClientError {
+	constructor(
+		message: string,
+		public readonly timeout: number,
+		context?: FunctionsErrorContext,
+	) {
+		super(message, 'TIMEOUT', context)
+		this.name = 'FunctionsTimeoutError'
+	}
+}
+
+/**
+ * HTTP errors (server answered with a non-2xx status)
+ */
+export class FunctionsHttpError extends FunctionsClientError {
+	declare public readonly statusCode: number
+
+	constructor(
+		message: string,
+		context: FunctionsErrorContext & { statusCode: number },
+		code = 'HTTP_ERROR',
+	) {
+		super(message, code, context)
+		this.name = 'FunctionsHttpError'
+	}
+}
+
+/**
+ * Authentication errors (401 Unauthorized, 403 Forbidden)
+ */
+export class FunctionsAuthError extends FunctionsHttpError {
+	constructor(
+		message: string,
+		context: FunctionsErrorContext & { statusCode: number },
+	) {
+		super(message, context, 'AUTH_ERROR')
+		this.name = 'FunctionsAuthError'
+	}
+}
+
+/**
+ * Rate limit errors (429 Too Many Requests)
+ */
+export class FunctionsRateLimitError extends FunctionsHttpError {
+	constructor(
+		message: string,
+		context: FunctionsErrorContext & { statusCode: number },
+		/** Delay requested by the server in milliseconds (Retry-After) */
+		public readonly retryAfter?: number,
+	) {
+		super(message, context, 'RATE_LIMITED')
+		this.name = 'FunctionsRateLimitError'
+	}
+}
+
+/**
+ * Validation errors (response data did not match the schema passed to invoke())
+ */
+export class ResponseValidationError extends FunctionsClientError {
+	constructor(
+		message: string,
+		public readonly path: Array<string | number>,
+		context?: FunctionsErrorContext,
+	) {
+		super(message, 'RESPONSE_VALIDATION_FAILED', context)
+		this.name = 'ResponseValidationError'
+	}
+}
+
+/**
+ * Job errors (an asynchronous job failed or was cancelled)
+ */
+export class FunctionsJobError extends FunctionsClientError {
+	constructor(
+		message: string,
+		/** Identifier of the job */
+		public readonly jobId: string,
+		/** Final status of the job */
+		public readonly jobStatus: 'failed' | 'cancelled',
+		context?: FunctionsErrorContext,
+	) {
+		super(
+			message,
+			jobStatus === 'cancelled' ? 'JOB_CANCELLED' : 'JOB_FAILED',
+			context,
+		)
+		this.name = 'FunctionsJobError'
+	}
+}
+
+/**
+ * Type guard to check if error is a FunctionsClientError
+ */
+export function isFunctionsClientError(
+	error: unknown,
+): error is FunctionsClientError {
+	return error instanceof FunctionsClientError
+}
+
+/**
+ * Type guard to check if error is a FunctionsConfigError
+ */
+export function isFunctionsConfigError(
+	error: unknown,
+): error is FunctionsConfigError {
+	return error instanceof FunctionsConfigError
+}
+
+/**
+ * Type guard to check if error is a FunctionsNetworkError
+ */
+export function isFunctionsNetworkError(
+	error: unknown,
+): error is FunctionsNetworkError {
+	return error instanceof FunctionsNetworkError
+}
+
+/**
+ * Type guard to check if error is a FunctionsTimeoutError
+ */
+export function isFunctionsTimeoutError(
+	error: unknown,
+): error is FunctionsTimeoutError {
+	return error instanceof FunctionsTimeoutError
+}
+
+/**
+ * Type guard to check if error is a FunctionsHttpError (including auth and rate limit errors)
+ */
+export function isFunctionsHttpError(
+	error: unknown,
+): error is FunctionsHttpError {
+	return error instanceof FunctionsHttpError
+}
+
+/**
+ * Type guard to check if error is a FunctionsAuthError
+ */
+export function isFunctionsAuthError(
+	error: unknown,
+): error is FunctionsAuthError {
+	return error instanceof FunctionsAuthError
+}
+
+/**
+ * Type guard to check if error is a FunctionsRateLimitError
+ */
+export function isFunctionsRateLimitError(
+	error: unknown,
+): error is FunctionsRateLimitError {
+	return error instanceof FunctionsRateLimitError
+}
+
+/**
+ * Type guard to check if error is a ResponseValidationError
+ */
+export function isResponseValidationError(
+	error: unknown,
+): error is ResponseValidationError {
+	return error instanceof ResponseValidationError
+}
+
+/**
+ * Type guard to check if error is a FunctionsJobError
+ */
+export function isFunctionsJobError(
+	error: unknown,
+): error is FunctionsJobError {
+	return error instanceof FunctionsJobError
+}
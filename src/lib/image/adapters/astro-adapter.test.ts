@@ -0,0 +1,136 @@
+/**
+ * Tests for the Astro image adapter
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { AstroImageAdapter } from './astro-adapter.js'
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 12" width="48">
+	<script>alert(1)</script>
+	<path d="M0 0h24v12z"/>
+</svg>`
+
+const decodeSVG = (src: string): string =>
+	decodeURIComponent(src.replace('data:image/svg+xml,', ''))
+
+describe('AstroImageAdapter', () => {
+	let publicDir: string
+	let adapter: AstroImageAdapter
+	const getImage = vi.fn()
+
+	beforeEach(async () => {
+		publicDir = await mkdtemp(join(tmpdir(), 'astro-adapter-'))
+		adapter = new AstroImageAdapter({ getImage, publicDir })
+	})
+
+	afterEach(async () => {
+		await rm(publicDir, { recursive: true, force: true })
+		getImage.mockReset()
+	})
+
+	describe('SVG sources', () => {
+		it('should inline sanitized Buffers with their dimensions', async () => {
+			const result = await adapter.optimize(Buffer.from(ICON))
+
+			expect(result).toMatchObject({
+				width: 48,
+				height: 24,
+				format: 'svg',
+			})
+			expect(decodeSVG(result.src)).toBe(
+				'<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 12" width="48"><path d="M0 0h24v12z"/></svg>',
+			)
+			expect(getImage).not.toHaveBeenCalled()
+		})
+
+		it('should read root-relative paths from publicDir', async () => {
+			await mkdir(join(publicDir, 'icons'))
+			await writeFile(join(publicDir, 'icons', 'logo.svg'), ICON)
+
+			const result = await adapter.optimize('/icons/logo.svg')
+
+			expect(result).toMatchObject({ width: 48, height: 24 })
+			expect(decodeSVG(result.src)).not.toContain('script')
+		})
+
+		it('should not read files outside publicDir', async () => {
+			await writeFile(join(publicDir, 'logo.svg'), ICON)
+
+			for (const src of [
+				'/../../etc/x.svg',
+				'/icons/../../logo.svg',
+				'../logo.svg',
+			]) {
+				await expect(adapter.optimize(src)).rejects.toMatchObject({
+					name: 'ImageSecurityError',
+					context: { reason: 'directory_traversal' },
+				})
+			}
+		})
+
+		it('should pass remote and missing files through', async () => {
+			await expect(
+				adapter.optimize('https://cdn.example.com/logo.svg'),
+			).resolves.toEqual({
+				src: 'https://cdn.example.com/logo.svg',
+				width: 0,
+				height: 0,
+				format: 'svg',
+			})
+			await expect(
+				adapter.optimize('/missing.svg'),
+			).resolves.toMatchObject({
+				src: '/missing.svg',
+				width: 0,
+			})
+		})
+	})
+
+	describe('crop options', () => {
+		beforeEach(() => {
+			getImage.mockResolvedValue({
+				src: '/_astro/a.webp',
+				attributes: { width: 400, height: 300 },
+			})
+		})
+
+		it('should pass fit and position to getImage', async () => {
+			await adapter.optimize('/a.jpg', {
+				width: 400,
+				height: 300,
+				fit: 'cover',
+				position: 'bottom-right',
+			})
+
+			expect(getImage).toHaveBeenCalledWith(
+				expect.objectContaining({
+					fit: 'cover',
+					position: 'right bottom',
+				}),
+			)
+		})
+
+		it('should pass focal points as object positions', async () => {
+			await adapter.optimize('/a.jpg', {
+				fit: 'cover',
+				position: 'top',
+				focalPoint: { x: 0.3, y: 0.655 },
+			})
+
+			expect(getImage).toHaveBeenCalledWith(
+				expect.objectContaining({ position: '30% 65.5%' }),
+			)
+		})
+
+		it('should reject letterboxing', async () => {
+			await expect(
+				adapter.optimize('/a.jpg', { fit: 'contain' }),
+			).rejects.toMatchObject({ context: { reason: 'unsupported_fit' } })
+		})
+	})
+})
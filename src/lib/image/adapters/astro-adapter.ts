@@ -3,19 +3,28 @@
  * Wraps Astro's built-in getImage() API for build-time optimization
  */
 
+import { ImageSecurityError, ImageValidationError } from '../errors.js'
 import type {
+	FocalPoint,
+	ImageFit,
 	ImageFormat,
 	ImageOptimizationOptions,
 	ImageSource,
 	LQIPConfig,
 	OptimizedImage,
 } from '../types.js'
+import { SECURITY_LIMITS } from '../types.js'
 import {
 	detectImageFormat,
+	generateLQIPDataURI,
 	getQualityForFormat,
 	isVectorFormat,
 	mergeLQIPConfig,
+	parseSVGDimensions,
+	sanitizeSVG,
+	sniffImageFormat,
 } from '../utils/index.js'
+import { SHARP_POSITIONS } from '../utils/sharp.js'
 import { BaseImageAdapter } from './base-adapter.js'
 
 /**
@@ -28,6 +37,8 @@ interface AstroImageOptions {
 	height?: number
 	format?: ImageFormat
 	quality?: number
+	fit?: string
+	position?: string
 }
 
 interface ImageMetadata {
@@ -46,6 +57,23 @@ interface AstroImageResult {
 	}
 }
 
+/**
+ * Astro `fit` values, which its Sharp service maps back to Sharp fits
+ * Astro's contain is Sharp's inside, letterboxing is not available
+ */
+const ASTRO_FITS: Partial<Record<ImageFit, string>> = {
+	cover: 'cover',
+	fill: 'fill',
+	inside: 'contain',
+	outside: 'outside',
+}
+
+/**
+ * Focal point as a CSS object-position
+ */
+const toObjectPosition = ({ x, y }: FocalPoint): string =>
+	`${Number((x * 100).toFixed(2))}% ${Number((y * 100).toFixed(2))}%`
+
 /**
  * Type for Astro's getImage function
  */
@@ -67,6 +95,12 @@ export interface AstroAdapterConfig {
 	 * Default quality profile
 	 */
 	defaultProfile?: 'lossless' | 'balanced' | 'aggressive'
+
+	/**
+	 * Directory served at the site root, where root-relative SVG paths are
+	 * read from (default: 'public')
+	 */
+	publicDir?: string
 }
 
 /**
@@ -76,11 +110,13 @@ export interface AstroAdapterConfig {
 export class AstroImageAdapter extends BaseImageAdapter {
 	private readonly getImage: AstroGetImageFunction
 	private readonly defaultProfile: 'lossless' | 'balanced' | 'aggressive'
+	private readonly publicDir: string
 
 	constructor(config: AstroAdapterConfig) {
 		super('AstroImageAdapter')
 		this.getImage = config.getImage
 		this.defaultProfile = config.defaultProfile || 'balanced'
+		this.publicDir = config.publicDir || 'public'
 	}
 
 	async optimize(
@@ -88,8 +124,12 @@ export class AstroImageAdapter extends BaseImageAdapter {
 		options: ImageOptimizationOptions = {},
 	): Promise<OptimizedImage> {
 		try {
+			options.signal?.throwIfAborted()
 			// Validate dimensions against security limits
 			this.validateDimensions(options.width, options.height)
+			this.validateFocalPoint(options.focalPoint)
+			this.rejectTransforms(options.transforms)
+			this.rejectWatermark(options.watermark)
 
 			// Handle ImageMetadata objects directly (return as-is)
 			// ImageMetadata objects are already processed by Astro during import
@@ -104,6 +144,10 @@ export class AstroImageAdapter extends BaseImageAdapter {
 				}
 			}
 
+			if (Buffer.isBuffer(source) && sniffImageFormat(source) === 'svg') {
+				return this.handleSVG(source)
+			}
+
 			// Handle string sources (URLs, file paths)
 			const sourceString = this.getSourceString(source)
 			const detectedFormat = detectImageFormat(sourceString)
@@ -137,8 +181,22 @@ export class AstroImageAdapter extends BaseImageAdapter {
 				astroOptions.height = options.height
 			}
 
+			// Add crop options, the focal point replaces the position
+			if (options.fit) {
+				astroOptions.fit = ASTRO_FITS[options.fit]
+				if (!astroOptions.fit) {
+					throw this.unsupportedFit(options.fit)
+				}
+			}
+			if (options.focalPoint) {
+				astroOptions.position = toObjectPosition(options.focalPoint)
+			} else if (options.position) {
+				astroOptions.position = SHARP_POSITIONS[options.position]
+			}
+
 			// Call Astro's getImage only for string sources
 			const result = await this.getImage(astroOptions)
+			options.signal?.throwIfAborted()
 
 			return {
 				src: result.src,
@@ -147,6 +205,8 @@ export class AstroImageAdapter extends BaseImageAdapter {
 				format,
 			}
 		} catch (error) {
+			// Cancellation rejects with the abort reason, not a library error
+			options.signal?.throwIfAborted()
 			throw this.handleError('optimize', error)
 		}
 	}
@@ -159,11 +219,17 @@ export class AstroImageAdapter extends BaseImageAdapter {
 			const lqipConfig = mergeLQIPConfig(config)
 
 			if (this.isImageMetadata(source)) {
-				// For ImageMetadata, return the src as-is
-				// LQIP generation not supported for ImageMetadata in this adapter
+				// Astro 5 exposes the original file, encode it inline
+				if (source.fsPath) {
+					return await generateLQIPDataURI(source.fsPath, lqipConfig)
+				}
 				return source.src
 			}
 
+			if (Buffer.isBuffer(source)) {
+				return await generateLQIPDataURI(source, lqipConfig)
+			}
+
 			// Generate tiny version using Astro for string sources
 			const sourceString = this.getSourceString(source)
 			const result = await this.getImage({
@@ -174,9 +240,7 @@ export class AstroImageAdapter extends BaseImageAdapter {
 				quality: lqipConfig.quality,
 			})
 
-			// In Astro, we return the optimized URL
-			// The actual base64 encoding would need to be done separately
-			// This is a limitation of Astro's build-time optimization
+			// URL sources are not read locally, return the optimized URL
 			return result.src
 		} catch (error) {
 			throw this.handleError('generateLQIP', error)
@@ -207,18 +271,89 @@ export class AstroImageAdapter extends BaseImageAdapter {
 	}
 
 	/**
-	 * Handle SVG images (pass-through, no optimization)
+	 * Handle SVG images (sanitized and inlined, no raster optimization)
+	 * Buffers and local files are returned as a minified data URI with their
+	 * intrinsic dimensions. Remote and missing files can't be read and pass
+	 * through with unknown (0) dimensions
 	 */
-	private async handleSVG(src: string): Promise<OptimizedImage> {
-		// SVGs don't need optimization, return as-is
-		// Dimensions would need to be extracted from SVG file in production
+	private async handleSVG(source: string | Buffer): Promise<OptimizedImage> {
+		const markup = Buffer.isBuffer(source)
+			? source.toString('utf8')
+			: await this.readLocalSVG(source)
+
+		if (markup === undefined) {
+			return {
+				src: source as string,
+				width: 0,
+				height: 0,
+				format: 'svg',
+			}
+		}
+
+		const svg = sanitizeSVG(markup, { minify: true })
+		const dimensions = parseSVGDimensions(svg)
+
 		return {
-			src,
-			width: 0, // Unknown without parsing SVG
-			height: 0, // Unknown without parsing SVG
+			src: `data:image/svg+xml,${encodeURIComponent(svg)}`,
+			width: dimensions?.width ?? 0,
+			height: dimensions?.height ?? 0,
 			format: 'svg',
 		}
 	}
+
+	/**
+	 * Read a local SVG, resolving root-relative paths against publicDir
+	 * Returns undefined for URLs and missing files
+	 * @throws {ImageSecurityError} If the path leaves its directory
+	 * @throws {ImageValidationError} If the file exceeds the maximum size
+	 */
+	private async readLocalSVG(src: string): Promise<string | undefined> {
+		if (/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(src)) {
+			return undefined
+		}
+
+		const { readFile, stat } = await import('node:fs/promises')
+		const { isAbsolute, relative, resolve } = await import('node:path')
+
+		// Root-relative paths must stay inside publicDir, other paths
+		// inside the working directory
+		const root = resolve(src.startsWith('/') ? this.publicDir : '.')
+		const path = resolve(root, `./${src.replace(/^\/+/, '')}`)
+		const fromRoot = relative(root, path)
+		if (
+			src.split(/[\\/]/).includes('..') ||
+			fromRoot.startsWith('..') ||
+			isAbsolute(fromRoot)
+		) {
+			throw new ImageSecurityError(
+				'Path traversal detected in image source',
+				{
+					source: src,
+					reason: 'directory_traversal',
+				},
+			)
+		}
+
+		try {
+			const { size } = await stat(path)
+			if (size > SECURITY_LIMITS.MAX_FILE_SIZE) {
+				throw new ImageValidationError(
+					`Image size ${size} bytes exceeds maximum allowed: ${SECURITY_LIMITS.MAX_FILE_SIZE} bytes`,
+					{
+						size,
+						maxFileSize: SECURITY_LIMITS.MAX_FILE_SIZE,
+						reason: 'file_size_exceeded',
+					},
+				)
+			}
+			return await readFile(path, 'utf8')
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return undefined
+			}
+			throw error
+		}
+	}
 }
 
 /**
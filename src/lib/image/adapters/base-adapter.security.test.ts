@@ -3,9 +3,9 @@
  * Tests DoS protection through dimension limits
  */
 
-import { describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
-import { ImageValidationError } from '../errors.js'
+import { ImageTimeoutError, ImageValidationError } from '../errors.js'
 import type {
 	ImageOptimizationOptions,
 	ImageSource,
@@ -367,4 +367,103 @@ describe('Base Adapter Security - DoS Protection', () => {
 			expect(SECURITY_LIMITS.MAX_FILE_SIZE).toBe(50 * 1024 * 1024)
 		})
 	})
+	describe('Batch Cancellation', () => {
+		afterEach(() => {
+			vi.useRealTimers()
+		})
+
+		it('should optimize a batch without cancellation options', async () => {
+			const result = await adapter.optimizeBatch(['a.jpg', 'b.jpg'])
+
+			expect(result.successful).toHaveLength(2)
+		})
+
+		it('should reject when the signal is already aborted', async () => {
+			const optimize = vi.spyOn(adapter, 'optimize')
+
+			await expect(
+				adapter.optimizeBatch(['a.jpg'], undefined, {
+					signal: AbortSignal.abort(new Error('cancelled')),
+				}),
+			).rejects.toThrow('cancelled')
+			expect(optimize).not.toHaveBeenCalled()
+		})
+
+		it('should reject with the abort reason when aborted mid-batch', async () => {
+			vi.spyOn(adapter, 'optimize').mockReturnValue(new Promise(() => {}))
+			const controller = new AbortController()
+
+			const pending = adapter.optimizeBatch(['a.jpg'], undefined, {
+				signal: controller.signal,
+			})
+			controller.abort(new Error('cancelled'))
+
+			await expect(pending).rejects.toThrow('cancelled')
+		})
+
+		it('should reject slow batches exceeding the timeout', async () => {
+			vi.useFakeTimers()
+			vi.spyOn(adapter, 'optimize').mockReturnValue(new Promise(() => {}))
+
+			const pending = adapter.optimizeBatch(['a.jpg'], undefined, {
+				timeout: 100,
+			})
+			const assertion = expect(pending).rejects.toThrow(ImageTimeoutError)
+			await vi.advanceTimersByTimeAsync(100)
+
+			await assertion
+		})
+
+		it('should abort in-flight optimizations with the same reason', async () => {
+			vi.useFakeTimers()
+			const signals: AbortSignal[] = []
+			vi.spyOn(adapter, 'optimize').mockImplementation(
+				(_source, options) => {
+					if (options?.signal) signals.push(options.signal)
+					return new Promise(() => {})
+				},
+			)
+			const controller = new AbortController()
+			const reason = new Error('cancelled')
+
+			const cancelled = adapter.optimizeBatch(
+				['a.jpg', 'b.jpg'],
+				{},
+				{
+					signal: controller.signal,
+				},
+			)
+			controller.abort(reason)
+			await expect(cancelled).rejects.toBe(reason)
+			expect(signals).toHaveLength(2)
+			expect(signals.every(signal => signal.reason === reason)).toBe(true)
+
+			const timedOut = adapter.optimizeBatch(
+				['c.jpg'],
+				{},
+				{ timeout: 50 },
+			)
+			const assertion =
+				expect(timedOut).rejects.toThrow(ImageTimeoutError)
+			await vi.advanceTimersByTimeAsync(50)
+			await assertion
+			expect(signals[2]?.reason).toBeInstanceOf(ImageTimeoutError)
+		})
+
+		it('should reject timeouts that are not positive numbers', async () => {
+			for (const timeout of [
+				0,
+				-1,
+				Number.NaN,
+				Number.POSITIVE_INFINITY,
+			]) {
+				await expect(
+					adapter.optimizeBatch(['a.jpg'], undefined, { timeout }),
+				).rejects.toMatchObject({
+					name: 'ImageConfigError',
+					context: { reason: 'invalid_timeout' },
+				})
+			}
+		})
+	})
 })
@@ -6,11 +6,24 @@
 import type { Logger } from '@nextnode/logger'
 import { createLogger } from '@nextnode/logger'
 
-import { ImageProcessingError, ImageValidationError } from '../errors.js'
+import {
+	ImageConfigError,
+	ImageOptimizationError,
+	ImageProcessingError,
+	ImageSecurityError,
+	ImageTimeoutError,
+	ImageValidationError,
+} from '../errors.js'
 import type {
 	BatchOptimizationResult,
+	FocalPoint,
+	ImageBatchOptions,
+	ImageFit,
 	ImageOptimizationOptions,
 	ImageSource,
+	ImageTransform,
+	ImageTransformType,
+	ImageWatermark,
 	LQIPConfig,
 	OptimizedImage,
 } from '../types.js'
@@ -36,6 +49,7 @@ export interface ImageAdapter {
 	optimizeBatch<T extends ImageSource>(
 		sources: T[],
 		options?: ImageOptimizationOptions,
+		batchOptions?: ImageBatchOptions,
 	): Promise<BatchOptimizationResult<T>>
 
 	/**
@@ -84,13 +98,32 @@ export abstract class BaseImageAdapter implements ImageAdapter {
 	/**
 	 * Default batch optimization implementation
 	 * Uses Promise.allSettled for parallel processing with error handling
+	 * Rejects if the batch is aborted or exceeds its timeout, and aborts the
+	 * optimizations still running with the same reason
+	 * @throws {ImageConfigError} If the timeout is not a positive number
 	 */
 	async optimizeBatch<T extends ImageSource>(
 		sources: T[],
 		options?: ImageOptimizationOptions,
+		batchOptions: ImageBatchOptions = {},
 	): Promise<BatchOptimizationResult<T>> {
-		const results = await Promise.allSettled(
-			sources.map(source => this.optimize(source, options)),
+		this.validateTimeout(batchOptions.timeout)
+		const signal = batchOptions.signal ?? options?.signal
+		signal?.throwIfAborted()
+
+		const controller = new AbortController()
+		const results = await this.withCancellation(
+			'optimizeBatch',
+			Promise.allSettled(
+				sources.map(source =>
+					this.optimize(source, {
+						...options,
+						signal: controller.signal,
+					}),
+				),
+			),
+			{ signal, timeout: batchOptions.timeout },
+			controller,
 		)
 
 		const successful: Array<{ input: T; output: OptimizedImage }> = []
@@ -135,6 +168,62 @@ export abstract class BaseImageAdapter implements ImageAdapter {
 		return source.src
 	}
 
+	/**
+	 * Race an operation against an abort signal and a timeout
+	 * The controller, if given, is aborted with the same reason so the
+	 * operation can stop its work
+	 * @throws {ImageTimeoutError} If the timeout elapses first
+	 * @throws The signal's abort reason if it aborts first
+	 */
+	protected withCancellation<R>(
+		operation: string,
+		work: Promise<R>,
+		{ signal, timeout }: ImageBatchOptions,
+		controller?: AbortController,
+	): Promise<R> {
+		if (!signal && timeout === undefined) {
+			return work
+		}
+
+		return new Promise<R>((resolve, reject) => {
+			const cancel = (reason: unknown): void => {
+				cleanup()
+				controller?.abort(reason)
+				reject(reason)
+			}
+			const onAbort = (): void => cancel(signal?.reason)
+			const timer =
+				timeout !== undefined
+					? setTimeout(
+							() =>
+								cancel(
+									new ImageTimeoutError(
+										`[${this.adapterName}] ${operation} timed out after ${timeout}ms`,
+										{ operation, timeout },
+									),
+								),
+							timeout,
+						)
+					: undefined
+			const cleanup = (): void => {
+				clearTimeout(timer)
+				signal?.removeEventListener('abort', onAbort)
+			}
+
+			signal?.addEventListener('abort', onAbort, { once: true })
+			work.then(
+				value => {
+					cleanup()
+					resolve(value)
+				},
+				error => {
+					cleanup()
+					reject(error)
+				},
+			)
+		})
+	}
+
 	/**
 	 * Helper to log adapter operations
 	 */
@@ -144,14 +233,153 @@ export abstract class BaseImageAdapter implements ImageAdapter {
 
 	/**
 	 * Helper to handle errors consistently
+	 * Library errors are kept as-is, anything else becomes a processing error
 	 */
 	protected handleError(operation: string, error: unknown): Error {
+		if (error instanceof ImageOptimizationError) {
+			return error
+		}
+
 		const message = error instanceof Error ? error.message : 'Unknown error'
-		return new Error(
+		return new ImageProcessingError(
 			`[${this.adapterName}] ${operation} failed: ${message}`,
+			{ operation, cause: error },
+		)
+	}
+
+	/**
+	 * Validate a timeout in milliseconds
+	 * @throws {ImageConfigError} If the timeout is not a positive number
+	 */
+	protected validateTimeout(timeout?: number): void {
+		if (
+			timeout !== undefined &&
+			(!Number.isFinite(timeout) || timeout <= 0)
+		) {
+			throw new ImageConfigError(
+				`Invalid timeout: expected a positive number of milliseconds, got ${timeout}`,
+				{ timeout, reason: 'invalid_timeout' },
+			)
+		}
+	}
+
+	/**
+	 * Validate that a focal point is normalized to the image
+	 */
+	protected validateFocalPoint(focalPoint?: FocalPoint): void {
+		if (
+			focalPoint &&
+			![focalPoint.x, focalPoint.y].every(
+				value => Number.isFinite(value) && value >= 0 && value <= 1,
+			)
+		) {
+			throw new ImageValidationError(
+				`Focal point (${focalPoint.x}, ${focalPoint.y}) must be between 0 and 1`,
+				{ focalPoint, reason: 'invalid_focal_point' },
+			)
+		}
+	}
+
+	/**
+	 * Reject a resize mode the adapter cannot apply
+	 */
+	protected unsupportedFit(fit: ImageFit): ImageValidationError {
+		return new ImageValidationError(
+			`${this.adapterName} does not support fit '${fit}'`,
+			{ fit, reason: 'unsupported_fit' },
+		)
+	}
+
+	/**
+	 * Reject a transformation the adapter cannot apply
+	 */
+	protected unsupportedTransform(
+		operation: ImageTransformType,
+	): ImageConfigError {
+		return new ImageConfigError(
+			`${this.adapterName} does not support the '${operation}' transform`,
+			{ operation, reason: 'unsupported_transform' },
 		)
 	}
 
+	/**
+	 * Reject transformation lists for adapters that only resize
+	 * autoOrient is accepted, the EXIF orientation is always applied
+	 */
+	protected rejectTransforms(transforms: ImageTransform[] = []): void {
+		const unsupported = transforms.find(
+			transform => transform.type !== 'autoOrient',
+		)
+		if (unsupported) {
+			throw this.unsupportedTransform(unsupported.type)
+		}
+	}
+
+	/**
+	 * Reject a watermark the adapter cannot draw
+	 * @param option Watermark option the adapter cannot apply, if the
+	 * watermark type itself is supported
+	 */
+	protected unsupportedWatermark(
+		type: ImageWatermark['type'],
+		option?: string,
+	): ImageConfigError {
+		return new ImageConfigError(
+			`${this.adapterName} does not support ${option ? `${option} ` : ''}${type} watermarks`,
+			{
+				watermark: type,
+				...(option && { option }),
+				reason: 'unsupported_watermark',
+			},
+		)
+	}
+
+	/**
+	 * Reject watermarks for adapters that cannot draw them
+	 */
+	protected rejectWatermark(watermark?: ImageWatermark): void {
+		if (watermark) {
+			throw this.unsupportedWatermark(watermark.type)
+		}
+	}
+
+	/**
+	 * Validate a relative image path to prevent injection attacks
+	 * Prevents: path traversal, absolute paths, non-image files
+	 */
+	protected validateSourcePath(source: string): void {
+		// Block path traversal attempts
+		if (source.includes('../') || source.includes('..\\')) {
+			throw new ImageSecurityError(
+				'Path traversal detected in image source',
+				{
+					source,
+					reason: 'directory_traversal',
+				},
+			)
+		}
+
+		// Block absolute paths (should be relative to CDN base)
+		if (source.startsWith('/')) {
+			throw new ImageSecurityError(
+				'Absolute paths not allowed, use relative paths',
+				{
+					source,
+					reason: 'absolute_path',
+				},
+			)
+		}
+
+		// Validate it looks like an image path (basic extension check)
+		const validExtensions = /\.(jpg|jpeg|png|webp|avif|gif|svg)$/i
+		if (!validExtensions.test(source)) {
+			throw new ImageSecurityError(
+				'Invalid image source: must have valid image extension',
+				{ source, reason: 'invalid_extension' },
+			)
+		}
+	}
+
 	/**
 	 * Validate image dimensions against security limits
 	 * Prevents DoS attacks through oversized image requests
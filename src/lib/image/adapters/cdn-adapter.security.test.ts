@@ -5,7 +5,8 @@
 
 import { beforeEach, describe, expect, it } from 'vitest'
 
-import { ImageSecurityError } from '../errors.js'
+import { ImageConfigError, ImageSecurityError } from '../errors.js'
+import { verifySignedURL } from '../utils/index.js'
 import { CDNImageAdapter } from './cdn-adapter.js'
 
 describe('CDN Adapter Security', () => {
@@ -414,4 +415,119 @@ describe('CDN Adapter Security', () => {
 			expect(result.src).toContain('image.php.jpg')
 		})
 	})
+
+	describe('URL Signing', () => {
+		const IMGPROXY_KEY = 'abcdef0123456789'
+		const IMGPROXY_SALT = '0123456789abcdef'
+
+		it('should sign Imgix URLs with the secure token', async () => {
+			const signed = new CDNImageAdapter({
+				provider: 'imgix',
+				baseUrl: 'https://demo.imgix.net',
+				signingSecret: 'token',
+			})
+
+			const result = await signed.optimize('image.jpg', { width: 400 })
+
+			expect(result.src).toMatch(/&s=[0-9a-f]{32}$/)
+			await expect(
+				verifySignedURL(result.src, {
+					provider: 'imgix',
+					secret: 'token',
+				}),
+			).resolves.toBe(true)
+		})
+
+		it('should sign Cloudinary URLs with the API secret', async () => {
+			const signed = new CDNImageAdapter({
+				provider: 'cloudinary',
+				baseUrl: 'https://res.cloudinary.com/demo',
+				signingSecret: 'secret',
+			})
+
+			const result = await signed.optimize('image.jpg', { width: 400 })
+
+			expect(result.src).toMatch(/\/image\/upload\/s--[\w-]{8}--\/f_/)
+			await expect(
+				verifySignedURL(result.src, {
+					provider: 'cloudinary',
+					secret: 'secret',
+				}),
+			).resolves.toBe(true)
+		})
+
+		it('should sign imgproxy paths with the key and salt', async () => {
+			const unsigned = new CDNImageAdapter({
+				provider: 'imgproxy',
+				baseUrl: 'https://imgproxy.example.com',
+			})
+			const signed = new CDNImageAdapter({
+				provider: 'imgproxy',
+				baseUrl: 'https://imgproxy.example.com',
+				signingSecret: IMGPROXY_KEY,
+				signingSalt: IMGPROXY_SALT,
+			})
+
+			const plain = await unsigned.optimize('image.jpg', { width: 400 })
+			const result = await signed.optimize('image.jpg', { width: 400 })
+
+			expect(plain.src).toBe(
+				'https://imgproxy.example.com/insecure/f:jpg/q:80/w:400/plain/image.jpg',
+			)
+			expect(result.src).not.toContain('/insecure/')
+			await expect(
+				verifySignedURL(result.src, {
+					provider: 'imgproxy',
+					secret: IMGPROXY_KEY,
+					salt: IMGPROXY_SALT,
+				}),
+			).resolves.toBe(true)
+		})
+
+		it('should sign Cloudflare URLs with an expiry', async () => {
+			const signed = new CDNImageAdapter({
+				provider: 'cloudflare',
+				baseUrl: 'https://cdn.example.com',
+				signingSecret: 'key',
+				signedURLTTL: 60,
+			})
+
+			const result = await signed.optimize('image.jpg', { width: 400 })
+			const exp = Number(new URL(result.src).searchParams.get('exp'))
+
+			expect(exp * 1000).toBeGreaterThan(Date.now())
+			expect(exp * 1000).toBeLessThanOrEqual(Date.now() + 60_000)
+			await expect(
+				verifySignedURL(result.src, {
+					provider: 'cloudflare',
+					secret: 'key',
+				}),
+			).resolves.toBe(true)
+		})
+
+		it('should sign LQIP URLs', async () => {
+			const signed = new CDNImageAdapter({
+				provider: 'imgix',
+				baseUrl: 'https://demo.imgix.net',
+				signingSecret: 'token',
+			})
+
+			const lqip = await signed.generateLQIP('image.jpg')
+
+			await expect(
+				verifySignedURL(lqip, { provider: 'imgix', secret: 'token' }),
+			).resolves.toBe(true)
+		})
+
+		it('should reject signing for the generic provider', () => {
+			expect(
+				() =>
+					new CDNImageAdapter({
+						provider: 'generic',
+						baseUrl: 'https://cdn.example.com',
+						signingSecret: 'secret',
+					}),
+			).toThrow(ImageConfigError)
+		})
+	})
 })
@@ -0,0 +1,474 @@
+/**
+ * Tests for CDN adapter URL generation
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ImageConfigError, ImageValidationError } from '../errors.js'
+import type {
+	ImageOptimizationOptions,
+	ImageTransform,
+	ImageWatermark,
+} from '../types.js'
+import { getQualityForFormat } from '../utils/index.js'
+import { CDNImageAdapter } from './cdn-adapter.js'
+
+const quality = getQualityForFormat('jpeg')
+
+describe('CDNImageAdapter', () => {
+	describe('automatic format', () => {
+		const adapter = (
+			provider: 'cloudflare' | 'imgix' | 'cloudinary' | 'imgproxy',
+		) =>
+			new CDNImageAdapter({
+				provider,
+				baseUrl: 'https://cdn.example.com',
+				autoFormat: true,
+			})
+
+		it('should let each provider negotiate the format', async () => {
+			const cloudflare = await adapter('cloudflare').optimize('a.jpg', {
+				width: 400,
+			})
+			const cloudinary = await adapter('cloudinary').optimize('a.jpg', {
+				width: 400,
+			})
+			const imgix = await adapter('imgix').optimize('a.jpg', {
+				width: 400,
+			})
+			const imgproxy = await adapter('imgproxy').optimize('a.jpg', {
+				width: 400,
+			})
+
+			expect(cloudflare.src).toBe(
+				`https://cdn.example.com/cdn-cgi/image/format=auto,quality=${quality},width=400/a.jpg`,
+			)
+			expect(cloudinary.src).toBe(
+				`https://cdn.example.com/image/upload/f_auto,q_${quality},w_400/a.jpg`,
+			)
+			expect(imgix.src).toBe(
+				`https://cdn.example.com/a.jpg?q=${quality}&auto=compress%2Cformat&w=400`,
+			)
+			expect(imgproxy.src).toBe(
+				`https://cdn.example.com/insecure/q:${quality}/w:400/plain/a.jpg`,
+			)
+		})
+
+		it('should report the source format', async () => {
+			const result = await adapter('cloudflare').optimize('a.png')
+
+			expect(result.format).toBe('png')
+		})
+
+		it('should keep explicitly requested formats', async () => {
+			const result = await adapter('cloudinary').optimize('a.jpg', {
+				format: 'avif',
+			})
+
+			expect(result.src).toContain('/f_avif,')
+		})
+
+		it('should fix the format by default', async () => {
+			const result = await new CDNImageAdapter({
+				provider: 'imgix',
+				baseUrl: 'https://cdn.example.com',
+			}).optimize('a.jpg')
+
+			expect(new URL(result.src).searchParams.get('fm')).toBe('jpg')
+		})
+
+		it('should reject automatic format for the generic provider', () => {
+			expect(
+				() =>
+					new CDNImageAdapter({
+						provider: 'generic',
+						baseUrl: 'https://cdn.example.com',
+						autoFormat: true,
+					}),
+			).toThrow(ImageConfigError)
+		})
+	})
+
+	describe('crop options', () => {
+		const crop = async (
+			provider:
+				| 'cloudflare'
+				| 'imgix'
+				| 'cloudinary'
+				| 'imgproxy'
+				| 'generic',
+			options: ImageOptimizationOptions,
+		) =>
+			(
+				await new CDNImageAdapter({
+					provider,
+					baseUrl: 'https://cdn.example.com',
+				}).optimize('a.jpg', { width: 400, height: 300, ...options })
+			).src
+
+		it('should map fit and position per provider', async () => {
+			const options: ImageOptimizationOptions = {
+				fit: 'cover',
+				position: 'top-left',
+			}
+
+			expect(await crop('cloudflare', options)).toContain(
+				',fit=cover,gravity=0x0/',
+			)
+			expect(await crop('imgix', options)).toContain(
+				'&fit=crop&crop=top%2Cleft',
+			)
+			expect(await crop('cloudinary', options)).toContain(
+				',c_fill,g_north_west/',
+			)
+			expect(await crop('imgproxy', options)).toContain(
+				'/rt:fill/g:nowe/',
+			)
+			expect(await crop('generic', options)).toContain(
+				'&fit=cover&position=top-left',
+			)
+		})
+
+		it('should map focal points per provider', async () => {
+			const options: ImageOptimizationOptions = {
+				fit: 'cover',
+				position: 'top',
+				focalPoint: { x: 0.25, y: 0.75 },
+			}
+
+			expect(await crop('cloudflare', options)).toContain(
+				',fit=cover,gravity=0.25x0.75/',
+			)
+			expect(await crop('imgix', options)).toContain(
+				'&fit=crop&crop=focalpoint&fp-x=0.25&fp-y=0.75',
+			)
+			expect(await crop('cloudinary', options)).toContain(
+				',c_fill,g_xy_center,x_0.25,y_0.75/',
+			)
+			expect(await crop('imgproxy', options)).toContain(
+				'/rt:fill/g:fp:0.25:0.75/',
+			)
+		})
+
+		it('should use content-aware cropping for smart positions', async () => {
+			expect(
+				await crop('cloudinary', {
+					fit: 'cover',
+					position: 'attention',
+				}),
+			).toContain(',g_auto/')
+			expect(
+				await crop('imgix', { fit: 'cover', position: 'attention' }),
+			).toContain('crop=faces%2Centropy')
+		})
+
+		it('should map other fits', async () => {
+			expect(await crop('cloudflare', { fit: 'contain' })).toContain(
+				',fit=pad/',
+			)
+			expect(await crop('imgix', { fit: 'inside' })).toContain(
+				'&fit=clip',
+			)
+			expect(await crop('cloudinary', { fit: 'fill' })).toContain(
+				',c_scale/',
+			)
+		})
+
+		it('should omit centered gravity', async () => {
+			expect(
+				await crop('cloudflare', { fit: 'cover', position: 'center' }),
+			).not.toContain('gravity')
+		})
+
+		it('should reject fits a provider does not support', async () => {
+			await expect(
+				crop('imgproxy', { fit: 'outside' }),
+			).rejects.toMatchObject({
+				name: 'ImageValidationError',
+				context: { fit: 'outside', reason: 'unsupported_fit' },
+			})
+		})
+
+		it('should reject invalid focal points', async () => {
+			await expect(
+				crop('imgix', { focalPoint: { x: Number.NaN, y: 0.5 } }),
+			).rejects.toThrow(ImageValidationError)
+		})
+	})
+
+	describe('transforms', () => {
+		const transforms: ImageTransform[] = [
+			{ type: 'autoOrient' },
+			{ type: 'rotate', angle: 90 },
+			{ type: 'flip', direction: 'horizontal' },
+			{ type: 'blur', radius: 20 },
+			{ type: 'sharpen', amount: 2 },
+			{ type: 'trim' },
+			{ type: 'background', color: '#FFF' },
+		]
+
+		const transform = async (
+			provider:
+				| 'cloudflare'
+				| 'imgix'
+				| 'cloudinary'
+				| 'imgproxy'
+				| 'generic',
+			list: ImageTransform[],
+		) =>
+			(
+				await new CDNImageAdapter({
+					provider,
+					baseUrl: 'https://cdn.example.com',
+				}).optimize('a.jpg', { width: 400, transforms: list })
+			).src
+
+		it('should translate transformations per provider', async () => {
+			expect(await transform('cloudflare', transforms)).toBe(
+				`https://cdn.example.com/cdn-cgi/image/format=jpg,quality=${quality},width=400,rotate=90,flip=h,blur=20,sharpen=2,trim=border,trim.border.tolerance=10,background=%23ffffff/a.jpg`,
+			)
+			expect(
+				await transform('cloudflare', [
+					{ type: 'trim', threshold: 40 },
+				]),
+			).toContain(',trim=border,trim.border.tolerance=40/')
+			expect(await transform('imgix', transforms)).toBe(
+				`https://cdn.example.com/a.jpg?fm=jpg&q=${quality}&auto=compress%2Cformat&w=400&rot=90&flip=h&blur=20&sharp=20&trim=auto&trim-tol=10&bg=ffffff`,
+			)
+			expect(await transform('imgproxy', transforms)).toBe(
+				`https://cdn.example.com/insecure/f:jpg/q:${quality}/w:400/ar:1/rot:90/fl:1:0/bl:10/sh:1/t:10/bg:ffffff/plain/a.jpg`,
+			)
+			expect(await transform('generic', transforms)).toContain(
+				'&autoOrient=true&rotate=90&flip=horizontal&blur=20&sharpen=2&trim=10&background=ffffff',
+			)
+		})
+
+		it('should chain Cloudinary effects', async () => {
+			expect(
+				await transform('cloudinary', [
+					...transforms,
+					{ type: 'grayscale' },
+					{ type: 'flip', direction: 'both' },
+				]),
+			).toBe(
+				`https://cdn.example.com/image/upload/f_jpg,q_${quality},w_400/a_90/a_hflip/e_blur:200/e_sharpen:200/e_trim:4/b_rgb:ffffff/e_grayscale/a_180/a.jpg`,
+			)
+		})
+
+		it('should translate padding where supported', async () => {
+			const pad: ImageTransform[] = [
+				{ type: 'pad', top: 1, right: 2, bottom: 3, left: 4 },
+			]
+
+			expect(await transform('imgproxy', pad)).toContain('/pd:1:2:3:4/')
+			expect(await transform('imgix', pad)).toContain(
+				'&pad-top=1&pad-right=2&pad-bottom=3&pad-left=4',
+			)
+		})
+
+		it('should name transformations a provider cannot express', async () => {
+			await expect(
+				transform('imgproxy', [{ type: 'grayscale' }]),
+			).rejects.toMatchObject({
+				name: 'ImageConfigError',
+				message:
+					"CDNImageAdapter(imgproxy) does not support the 'grayscale' transform",
+				context: {
+					operation: 'grayscale',
+					reason: 'unsupported_transform',
+				},
+			})
+			await expect(
+				transform('cloudflare', [
+					{ type: 'pad', top: 1, right: 1, bottom: 1, left: 1 },
+				]),
+			).rejects.toThrow(ImageConfigError)
+		})
+
+		it('should reject repeated transformations unless chained', async () => {
+			const rotations: ImageTransform[] = [
+				{ type: 'rotate', angle: 90 },
+				{ type: 'rotate', angle: 180 },
+			]
+
+			for (const provider of [
+				'imgix',
+				'generic',
+				'cloudflare',
+			] as const) {
+				await expect(
+					transform(provider, rotations),
+				).rejects.toMatchObject({
+					name: 'ImageValidationError',
+					message: `CDNImageAdapter(${provider}) can only apply the 'rotate' transform once`,
+					context: {
+						operation: 'rotate',
+						reason: 'duplicate_transform',
+					},
+				})
+			}
+			expect(await transform('cloudinary', rotations)).toContain(
+				'/a_90/a_180/',
+			)
+		})
+
+		it('should validate transformations', async () => {
+			await expect(
+				transform('imgix', [{ type: 'background', color: 'red' }]),
+			).rejects.toMatchObject({
+				context: { reason: 'invalid_transform' },
+			})
+		})
+	})
+
+	describe('watermarks', () => {
+		const watermark = async (
+			provider: 'cloudflare' | 'imgix' | 'cloudinary',
+			options: ImageWatermark,
+		) =>
+			(
+				await new CDNImageAdapter({
+					provider,
+					baseUrl: 'https://cdn.example.com',
+				}).optimize('a.jpg', { width: 400, watermark: options })
+			).src
+
+		const params = (url: string): Record<string, string> =>
+			Object.fromEntries(new URL(url).searchParams)
+
+		it('should add Imgix image watermarks', async () => {
+			const src = await watermark('imgix', {
+				type: 'image',
+				src: 'brand/logo.png',
+				width: 80,
+				opacity: 0.5,
+			})
+
+			expect(params(src)).toMatchObject({
+				mark: 'https://cdn.example.com/brand%2Flogo.png',
+				'mark-w': '80',
+				'mark-alpha': '50',
+				'mark-align': 'bottom,right',
+				'mark-pad': '10',
+			})
+		})
+
+		it('should add Imgix text watermarks', async () => {
+			const src = await watermark('imgix', {
+				type: 'text',
+				text: '© Acme, Inc',
+				font: 'Helvetica',
+				position: 'top',
+				opacity: 0.5,
+				color: '#000',
+			})
+
+			expect(params(src)).toMatchObject({
+				txt: '© Acme, Inc',
+				'txt-font': 'Helvetica',
+				'txt-size': '24',
+				'txt-color': '80000000',
+				'txt-align': 'top,center',
+				'txt-pad': '10',
+			})
+		})
+
+		it('should tile Imgix image watermarks', async () => {
+			const src = await watermark('imgix', {
+				type: 'image',
+				src: 'logo.png',
+				tile: true,
+			})
+
+			expect(params(src)).toMatchObject({ 'mark-tile': 'grid' })
+			expect(params(src)).not.toHaveProperty('mark-align')
+		})
+
+		it('should add Cloudinary overlays and place them', async () => {
+			expect(
+				await watermark('cloudinary', {
+					type: 'image',
+					src: 'brand/logo.png',
+					width: 80,
+					opacity: 0.5,
+				}),
+			).toBe(
+				`https://cdn.example.com/image/upload/f_jpg,q_${quality},w_400/l_brand:logo,w_80,o_50/fl_layer_apply,g_south_east,x_10,y_10/a.jpg`,
+			)
+			expect(
+				await watermark('cloudinary', {
+					type: 'image',
+					src: 'logo.png',
+					tile: true,
+					opacity: 0.3,
+				}),
+			).toContain('/l_logo,o_30/fl_layer_apply.tiled/')
+		})
+
+		it('should escape Cloudinary text overlays', async () => {
+			expect(
+				await watermark('cloudinary', {
+					type: 'text',
+					text: '50% off, a/b',
+					font: 'Open Sans',
+					size: 32,
+					position: 'top',
+					margin: 20,
+				}),
+			).toContain(
+				'/l_text:Open%20Sans_32:50%25%20off%252C%20a%252Fb,co_rgb:ffffff/fl_layer_apply,g_north,y_20/',
+			)
+		})
+
+		it('should check watermark sources like image sources', async () => {
+			for (const provider of ['imgix', 'cloudinary'] as const) {
+				await expect(
+					watermark(provider, {
+						type: 'image',
+						src: 'brand/../../secret.png',
+					}),
+				).rejects.toMatchObject({
+					name: 'ImageSecurityError',
+					context: { reason: 'directory_traversal' },
+				})
+				await expect(
+					watermark(provider, {
+						type: 'image',
+						src: '/etc/logo.png',
+					}),
+				).rejects.toMatchObject({
+					context: { reason: 'absolute_path' },
+				})
+			}
+		})
+
+		it('should reject watermarks a provider cannot draw', async () => {
+			await expect(
+				watermark('cloudflare', { type: 'image', src: 'logo.png' }),
+			).rejects.toMatchObject({
+				name: 'ImageConfigError',
+				message:
+					'CDNImageAdapter(cloudflare) does not support image watermarks',
+				context: {
+					watermark: 'image',
+					reason: 'unsupported_watermark',
+				},
+			})
+			await expect(
+				watermark('imgix', { type: 'text', text: 'Acme', tile: true }),
+			).rejects.toMatchObject({
+				context: {
+					watermark: 'text',
+					option: 'tiled',
+					reason: 'unsupported_watermark',
+				},
+			})
+		})
+
+		it('should validate watermarks', async () => {
+			await expect(
+				watermark('imgix', { type: 'text', text: 'Acme', opacity: 2 }),
+			).rejects.toThrow(ImageValidationError)
+		})
+	})
+})
@@ -1,28 +1,47 @@
 /**
  * CDN image optimization adapter
  * Generates optimized URLs for popular CDN providers
- * Supports Cloudflare Images, Imgix, and generic CDN patterns
+ * Supports Cloudflare Images, Imgix, Cloudinary, imgproxy, and generic CDN
+ * patterns, with optional URL signing
  */
 
-import { ImageSecurityError } from '../errors.js'
+import { ImageConfigError, ImageValidationError } from '../errors.js'
 import type {
+	FocalPoint,
+	ImageFit,
 	ImageFormat,
 	ImageOptimizationOptions,
+	ImagePosition,
 	ImageSource,
+	ImageTransform,
+	ImageTransformType,
 	LQIPConfig,
 	OptimizedImage,
 } from '../types.js'
+import type { NormalizedWatermark } from '../utils/index.js'
 import {
 	detectImageFormat,
 	getQualityForFormat,
+	getWatermarkAlignment,
 	mergeLQIPConfig,
+	normalizeTransforms,
+	normalizeWatermark,
+	signCloudflareURL,
+	signCloudinaryURL,
+	signImgixURL,
+	signImgproxyURL,
 } from '../utils/index.js'
 import { BaseImageAdapter } from './base-adapter.js'
 
 /**
  * Supported CDN providers
  */
-export type CDNProvider = 'cloudflare' | 'imgix' | 'cloudinary' | 'generic'
+export type CDNProvider =
+	| 'cloudflare'
+	| 'imgix'
+	| 'cloudinary'
+	| 'imgproxy'
+	| 'generic'
 
 /**
  * URL builder configuration for different CDN providers
@@ -36,8 +55,95 @@ interface URLBuilderConfig {
 	pathTemplate?: string
 	separator?: string
 	additionalParams?: Record<string, string>
+	/**
+	 * Format value letting the CDN pick the format from the Accept header
+	 * Omitted when the provider negotiates without a format parameter
+	 */
+	autoFormatValue?: string
+	fitKey: string
+	/** Provider resize modes, unsupported fits are missing */
+	fitValues: Partial<Record<ImageFit, string>>
+	gravityKey: string
+	gravityValues: Record<Exclude<ImagePosition, 'center'>, string>
+	/** Key/value pairs placing the crop on a focal point */
+	focalPointParams: (point: FocalPoint) => Array<[string, string]>
+	/** Key/value pairs per transformation, unsupported ones are missing */
+	transforms: TransformBuilders
+	/**
+	 * Put each transformation in its own chained path component
+	 * (Cloudinary applies one effect per component)
+	 */
+	chainTransforms?: boolean
+	/**
+	 * Parameter groups drawing a watermark, chained like transformations
+	 * Missing when the provider has no overlays
+	 */
+	watermark?: (
+		watermark: NormalizedWatermark,
+	) => Array<Array<[string, string]>>
+}
+
+/**
+ * Provider parameters for each transformation
+ */
+type TransformBuilders = {
+	[T in ImageTransformType]?: (
+		transform: Extract<ImageTransform, { type: T }>,
+	) => Array<[string, string]>
+}
+
+/**
+ * Flip directions as h, v or hv
+ */
+const FLIP_AXES = { horizontal: 'h', vertical: 'v', both: 'hv' } as const
+
+/**
+ * Crop and resize parameters of a transformation
+ */
+interface CropParams {
+	fit?: ImageFit
+	position?: ImagePosition
+	focalPoint?: FocalPoint
 }
 
+/**
+ * Transformation parameters of a CDN URL
+ */
+interface TransformParams extends CropParams {
+	format?: ImageFormat
+	quality: number
+	width?: number
+	height?: number
+	transforms?: ImageTransform[]
+	watermark?: NormalizedWatermark
+}
+
+/**
+ * Gravity values for positions named by compass direction
+ */
+const compassGravity = (
+	names: Record<'top' | 'right' | 'bottom' | 'left', string>,
+	join: (vertical: string, horizontal: string) => string,
+	smart: string,
+): Record<Exclude<ImagePosition, 'center'>, string> => ({
+	...names,
+	'top-left': join(names.top, names.left),
+	'top-right': join(names.top, names.right),
+	'bottom-left': join(names.bottom, names.left),
+	'bottom-right': join(names.bottom, names.right),
+	entropy: smart,
+	attention: smart,
+})
+
+/**
+ * Cloudinary gravity values, shared by crops and overlays
+ */
+const CLOUDINARY_GRAVITY = compassGravity(
+	{ top: 'north', right: 'east', bottom: 'south', left: 'west' },
+	(vertical, horizontal) => `${vertical}_${horizontal}`,
+	'auto',
+)
+
 /**
  * CDN adapter configuration
  */
@@ -56,6 +162,27 @@ export interface CDNAdapterConfig {
 
 	/** Default quality profile */
 	defaultProfile?: 'lossless' | 'balanced' | 'aggressive'
+
+	/**
+	 * Secret used to sign URLs: Imgix secure token, Cloudinary API secret,
+	 * hex-encoded imgproxy key or Cloudflare signing key
+	 * URLs are unsigned when omitted
+	 * Cloudflare does not enforce its signatures, a Worker must verify them
+	 */
+	signingSecret?: string
+
+	/** Hex-encoded imgproxy salt (imgproxy only) */
+	signingSalt?: string
+
+	/** Signed URL lifetime in seconds (Cloudflare only, default: 3600) */
+	signedURLTTL?: number
+
+	/**
+	 * Let the CDN negotiate the output format from the Accept header
+	 * (`format=auto`, `f_auto`, ...) unless a format is requested
+	 * Not supported by the generic provider (default: false)
+	 */
+	autoFormat?: boolean
 }
 
 /**
@@ -67,6 +194,10 @@ export class CDNImageAdapter extends BaseImageAdapter {
 	private readonly baseUrl: string
 	private readonly accountId?: string
 	private readonly defaultProfile: 'lossless' | 'balanced' | 'aggressive'
+	private readonly signingSecret?: string
+	private readonly signingSalt: string
+	private readonly signedURLTTL: number
+	private readonly autoFormat: boolean
 
 	constructor(config: CDNAdapterConfig) {
 		super(`CDNImageAdapter(${config.provider})`)
@@ -74,14 +205,34 @@ export class CDNImageAdapter extends BaseImageAdapter {
 		this.baseUrl = config.baseUrl.replace(/\/$/, '') // Remove trailing slash
 		this.accountId = config.accountId
 		this.defaultProfile = config.defaultProfile || 'balanced'
+		this.signingSecret = config.signingSecret
+		this.signingSalt = config.signingSalt || ''
+		this.signedURLTTL = config.signedURLTTL ?? 3600
+		this.autoFormat = config.autoFormat ?? false
+
+		if (this.signingSecret && this.provider === 'generic') {
+			throw new ImageConfigError(
+				'URL signing is not supported for the generic provider',
+				{ provider: this.provider, reason: 'unsupported_signing' },
+			)
+		}
+
+		if (this.autoFormat && this.provider === 'generic') {
+			throw new ImageConfigError(
+				'Automatic format is not supported for the generic provider',
+				{ provider: this.provider, reason: 'unsupported_auto_format' },
+			)
+		}
 	}
 
 	async optimize(
 		source: ImageSource,
 		options: ImageOptimizationOptions = {},
 	): Promise<OptimizedImage> {
+		options.signal?.throwIfAborted()
 		// Validate dimensions against security limits
 		this.validateDimensions(options.width, options.height)
+		this.validateFocalPoint(options.focalPoint)
 
 		const sourceString = this.getSourceString(source)
 
@@ -93,17 +244,27 @@ export class CDNImageAdapter extends BaseImageAdapter {
 		const profile = options.profile || this.defaultProfile
 		const quality = getQualityForFormat(format, profile, options.quality)
 
-		// Build CDN URL based on provider
+		// Build CDN URL based on provider, without a format in auto mode
 		const url = this.buildCDNUrl(sourceString, {
-			format,
+			...(!(this.autoFormat && !options.format) && { format }),
 			quality,
 			...(options.width && { width: options.width }),
 			...(options.height && { height: options.height }),
+			...(options.fit && { fit: options.fit }),
+			...(options.position && { position: options.position }),
+			...(options.focalPoint && { focalPoint: options.focalPoint }),
+			...(options.transforms && {
+				transforms: normalizeTransforms(options.transforms),
+			}),
+			...(options.watermark && {
+				watermark: normalizeWatermark(options.watermark),
+			}),
 		})
 
-		// Return optimized image (dimensions are estimates)
+		// Return optimized image (dimensions are estimates, the format is the
+		// source format in auto mode)
 		return {
-			src: url,
+			src: await this.signURL(url),
 			width: options.width || 0,
 			height: options.height || 0,
 			format,
@@ -125,7 +286,7 @@ export class CDNImageAdapter extends BaseImageAdapter {
 			height: lqipConfig.height,
 		})
 
-		return url
+		return this.signURL(url)
 	}
 
 	supportsFormat(format: string): boolean {
@@ -140,36 +301,7 @@ export class CDNImageAdapter extends BaseImageAdapter {
 	 * Prevents: path traversal, protocol injection, malicious URLs
 	 */
 	private sanitizeSource(source: string): string {
-		// Block path traversal attempts
-		if (source.includes('../') || source.includes('..\\')) {
-			throw new ImageSecurityError(
-				'Path traversal detected in image source',
-				{
-					source,
-					reason: 'directory_traversal',
-				},
-			)
-		}
-
-		// Block absolute paths (should be relative to CDN base)
-		if (source.startsWith('/')) {
-			throw new ImageSecurityError(
-				'Absolute paths not allowed, use relative paths',
-				{
-					source,
-					reason: 'absolute_path',
-				},
-			)
-		}
-
-		// Validate it looks like an image path (basic extension check)
-		const validExtensions = /\.(jpg|jpeg|png|webp|avif|gif|svg)$/i
-		if (!validExtensions.test(source)) {
-			throw new ImageSecurityError(
-				'Invalid image source: must have valid image extension',
-				{ source, reason: 'invalid_extension' },
-			)
-		}
+		this.validateSourcePath(source)
 
 		// Encode URI components to prevent injection
 		return encodeURIComponent(source)
@@ -189,6 +321,47 @@ export class CDNImageAdapter extends BaseImageAdapter {
 					useQueryParams: false,
 					pathTemplate: '/cdn-cgi/image/{params}/{source}',
 					separator: ',',
+					autoFormatValue: 'auto',
+					fitKey: 'fit=',
+					fitValues: {
+						cover: 'cover',
+						contain: 'pad',
+						fill: 'squeeze',
+						inside: 'contain',
+					},
+					gravityKey: 'gravity=',
+					gravityValues: {
+						top: 'top',
+						right: 'right',
+						bottom: 'bottom',
+						left: 'left',
+						'top-left': '0x0',
+						'top-right': '1x0',
+						'bottom-left': '0x1',
+						'bottom-right': '1x1',
+						entropy: 'auto',
+						attention: 'auto',
+					},
+					focalPointParams: ({ x, y }) => [['gravity=', `${x}x${y}`]],
+					transforms: {
+						// EXIF orientation is applied by default
+						autoOrient: () => [],
+						rotate: ({ angle }) => [['rotate=', String(angle)]],
+						flip: ({ direction }) => [
+							['flip=', FLIP_AXES[direction]],
+						],
+						blur: ({ radius }) => [['blur=', String(radius)]],
+						sharpen: ({ amount }) => [['sharpen=', String(amount)]],
+						grayscale: () => [['saturation=', '0']],
+						// Border tolerance shares the 0-255 threshold scale
+						trim: ({ threshold = 0 }) => [
+							['trim=', 'border'],
+							['trim.border.tolerance=', String(threshold)],
+						],
+						background: ({ color }) => [
+							['background=', `%23${color}`],
+						],
+					},
 				}
 			case 'imgix':
 				return {
@@ -198,6 +371,58 @@ export class CDNImageAdapter extends BaseImageAdapter {
 					heightKey: 'h',
 					useQueryParams: true,
 					additionalParams: { auto: 'compress,format' },
+					fitKey: 'fit',
+					fitValues: {
+						cover: 'crop',
+						contain: 'fill',
+						fill: 'scale',
+						inside: 'clip',
+					},
+					gravityKey: 'crop',
+					gravityValues: {
+						...compassGravity(
+							{
+								top: 'top',
+								right: 'right',
+								bottom: 'bottom',
+								left: 'left',
+							},
+							(vertical, horizontal) =>
+								`${vertical},${horizontal}`,
+							'entropy',
+						),
+						attention: 'faces,entropy',
+					},
+					focalPointParams: ({ x, y }) => [
+						['crop', 'focalpoint'],
+						['fp-x', String(x)],
+						['fp-y', String(y)],
+					],
+					transforms: {
+						// EXIF orientation is applied by default
+						autoOrient: () => [],
+						rotate: ({ angle }) => [['rot', String(angle)]],
+						flip: ({ direction }) => [
+							['flip', FLIP_AXES[direction]],
+						],
+						blur: ({ radius }) => [['blur', String(radius)]],
+						sharpen: ({ amount }) => [
+							['sharp', String(amount * 10)],
+						],
+						grayscale: () => [['sat', '-100']],
+						trim: ({ threshold = 0 }) => [
+							['trim', 'auto'],
+							['trim-tol', String(threshold)],
+						],
+						background: ({ color }) => [['bg', color]],
+						pad: ({ top, right, bottom, left }) => [
+							['pad-top', String(top)],
+							['pad-right', String(right)],
+							['pad-bottom', String(bottom)],
+							['pad-left', String(left)],
+						],
+					},
+					watermark: watermark => this.buildImgixWatermark(watermark),
 				}
 			case 'cloudinary':
 				return {
@@ -208,6 +433,90 @@ export class CDNImageAdapter extends BaseImageAdapter {
 					useQueryParams: false,
 					pathTemplate: '/image/upload/{params}/{source}',
 					separator: ',',
+					autoFormatValue: 'auto',
+					fitKey: 'c_',
+					fitValues: {
+						cover: 'fill',
+						contain: 'pad',
+						fill: 'scale',
+						inside: 'fit',
+					},
+					gravityKey: 'g_',
+					gravityValues: CLOUDINARY_GRAVITY,
+					focalPointParams: ({ x, y }) => [
+						['g_', 'xy_center'],
+						['x_', String(x)],
+						['y_', String(y)],
+					],
+					chainTransforms: true,
+					transforms: {
+						// EXIF orientation is applied by default
+						autoOrient: () => [],
+						rotate: ({ angle }) => [['a_', String(angle)]],
+						flip: ({ direction }) => [
+							[
+								'a_',
+								direction === 'both'
+									? '180'
+									: `${FLIP_AXES[direction]}flip`,
+							],
+						],
+						blur: ({ radius }) => [
+							['e_blur:', String(Math.min(radius * 10, 2000))],
+						],
+						sharpen: ({ amount }) => [
+							['e_sharpen:', String(Math.max(amount * 100, 1))],
+						],
+						grayscale: () => [['e_', 'grayscale']],
+						trim: ({ threshold = 0 }) => [
+							['e_trim:', String(Math.round(threshold / 2.55))],
+						],
+						background: ({ color }) => [['b_rgb:', color]],
+					},
+					watermark: watermark =>
+						this.buildCloudinaryWatermark(watermark),
+				}
+			case 'imgproxy':
+				return {
+					formatKey: 'f:',
+					qualityKey: 'q:',
+					widthKey: 'w:',
+					heightKey: 'h:',
+					useQueryParams: false,
+					pathTemplate: '/insecure/{params}/plain/{source}',
+					separator: '/',
+					fitKey: 'rt:',
+					fitValues: {
+						cover: 'fill',
+						fill: 'force',
+						inside: 'fit',
+					},
+					gravityKey: 'g:',
+					gravityValues: compassGravity(
+						{ top: 'no', right: 'ea', bottom: 'so', left: 'we' },
+						(vertical, horizontal) => `${vertical}${horizontal}`,
+						'sm',
+					),
+					focalPointParams: ({ x, y }) => [['g:', `fp:${x}:${y}`]],
+					transforms: {
+						autoOrient: () => [['ar:', '1']],
+						rotate: ({ angle }) => [['rot:', String(angle)]],
+						flip: ({ direction }) => [
+							[
+								'fl:',
+								`${Number(direction !== 'vertical')}:${Number(direction !== 'horizontal')}`,
+							],
+						],
+						blur: ({ radius }) => [['bl:', String(radius / 2)]],
+						sharpen: ({ amount }) => [['sh:', String(amount / 2)]],
+						trim: ({ threshold = 0 }) => [
+							['t:', String(threshold)],
+						],
+						background: ({ color }) => [['bg:', color]],
+						pad: ({ top, right, bottom, left }) => [
+							['pd:', `${top}:${right}:${bottom}:${left}`],
+						],
+					},
 				}
 			default:
 				return {
@@ -216,6 +525,46 @@ export class CDNImageAdapter extends BaseImageAdapter {
 					widthKey: 'width',
 					heightKey: 'height',
 					useQueryParams: true,
+					fitKey: 'fit',
+					fitValues: {
+						cover: 'cover',
+						contain: 'contain',
+						fill: 'fill',
+						inside: 'inside',
+						outside: 'outside',
+					},
+					gravityKey: 'position',
+					gravityValues: {
+						top: 'top',
+						right: 'right',
+						bottom: 'bottom',
+						left: 'left',
+						'top-left': 'top-left',
+						'top-right': 'top-right',
+						'bottom-left': 'bottom-left',
+						'bottom-right': 'bottom-right',
+						entropy: 'entropy',
+						attention: 'attention',
+					},
+					focalPointParams: ({ x, y }) => [
+						['fp-x', String(x)],
+						['fp-y', String(y)],
+					],
+					transforms: {
+						autoOrient: () => [['autoOrient', 'true']],
+						rotate: ({ angle }) => [['rotate', String(angle)]],
+						flip: ({ direction }) => [['flip', direction]],
+						blur: ({ radius }) => [['blur', String(radius)]],
+						sharpen: ({ amount }) => [['sharpen', String(amount)]],
+						grayscale: () => [['grayscale', 'true']],
+						trim: ({ threshold = 0 }) => [
+							['trim', String(threshold)],
+						],
+						background: ({ color }) => [['background', color]],
+						pad: ({ top, right, bottom, left }) => [
+							['pad', `${top},${right},${bottom},${left}`],
+						],
+					},
 				}
 		}
 	}
@@ -223,15 +572,7 @@ export class CDNImageAdapter extends BaseImageAdapter {
 	/**
 	 * Build CDN transformation URL using unified logic
 	 */
-	private buildCDNUrl(
-		source: string,
-		params: {
-			format: ImageFormat
-			quality: number
-			width?: number
-			height?: number
-		},
-	): string {
+	private buildCDNUrl(source: string, params: TransformParams): string {
 		const safeSource = this.sanitizeSource(source)
 		const config = this.getURLBuilderConfig()
 
@@ -242,21 +583,224 @@ export class CDNImageAdapter extends BaseImageAdapter {
 		return this.buildPathBasedURL(safeSource, params, config)
 	}
 
+	/**
+	 * Map fit, position and focal point to provider parameters
+	 * The focal point replaces the position, centered crops need no gravity
+	 * @throws {ImageValidationError} If the provider has no matching fit
+	 */
+	private buildCropParams(
+		{ fit, position, focalPoint }: CropParams,
+		config: URLBuilderConfig,
+	): Array<[string, string]> {
+		const params: Array<[string, string]> = []
+
+		if (fit) {
+			const value = config.fitValues[fit]
+			if (!value) {
+				throw this.unsupportedFit(fit)
+			}
+			params.push([config.fitKey, value])
+		}
+
+		if (focalPoint) {
+			params.push(...config.focalPointParams(focalPoint))
+		} else if (position && position !== 'center') {
+			params.push([config.gravityKey, config.gravityValues[position]])
+		}
+
+		return params
+	}
+
+	/**
+	 * Map transformations to provider parameters, one group per
+	 * transformation
+	 * Without chained components a provider keeps one value per
+	 * parameter, so a repeated transformation would replace the first
+	 * @throws {ImageConfigError} If the provider cannot express one
+	 * @throws {ImageValidationError} If one repeats where the provider
+	 * cannot chain (reason 'duplicate_transform')
+	 */
+	private buildTransformParams(
+		transforms: ImageTransform[] = [],
+		config: URLBuilderConfig,
+	): Array<Array<[string, string]>> {
+		if (!config.chainTransforms) {
+			const seen = new Set<ImageTransformType>()
+			for (const { type } of transforms) {
+				if (seen.has(type)) {
+					throw new ImageValidationError(
+						`${this.adapterName} can only apply the '${type}' transform once`,
+						{ operation: type, reason: 'duplicate_transform' },
+					)
+				}
+				seen.add(type)
+			}
+		}
+
+		return transforms.map(transform => {
+			const build = config.transforms[transform.type] as
+				| ((transform: ImageTransform) => Array<[string, string]>)
+				| undefined
+			if (!build) {
+				throw this.unsupportedTransform(transform.type)
+			}
+			return build(transform)
+		})
+	}
+
+	/**
+	 * Map a watermark to provider parameter groups
+	 * @throws {ImageConfigError} If the provider has no overlays
+	 */
+	private buildWatermarkParams(
+		watermark: NormalizedWatermark | undefined,
+		config: URLBuilderConfig,
+	): Array<Array<[string, string]>> {
+		if (!watermark) {
+			return []
+		}
+		if (!config.watermark) {
+			throw this.unsupportedWatermark(watermark.type)
+		}
+		return config.watermark(watermark)
+	}
+
+	/**
+	 * Imgix watermark (`mark`) or text (`txt`) parameters
+	 * @throws {ImageConfigError} For tiled text, which Imgix cannot repeat
+	 */
+	private buildImgixWatermark(
+		watermark: NormalizedWatermark,
+	): Array<Array<[string, string]>> {
+		const { vertical, horizontal } = getWatermarkAlignment(
+			watermark.position,
+		)
+		const align = `${vertical === 'center' ? 'middle' : vertical},${horizontal}`
+		const params: Array<[string, string]> = []
+
+		if (watermark.type === 'text') {
+			if (watermark.tile) {
+				throw this.unsupportedWatermark('text', 'tiled')
+			}
+
+			params.push(['txt', watermark.text])
+			if (watermark.font) {
+				params.push(['txt-font', watermark.font])
+			}
+			// Text opacity is the alpha of an ARGB color
+			const alpha =
+				watermark.opacity < 1
+					? Math.round(watermark.opacity * 255)
+							.toString(16)
+							.padStart(2, '0')
+					: ''
+			params.push(
+				['txt-size', String(watermark.size)],
+				['txt-color', `${alpha}${watermark.color}`],
+				['txt-align', align],
+				['txt-pad', String(watermark.margin)],
+			)
+			return [params]
+		}
+
+		params.push([
+			'mark',
+			`${this.baseUrl}/${this.sanitizeSource(watermark.src)}`,
+		])
+		if (watermark.width) {
+			params.push(['mark-w', String(watermark.width)])
+		}
+		if (watermark.opacity < 1) {
+			params.push([
+				'mark-alpha',
+				String(Math.round(watermark.opacity * 100)),
+			])
+		}
+		if (watermark.tile) {
+			params.push(['mark-tile', 'grid'])
+		} else {
+			params.push(
+				['mark-align', align],
+				['mark-pad', String(watermark.margin)],
+			)
+		}
+		return [params]
+	}
+
+	/**
+	 * Cloudinary overlay (`l_`) and layer placement components
+	 */
+	private buildCloudinaryWatermark(
+		watermark: NormalizedWatermark,
+	): Array<Array<[string, string]>> {
+		const layer: Array<[string, string]> = []
+
+		if (watermark.type === 'text') {
+			// Commas and slashes are escaped twice in text layers
+			const text = encodeURIComponent(watermark.text)
+				.replace(/%2C/g, '%252C')
+				.replace(/%2F/g, '%252F')
+			const font = encodeURIComponent(watermark.font ?? 'Arial')
+			layer.push(
+				['l_text:', `${font}_${watermark.size}:${text}`],
+				['co_rgb:', watermark.color],
+			)
+		} else {
+			// Overlays are referenced by public ID, with colons for folders
+			this.validateSourcePath(watermark.src)
+			const publicId = watermark.src
+				.replace(/\.[^.]+$/, '')
+				.split('/')
+				.map(encodeURIComponent)
+				.join(':')
+			layer.push(['l_', publicId])
+			if (watermark.width) {
+				layer.push(['w_', String(watermark.width)])
+			}
+		}
+
+		if (watermark.opacity < 1) {
+			layer.push(['o_', String(Math.round(watermark.opacity * 100))])
+		}
+
+		if (watermark.tile) {
+			return [layer, [['fl_', 'layer_apply.tiled']]]
+		}
+
+		const { vertical, horizontal } = getWatermarkAlignment(
+			watermark.position,
+		)
+		const apply: Array<[string, string]> = [
+			['fl_', 'layer_apply'],
+			[
+				'g_',
+				watermark.position === 'center'
+					? 'center'
+					: CLOUDINARY_GRAVITY[watermark.position],
+			],
+		]
+		if (horizontal !== 'center') {
+			apply.push(['x_', String(watermark.margin)])
+		}
+		if (vertical !== 'center') {
+			apply.push(['y_', String(watermark.margin)])
+		}
+		return [layer, apply]
+	}
+
 	/**
 	 * Build URL with query parameters (Imgix, Generic)
 	 */
 	private buildQueryParamURL(
 		source: string,
-		params: {
-			format: ImageFormat
-			quality: number
-			width?: number
-			height?: number
-		},
+		params: TransformParams,
 		config: URLBuilderConfig,
 	): string {
 		const searchParams = new URLSearchParams()
-		searchParams.set(config.formatKey, params.format)
+		const format = params.format ?? config.autoFormatValue
+		if (format) {
+			searchParams.set(config.formatKey, format)
+		}
 		searchParams.set(config.qualityKey, params.quality.toString())
 
 		if (config.additionalParams) {
@@ -275,24 +819,59 @@ export class CDNImageAdapter extends BaseImageAdapter {
 			searchParams.set(config.heightKey, params.height.toString())
 		}
 
+		for (const [key, value] of [
+			...this.buildCropParams(params, config),
+			...this.buildTransformParams(params.transforms, config).flat(),
+			...this.buildWatermarkParams(params.watermark, config).flat(),
+		]) {
+			searchParams.set(key, value)
+		}
+
 		return `${this.baseUrl}/${source}?${searchParams.toString()}`
 	}
 
 	/**
-	 * Build URL with path-based transformations (Cloudflare, Cloudinary)
+	 * Sign a transformation URL when a signing secret is configured
+	 */
+	private async signURL(url: string): Promise<string> {
+		if (!this.signingSecret) {
+			return url
+		}
+
+		switch (this.provider) {
+			case 'imgix':
+				return signImgixURL(url, this.signingSecret)
+			case 'cloudinary':
+				return signCloudinaryURL(url, this.signingSecret)
+			case 'imgproxy':
+				return signImgproxyURL(
+					url,
+					this.signingSecret,
+					this.signingSalt,
+				)
+			case 'cloudflare':
+				return signCloudflareURL(
+					url,
+					this.signingSecret,
+					new Date(Date.now() + this.signedURLTTL * 1000),
+				)
+			default:
+				return url
+		}
+	}
+
+	/**
+	 * Build URL with path-based transformations (Cloudflare, Cloudinary,
+	 * imgproxy)
 	 */
 	private buildPathBasedURL(
 		source: string,
-		params: {
-			format: ImageFormat
-			quality: number
-			width?: number
-			height?: number
-		},
+		params: TransformParams,
 		config: URLBuilderConfig,
 	): string {
+		const format = params.format ?? config.autoFormatValue
 		const transformations: string[] = [
-			`${config.formatKey}${params.format}`,
+			...(format ? [`${config.formatKey}${format}`] : []),
 			`${config.qualityKey}${params.quality}`,
 		]
 
@@ -304,7 +883,23 @@ export class CDNImageAdapter extends BaseImageAdapter {
 			transformations.push(`${config.heightKey}${params.height}`)
 		}
 
-		const paramsString = transformations.join(config.separator || ',')
+		for (const [key, value] of this.buildCropParams(params, config)) {
+			transformations.push(`${key}${value}`)
+		}
+
+		const separator = config.separator || ','
+		const transformGroups = [
+			...this.buildTransformParams(params.transforms, config),
+			...this.buildWatermarkParams(params.watermark, config),
+		]
+			.map(group => group.map(([key, value]) => `${key}${value}`))
+			.filter(group => group.length > 0)
+
+		const paramsString = config.chainTransforms
+			? [transformations, ...transformGroups]
+					.map(group => group.join(separator))
+					.join('/')
+			: [...transformations, ...transformGroups.flat()].join(separator)
 
 		if (config.pathTemplate) {
 			return `${this.baseUrl}${config.pathTemplate
@@ -5,3 +5,5 @@
 export * from './astro-adapter.js'
 export * from './base-adapter.js'
 export * from './cdn-adapter.js'
+export * from './next-adapter.js'
+export * from './sharp-adapter.js'
@@ -0,0 +1,224 @@
+/**
+ * Tests for the Next.js image adapter and loader
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ImageSecurityError, ImageValidationError } from '../errors.js'
+import { getQualityForFormat } from '../utils/index.js'
+import defaultLoader, {
+	createNextImageLoader,
+	NextImageAdapter,
+	nextImageLoader,
+} from './next-adapter.js'
+
+const params = (url: string): Record<string, string> =>
+	Object.fromEntries(new URL(url, 'https://app.example.com').searchParams)
+
+/**
+ * `images.qualities` allowing every quality
+ */
+const ALL_QUALITIES = Array.from({ length: 100 }, (_, i) => i + 1)
+
+describe('NextImageAdapter', () => {
+	const adapter = new NextImageAdapter({ qualities: ALL_QUALITIES })
+
+	describe('optimize', () => {
+		it('should build image API URLs with the profile quality', async () => {
+			const result = await adapter.optimize('/photos/hero.jpg', {
+				width: 1080,
+			})
+
+			expect(result).toEqual({
+				src: `/_next/image?url=%2Fphotos%2Fhero.jpg&w=1080&q=${getQualityForFormat('webp')}`,
+				width: 1080,
+				height: 0,
+				format: 'webp',
+			})
+		})
+
+		it('should snap widths to the configured sizes', async () => {
+			const result = await adapter.optimize('/a.png', {
+				width: 700,
+				height: 350,
+			})
+
+			expect(params(result.src).w).toBe('750')
+			expect(result).toMatchObject({ width: 750, height: 375 })
+		})
+
+		it('should use the largest size beyond the configured sizes', async () => {
+			const result = await adapter.optimize('/a.png', { width: 5000 })
+
+			expect(result.width).toBe(3840)
+		})
+
+		it('should follow quality profiles and explicit qualities', async () => {
+			const aggressive = await adapter.optimize('/a.png', {
+				width: 640,
+				profile: 'aggressive',
+			})
+			const explicit = await adapter.optimize('/a.png', {
+				width: 640,
+				quality: 42,
+			})
+
+			expect(params(aggressive.src).q).toBe(
+				String(getQualityForFormat('webp', 'aggressive')),
+			)
+			expect(params(explicit.src).q).toBe('42')
+		})
+
+		it('should pass SVGs through', async () => {
+			await expect(
+				adapter.optimize('/logo.svg', { width: 100 }),
+			).resolves.toEqual({
+				src: '/logo.svg',
+				width: 0,
+				height: 0,
+				format: 'svg',
+			})
+		})
+
+		it('should accept remote URLs', async () => {
+			const result = await adapter.optimize(
+				'https://cdn.example.com/a.jpg?v=2',
+				{ width: 640 },
+			)
+
+			expect(params(result.src).url).toBe(
+				'https://cdn.example.com/a.jpg?v=2',
+			)
+		})
+	})
+
+	describe('configuration', () => {
+		it('should snap qualities to the Next.js default', async () => {
+			const defaults = new NextImageAdapter()
+
+			for (const options of [
+				{ width: 640 },
+				{ width: 640, quality: 42 },
+				{ width: 640, profile: 'lossless' as const },
+			]) {
+				const result = await defaults.optimize('/a.jpg', options)
+				expect(params(result.src).q).toBe('75')
+			}
+		})
+
+		it('should use custom sizes, qualities and path', async () => {
+			const custom = new NextImageAdapter({
+				path: '/docs/_next/image',
+				deviceSizes: [400, 800],
+				imageSizes: [100],
+				qualities: [50, 90],
+			})
+
+			const result = await custom.optimize('/a.jpg', {
+				width: 120,
+				quality: 70,
+			})
+
+			expect(result.src).toBe('/docs/_next/image?url=%2Fa.jpg&w=400&q=90')
+		})
+	})
+
+	describe('generateLQIP', () => {
+		it('should request the smallest matching size', async () => {
+			const lqip = await adapter.generateLQIP('/a.jpg')
+
+			expect(params(lqip)).toMatchObject({ w: '32', q: '10' })
+		})
+	})
+
+	describe('security', () => {
+		it('should reject path traversal', async () => {
+			await expect(
+				adapter.optimize('/images/../../etc/passwd.jpg'),
+			).rejects.toMatchObject({
+				name: 'ImageSecurityError',
+				context: { reason: 'directory_traversal' },
+			})
+		})
+
+		it('should reject other protocols', async () => {
+			for (const src of [
+				'javascript:alert(1)',
+				'data:image/png;base64,AAAA',
+				'//evil.example/a.jpg',
+			]) {
+				await expect(adapter.optimize(src)).rejects.toThrow(
+					ImageSecurityError,
+				)
+			}
+		})
+
+		it('should reject relative paths', async () => {
+			await expect(adapter.optimize('a.jpg')).rejects.toThrow(
+				ImageValidationError,
+			)
+		})
+
+		it('should reject crops, which Next.js cannot apply', async () => {
+			await expect(
+				adapter.optimize('/a.jpg', { width: 640, fit: 'cover' }),
+			).rejects.toMatchObject({ context: { reason: 'unsupported_fit' } })
+			await expect(
+				adapter.optimize('/a.jpg', { width: 640, fit: 'inside' }),
+			).resolves.toMatchObject({ width: 640 })
+		})
+
+		it('should reject watermarks', async () => {
+			await expect(
+				adapter.optimize('/a.jpg', {
+					width: 640,
+					watermark: { type: 'text', text: 'Acme' },
+				}),
+			).rejects.toMatchObject({
+				name: 'ImageConfigError',
+				context: { watermark: 'text', reason: 'unsupported_watermark' },
+			})
+		})
+
+		it('should reject oversized widths', async () => {
+			await expect(
+				adapter.optimize('/a.jpg', { width: 100000 }),
+			).rejects.toThrow(ImageValidationError)
+		})
+	})
+})
+
+describe('nextImageLoader', () => {
+	it('should build URLs from next/image loader props', () => {
+		expect(
+			nextImageLoader({ src: '/a.jpg', width: 800, quality: 60 }),
+		).toBe('/_next/image?url=%2Fa.jpg&w=828&q=75')
+		expect(params(nextImageLoader({ src: '/a.jpg', width: 828 })).q).toBe(
+			'75',
+		)
+	})
+
+	it('should validate sources', () => {
+		expect(() =>
+			nextImageLoader({ src: 'javascript:alert(1)', width: 640 }),
+		).toThrow(ImageSecurityError)
+	})
+
+	it('should be the default export, for images.loaderFile', () => {
+		expect(defaultLoader).toBe(nextImageLoader)
+	})
+})
+
+describe('createNextImageLoader', () => {
+	it('should apply the adapter configuration', () => {
+		const loader = createNextImageLoader({
+			defaultProfile: 'lossless',
+			outputFormat: 'avif',
+			qualities: ALL_QUALITIES,
+		})
+
+		expect(params(loader({ src: '/a.jpg', width: 640 })).q).toBe(
+			String(getQualityForFormat('avif', 'lossless')),
+		)
+	})
+})
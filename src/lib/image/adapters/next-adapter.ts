@@ -0,0 +1,301 @@
+/**
+ * Next.js image optimization adapter
+ * Builds URLs for the Next.js image optimization API (/_next/image) and
+ * provides a custom loader for next/image
+ */
+
+import { ImageSecurityError, ImageValidationError } from '../errors.js'
+import type {
+	CompressionProfile,
+	ImageFormat,
+	ImageOptimizationOptions,
+	ImageSource,
+	LQIPConfig,
+	OptimizedImage,
+} from '../types.js'
+import {
+	detectImageFormat,
+	getQualityForFormat,
+	mergeLQIPConfig,
+} from '../utils/index.js'
+import { BaseImageAdapter } from './base-adapter.js'
+
+/**
+ * Next.js default `images.deviceSizes`
+ */
+const DEFAULT_DEVICE_SIZES = [640, 750, 828, 1080, 1200, 1920, 2048, 3840]
+
+/**
+ * Next.js default `images.imageSizes`
+ */
+const DEFAULT_IMAGE_SIZES = [16, 32, 48, 64, 96, 128, 256, 384]
+
+/**
+ * Next.js default `images.qualities` (since Next.js 16)
+ */
+const DEFAULT_QUALITIES = [75]
+
+/**
+ * Next.js adapter configuration
+ * Mirror the `images` section of next.config so generated URLs are accepted
+ */
+export interface NextAdapterConfig {
+	/** Image optimization API path, `images.path` (default: '/_next/image') */
+	path?: string
+
+	/** `images.deviceSizes` (default: Next.js defaults) */
+	deviceSizes?: number[]
+
+	/** `images.imageSizes` (default: Next.js defaults) */
+	imageSizes?: number[]
+
+	/**
+	 * `images.qualities` (default: Next.js default, [75])
+	 * Profile qualities snap to the closest allowed value, list more
+	 * qualities to keep them apart
+	 */
+	qualities?: number[]
+
+	/**
+	 * Format Next.js serves, used to pick the quality profile
+	 * (default: 'webp', the first of Next.js default `images.formats`)
+	 */
+	outputFormat?: ImageFormat
+
+	/** Default quality profile */
+	defaultProfile?: CompressionProfile
+}
+
+/**
+ * Parameters next/image passes to a custom loader
+ */
+export interface NextImageLoaderProps {
+	src: string
+	width: number
+	quality?: number
+}
+
+/**
+ * Custom loader function for next/image
+ */
+export type NextImageLoader = (props: NextImageLoaderProps) => string
+
+/**
+ * Closest allowed value, preferring the smallest one at least as large
+ */
+function snapToAllowed(value: number, allowed: readonly number[]): number {
+	const sorted = [...allowed].sort((a, b) => a - b)
+	return (
+		sorted.find(size => size >= value) ?? sorted[sorted.length - 1] ?? value
+	)
+}
+
+/**
+ * SVGs are not optimized by Next.js without `dangerouslyAllowSVG`
+ */
+const isSVG = (src: string): boolean =>
+	detectImageFormat(src.replace(/[?#].*$/, '')) === 'svg'
+
+/**
+ * Next.js image adapter
+ * Delegates optimization to the Next.js image API, with the library's
+ * quality profiles and security validation
+ */
+export class NextImageAdapter extends BaseImageAdapter {
+	private readonly path: string
+	private readonly widths: number[]
+	private readonly qualities: number[]
+	private readonly outputFormat: ImageFormat
+	private readonly defaultProfile: CompressionProfile
+
+	constructor(config: NextAdapterConfig = {}) {
+		super('NextImageAdapter')
+		this.path = config.path || '/_next/image'
+		this.widths = [
+			...(config.imageSizes ?? DEFAULT_IMAGE_SIZES),
+			...(config.deviceSizes ?? DEFAULT_DEVICE_SIZES),
+		]
+		this.qualities = config.qualities ?? DEFAULT_QUALITIES
+		this.outputFormat = config.outputFormat || 'webp'
+		this.defaultProfile = config.defaultProfile || 'balanced'
+	}
+
+	async optimize(
+		source: ImageSource,
+		options: ImageOptimizationOptions = {},
+	): Promise<OptimizedImage> {
+		options.signal?.throwIfAborted()
+		this.validateDimensions(options.width, options.height)
+		this.validateFocalPoint(options.focalPoint)
+		this.rejectTransforms(options.transforms)
+		this.rejectWatermark(options.watermark)
+
+		// Next.js only scales to a width, crops are left to CSS object-fit
+		if (options.fit && options.fit !== 'inside') {
+			throw this.unsupportedFit(options.fit)
+		}
+
+		const src = this.getSourceString(source)
+		const width = this.getAllowedWidth(
+			options.width ?? Math.max(...this.widths),
+		)
+		const url = this.buildURL(src, {
+			width,
+			...(options.quality !== undefined && { quality: options.quality }),
+			...(options.format && { format: options.format }),
+			...(options.profile && { profile: options.profile }),
+		})
+
+		// SVG pass-through, dimensions unknown without reading the file
+		if (isSVG(src)) {
+			return { src, width: 0, height: 0, format: 'svg' }
+		}
+
+		// Next.js keeps the aspect ratio, scale the requested height along
+		const height =
+			options.width && options.height
+				? Math.round((options.height * width) / options.width)
+				: 0
+
+		return {
+			src: url,
+			width,
+			height,
+			format: options.format || this.outputFormat,
+		}
+	}
+
+	async generateLQIP(
+		source: ImageSource,
+		config: Partial<LQIPConfig> = {},
+	): Promise<string> {
+		const lqipConfig = mergeLQIPConfig(config)
+
+		return this.buildURL(this.getSourceString(source), {
+			width: lqipConfig.width,
+			quality: lqipConfig.quality,
+		})
+	}
+
+	supportsFormat(format: string): boolean {
+		return ['png', 'webp', 'avif', 'jpeg', 'jpg', 'gif', 'svg'].includes(
+			format.toLowerCase(),
+		)
+	}
+
+	/**
+	 * Width Next.js accepts for a requested width
+	 * Next.js only serves the configured image and device sizes
+	 */
+	getAllowedWidth(width: number): number {
+		return snapToAllowed(width, this.widths)
+	}
+
+	/**
+	 * Build an image optimization API URL
+	 * SVGs are returned unchanged, as next/image does without
+	 * `dangerouslyAllowSVG`
+	 * @throws {ImageSecurityError} If the source is unsafe
+	 * @throws {ImageValidationError} If the source or width is invalid
+	 */
+	buildURL(
+		src: string,
+		params: {
+			width: number
+			quality?: number
+			format?: ImageFormat
+			profile?: CompressionProfile
+		},
+	): string {
+		this.validateSource(src)
+		this.validateDimensions(params.width)
+
+		if (isSVG(src)) {
+			return src
+		}
+
+		const quality = getQualityForFormat(
+			params.format || this.outputFormat,
+			params.profile || this.defaultProfile,
+			params.quality,
+		)
+		const width = this.getAllowedWidth(params.width)
+		const allowedQuality = snapToAllowed(quality, this.qualities)
+
+		return `${this.path}?url=${encodeURIComponent(src)}&w=${width}&q=${allowedQuality}`
+	}
+
+	/**
+	 * Accept root-relative paths and http(s) URLs, as Next.js does
+	 * @throws {ImageSecurityError} On path traversal or other protocols
+	 * @throws {ImageValidationError} On relative paths
+	 */
+	private validateSource(src: string): void {
+		if (src.includes('../') || src.includes('..\\')) {
+			throw new ImageSecurityError(
+				'Path traversal detected in image source',
+				{
+					source: src,
+					reason: 'directory_traversal',
+				},
+			)
+		}
+
+		if (
+			src.startsWith('//') ||
+			(/^[a-z][a-z0-9+.-]*:/i.test(src) && !/^https?:\/\//i.test(src))
+		) {
+			throw new ImageSecurityError(
+				'Only http(s) URLs and root-relative paths are allowed',
+				{ source: src, reason: 'invalid_protocol' },
+			)
+		}
+
+		if (!src.startsWith('/') && !/^https?:\/\//i.test(src)) {
+			throw new ImageValidationError(
+				'Local image sources must start with a slash',
+				{ source: src, reason: 'relative_path' },
+			)
+		}
+	}
+}
+
+/**
+ * Create a next/image loader using the library's quality profiles and
+ * security validation
+ *
+ * @example
+ * ```typescript
+ * // image-loader.ts, set as `images.loaderFile` in next.config
+ * export default createNextImageLoader({ defaultProfile: 'aggressive' })
+ * ```
+ */
+export function createNextImageLoader(
+	config: NextAdapterConfig = {},
+): NextImageLoader {
+	const adapter = new NextImageAdapter(config)
+
+	return ({ src, width, quality }) =>
+		adapter.buildURL(src, {
+			width,
+			...(quality !== undefined && { quality }),
+		})
+}
+
+let defaultLoader: NextImageLoader | undefined
+
+/**
+ * next/image loader for the default Next.js configuration
+ * Also the module's default export, as `images.loaderFile` expects
+ *
+ * @example
+ * ```tsx
+ * <Image loader={nextImageLoader} src="/hero.jpg" width={1200} height={600} alt="" />
+ * ```
+ */
+export function nextImageLoader(props: NextImageLoaderProps): string {
+	defaultLoader ??= createNextImageLoader()
+	return defaultLoader(props)
+}
+
+export default nextImageLoader
@@ -0,0 +1,599 @@
+/**
+ * Tests for the Sharp image adapter
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { ImageProcessingError, ImageValidationError } from '../errors.js'
+import type { ImageWatermark } from '../types.js'
+import { SharpImageAdapter } from './sharp-adapter.js'
+
+const createImage = (width: number, height: number): Promise<Buffer> =>
+	sharp({
+		create: {
+			width,
+			height,
+			channels: 3,
+			background: { r: 200, g: 80, b: 40 },
+		},
+	})
+		.png()
+		.toBuffer()
+
+/**
+ * 200x100 image, red on the left half and blue on the right half
+ */
+const createSplitImage = (): Promise<Buffer> =>
+	sharp({
+		create: {
+			width: 200,
+			height: 100,
+			channels: 3,
+			background: { r: 255, g: 0, b: 0 },
+		},
+	})
+		.composite([
+			{
+				input: {
+					create: {
+						width: 100,
+						height: 100,
+						channels: 3,
+						background: { r: 0, g: 0, b: 255 },
+					},
+				},
+				left: 100,
+				top: 0,
+			},
+		])
+		.png()
+		.toBuffer()
+
+/**
+ * Mean red and blue of an encoded image
+ */
+const meanColor = async (data: Buffer) => {
+	const { channels } = await sharp(data).stats()
+	return { red: channels[0]?.mean ?? 0, blue: channels[2]?.mean ?? 0 }
+}
+
+/**
+ * PNG header declaring 60000x60000 pixels, without image data
+ */
+const BOMB_HEADER = Buffer.concat([
+	Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+	Buffer.from([0, 0, 0, 13]),
+	Buffer.from('IHDR'),
+	Buffer.from([0, 0, 0xea, 0x60, 0, 0, 0xea, 0x60, 8, 2, 0, 0, 0]),
+])
+
+/**
+ * RGB of a pixel of an encoded image
+ */
+const pixelAt = async (data: Buffer, x: number, y: number) => {
+	const { data: pixels, info } = await sharp(data)
+		.raw()
+		.toBuffer({ resolveWithObject: true })
+	const offset = (y * info.width + x) * info.channels
+	return [...pixels.subarray(offset, offset + 3)]
+}
+
+describe('SharpImageAdapter', () => {
+	let adapter: SharpImageAdapter
+	let outputDir: string
+
+	beforeEach(async () => {
+		adapter = new SharpImageAdapter()
+		outputDir = await mkdtemp(join(tmpdir(), 'sharp-adapter-'))
+	})
+
+	afterEach(async () => {
+		await rm(outputDir, { recursive: true, force: true })
+	})
+
+	describe('optimize', () => {
+		it('should resize Buffers keeping the aspect ratio', async () => {
+			const result = await adapter.optimize(await createImage(400, 200), {
+				width: 100,
+			})
+
+			expect(result).toMatchObject({
+				width: 100,
+				height: 50,
+				format: 'png',
+			})
+			const metadata = await sharp(result.data).metadata()
+			expect(metadata).toMatchObject({ width: 100, height: 50 })
+		})
+
+		it('should fit within both dimensions', async () => {
+			const result = await adapter.optimize(await createImage(400, 200), {
+				width: 100,
+				height: 100,
+			})
+
+			expect(result).toMatchObject({ width: 100, height: 50 })
+		})
+
+		it('should never enlarge images', async () => {
+			const result = await adapter.optimize(await createImage(80, 40), {
+				width: 800,
+			})
+
+			expect(result).toMatchObject({ width: 80, height: 40 })
+		})
+
+		it('should crop to cover both dimensions', async () => {
+			const result = await adapter.optimize(await createImage(400, 200), {
+				width: 100,
+				height: 100,
+				fit: 'cover',
+			})
+
+			expect(result).toMatchObject({ width: 100, height: 100 })
+		})
+
+		it('should crop at the requested position', async () => {
+			const result = await adapter.optimize(await createSplitImage(), {
+				width: 50,
+				height: 50,
+				fit: 'cover',
+				position: 'right',
+			})
+
+			expect((await meanColor(result.data)).blue).toBeGreaterThan(250)
+		})
+
+		it('should crop around the focal point', async () => {
+			const image = await createSplitImage()
+			const left = await adapter.optimize(image, {
+				width: 40,
+				height: 40,
+				fit: 'cover',
+				focalPoint: { x: 0.2, y: 0.5 },
+			})
+			const right = await adapter.optimize(image, {
+				width: 40,
+				height: 40,
+				fit: 'cover',
+				focalPoint: { x: 0.9, y: 0.5 },
+			})
+
+			expect(left).toMatchObject({ width: 40, height: 40 })
+			expect((await meanColor(left.data)).red).toBeGreaterThan(250)
+			expect((await meanColor(right.data)).blue).toBeGreaterThan(250)
+		})
+
+		it('should keep focal crops inside small images', async () => {
+			const result = await adapter.optimize(await createImage(80, 40), {
+				width: 100,
+				height: 100,
+				fit: 'cover',
+				focalPoint: { x: 1, y: 1 },
+			})
+
+			expect(result).toMatchObject({ width: 80, height: 40 })
+		})
+
+		it('should reject focal points outside the image', async () => {
+			await expect(
+				adapter.optimize(await createImage(10, 10), {
+					fit: 'cover',
+					focalPoint: { x: 1.5, y: 0 },
+				}),
+			).rejects.toMatchObject({
+				name: 'ImageValidationError',
+				context: { reason: 'invalid_focal_point' },
+			})
+		})
+
+		it('should convert to the requested format', async () => {
+			const result = await adapter.optimize(await createImage(64, 64), {
+				format: 'webp',
+			})
+
+			expect(result.format).toBe('webp')
+			expect(result.src).toMatch(/^data:image\/webp;base64,/)
+			expect((await sharp(result.data).metadata()).format).toBe('webp')
+			expect(result.size).toBe(result.data.length)
+		})
+
+		it('should apply profile-based quality', async () => {
+			// Noise keeps the encoded size sensitive to quality
+			const image = await sharp({
+				create: {
+					width: 128,
+					height: 128,
+					channels: 3,
+					background: '#808080',
+					noise: { type: 'gaussian', mean: 128, sigma: 30 },
+				},
+			})
+				.png()
+				.toBuffer()
+
+			const high = await adapter.optimize(image, {
+				format: 'jpeg',
+				profile: 'lossless',
+			})
+			const low = await adapter.optimize(image, {
+				format: 'jpeg',
+				profile: 'aggressive',
+			})
+
+			expect(low.size).toBeLessThan(high.size)
+		})
+
+		it('should write files to outputDir under publicPath', async () => {
+			const source = join(outputDir, 'hero photo.png')
+			await writeFile(source, await createImage(300, 150))
+			adapter = new SharpImageAdapter({
+				outputDir: join(outputDir, 'out'),
+				publicPath: '/images/',
+			})
+
+			const result = await adapter.optimize(source, {
+				width: 100,
+				format: 'jpg',
+			})
+
+			expect(result.src).toMatch(
+				/^\/images\/hero-photo-100x50-[0-9a-f]{8}\.jpg$/,
+			)
+			const fileName = result.src.replace('/images/', '')
+			const written = await readFile(join(outputDir, 'out', fileName))
+			expect(written.equals(result.data)).toBe(true)
+		})
+
+		it('should reject remote sources', async () => {
+			await expect(
+				adapter.optimize('https://example.com/photo.jpg'),
+			).rejects.toMatchObject({
+				name: 'ImageValidationError',
+				context: { reason: 'remote_source' },
+			})
+		})
+
+		it('should reject oversized dimensions', async () => {
+			await expect(
+				adapter.optimize(await createImage(10, 10), { width: 100000 }),
+			).rejects.toThrow(ImageValidationError)
+		})
+
+		it('should reject decompression bombs before decoding', async () => {
+			await expect(adapter.optimize(BOMB_HEADER)).rejects.toMatchObject({
+				name: 'ImageSecurityError',
+				context: {
+					width: 60000,
+					height: 60000,
+					reason: 'decompression_bomb',
+				},
+			})
+		})
+
+		it('should check the header of files', async () => {
+			const source = join(outputDir, 'bomb.png')
+			await writeFile(source, BOMB_HEADER)
+
+			await expect(adapter.optimize(source)).rejects.toMatchObject({
+				name: 'ImageSecurityError',
+				context: { reason: 'decompression_bomb' },
+			})
+		})
+
+		it('should reject formats it cannot encode', async () => {
+			await expect(
+				adapter.optimize(await createImage(10, 10), { format: 'svg' }),
+			).rejects.toMatchObject({
+				context: { reason: 'unsupported_format' },
+			})
+		})
+
+		it('should stop when the signal aborts', async () => {
+			const image = await createImage(100, 100)
+			const reason = new Error('cancelled')
+			const controller = new AbortController()
+
+			const pending = adapter.optimize(image, {
+				signal: controller.signal,
+			})
+			controller.abort(reason)
+
+			await expect(pending).rejects.toBe(reason)
+			await expect(
+				adapter.optimize(image, { signal: AbortSignal.abort(reason) }),
+			).rejects.toBe(reason)
+		})
+
+		it('should wrap decoding failures', async () => {
+			await expect(
+				adapter.optimize(Buffer.from('not an image')),
+			).rejects.toThrow(ImageProcessingError)
+		})
+	})
+
+	describe('transforms', () => {
+		it('should rotate and flip', async () => {
+			const result = await adapter.optimize(await createSplitImage(), {
+				format: 'png',
+				transforms: [
+					{ type: 'autoOrient' },
+					{ type: 'rotate', angle: 90 },
+					{ type: 'flip', direction: 'vertical' },
+				],
+			})
+
+			expect(result).toMatchObject({ width: 100, height: 200 })
+			// Rotated, red is on top; flipped, it is at the bottom
+			expect(await pixelAt(result.data, 50, 20)).toEqual([0, 0, 255])
+			expect(await pixelAt(result.data, 50, 180)).toEqual([255, 0, 0])
+		})
+
+		it('should apply repeated transformations in order', async () => {
+			const result = await adapter.optimize(await createSplitImage(), {
+				transforms: [
+					{ type: 'rotate', angle: 90 },
+					{ type: 'rotate', angle: 90 },
+				],
+			})
+
+			expect(result).toMatchObject({ width: 200, height: 100 })
+		})
+
+		it('should convert to grayscale', async () => {
+			const result = await adapter.optimize(await createImage(20, 20), {
+				format: 'png',
+				transforms: [{ type: 'grayscale' }],
+			})
+			const [red, green, blue] = await pixelAt(result.data, 10, 10)
+
+			expect(red).toBe(green)
+			expect(green).toBe(blue)
+		})
+
+		it('should trim borders and pad with the background color', async () => {
+			const image = await sharp({
+				create: {
+					width: 20,
+					height: 20,
+					channels: 3,
+					background: { r: 255, g: 255, b: 255 },
+				},
+			})
+				.composite([
+					{
+						input: {
+							create: {
+								width: 10,
+								height: 10,
+								channels: 3,
+								background: { r: 255, g: 0, b: 0 },
+							},
+						},
+						left: 5,
+						top: 5,
+					},
+				])
+				.png()
+				.toBuffer()
+
+			const result = await adapter.optimize(image, {
+				format: 'png',
+				transforms: [
+					{ type: 'trim' },
+					{ type: 'background', color: '#00f' },
+					{ type: 'pad', top: 2, right: 0, bottom: 0, left: 4 },
+				],
+			})
+
+			expect(result).toMatchObject({ width: 14, height: 12 })
+			expect(await pixelAt(result.data, 0, 0)).toEqual([0, 0, 255])
+			expect(await pixelAt(result.data, 8, 8)).toEqual([255, 0, 0])
+		})
+
+		it('should pad with transparency without a background', async () => {
+			const result = await adapter.optimize(await createImage(10, 10), {
+				format: 'png',
+				transforms: [
+					{ type: 'pad', top: 5, right: 5, bottom: 5, left: 5 },
+				],
+			})
+			const { data, info } = await sharp(result.data)
+				.raw()
+				.toBuffer({ resolveWithObject: true })
+
+			expect(result).toMatchObject({ width: 20, height: 20 })
+			expect(info.channels).toBe(4)
+			expect(data[3]).toBe(0)
+		})
+
+		it('should blur and sharpen', async () => {
+			const result = await adapter.optimize(await createSplitImage(), {
+				format: 'png',
+				transforms: [
+					{ type: 'blur', radius: 20 },
+					{ type: 'sharpen', amount: 2 },
+				],
+			})
+			const [red, , blue] = await pixelAt(result.data, 100, 50)
+
+			// The edge between the halves is blended
+			expect(red).toBeGreaterThan(0)
+			expect(blue).toBeGreaterThan(0)
+		})
+
+		it('should reject invalid transformations and oversized padding', async () => {
+			const image = await createImage(10, 10)
+
+			await expect(
+				adapter.optimize(image, {
+					transforms: [{ type: 'blur', radius: 0 }],
+				}),
+			).rejects.toMatchObject({
+				name: 'ImageValidationError',
+				context: { reason: 'invalid_transform' },
+			})
+			await expect(
+				adapter.optimize(image, {
+					transforms: [
+						{
+							type: 'pad',
+							top: 0,
+							right: 10000,
+							bottom: 0,
+							left: 0,
+						},
+					],
+				}),
+			).rejects.toThrow(ImageValidationError)
+		})
+	})
+
+	describe('watermarks', () => {
+		const optimize = async (watermark: ImageWatermark) =>
+			(
+				await adapter.optimize(await createImage(100, 100), {
+					format: 'png',
+					watermark,
+				})
+			).data
+
+		beforeEach(async () => {
+			adapter = new SharpImageAdapter({ watermarkDir: outputDir })
+			await writeFile(
+				join(outputDir, 'logo.png'),
+				await sharp({
+					create: {
+						width: 10,
+						height: 10,
+						channels: 3,
+						background: { r: 0, g: 0, b: 255 },
+					},
+				})
+					.png()
+					.toBuffer(),
+			)
+		})
+
+		it('should draw image watermarks at the position and margin', async () => {
+			const data = await optimize({
+				type: 'image',
+				src: 'logo.png',
+				margin: 5,
+			})
+
+			expect(await pixelAt(data, 90, 90)).toEqual([0, 0, 255])
+			expect(await pixelAt(data, 97, 97)).toEqual([200, 80, 40])
+			expect(await pixelAt(data, 80, 90)).toEqual([200, 80, 40])
+		})
+
+		it('should scale, blend and tile image watermarks', async () => {
+			const blended = await optimize({
+				type: 'image',
+				src: 'logo.png',
+				position: 'top-left',
+				width: 50,
+				opacity: 0.5,
+			})
+			const tiled = await optimize({
+				type: 'image',
+				src: 'logo.png',
+				tile: true,
+			})
+
+			const [red = 0, , blue = 0] = await pixelAt(blended, 50, 50)
+			expect(red).toBeGreaterThan(90)
+			expect(red).toBeLessThan(110)
+			expect(blue).toBeGreaterThan(137)
+			expect(blue).toBeLessThan(157)
+			expect(await pixelAt(blended, 70, 70)).toEqual([200, 80, 40])
+			expect((await meanColor(tiled)).blue).toBeGreaterThan(250)
+		})
+
+		it('should draw text watermarks', async () => {
+			const plain = (
+				await adapter.optimize(await createImage(100, 100), {
+					format: 'png',
+				})
+			).data
+			const data = await optimize({
+				type: 'text',
+				text: 'Acme',
+				color: '#00f',
+				size: 20,
+			})
+
+			expect((await meanColor(data)).blue).toBeGreaterThan(
+				(await meanColor(plain)).blue,
+			)
+		})
+
+		it('should fit text larger than the image', async () => {
+			const data = await optimize({
+				type: 'text',
+				text: 'Acme '.repeat(40).trim(),
+				size: 10000,
+			})
+
+			expect(await sharp(data).metadata()).toMatchObject({
+				width: 100,
+				height: 100,
+			})
+		})
+
+		it('should check watermark paths like CDN sources', async () => {
+			await expect(
+				optimize({ type: 'image', src: '../logo.png' }),
+			).rejects.toMatchObject({
+				name: 'ImageSecurityError',
+				context: { reason: 'directory_traversal' },
+			})
+			await expect(
+				optimize({ type: 'image', src: join(outputDir, 'logo.png') }),
+			).rejects.toMatchObject({ context: { reason: 'absolute_path' } })
+		})
+	})
+
+	describe('generateLQIP', () => {
+		it('should return a small data URI', async () => {
+			const lqip = await adapter.generateLQIP(await createImage(400, 200))
+
+			expect(lqip).toMatch(/^data:image\/webp;base64,/)
+			const data = Buffer.from(lqip.split(',')[1] ?? '', 'base64')
+			const metadata = await sharp(data).metadata()
+			expect(metadata.width).toBeLessThanOrEqual(20)
+			expect(metadata.height).toBeLessThanOrEqual(20)
+		})
+	})
+
+	describe('supportsFormat', () => {
+		it('should support raster output formats', () => {
+			expect(adapter.supportsFormat('avif')).toBe(true)
+			expect(adapter.supportsFormat('WEBP')).toBe(true)
+			expect(adapter.supportsFormat('svg')).toBe(false)
+		})
+	})
+
+	describe('optimizeBatch', () => {
+		it('should optimize Buffers and report failures', async () => {
+			const image = await createImage(200, 100)
+			const invalid = Buffer.from('not an image')
+
+			const result = await adapter.optimizeBatch([image, invalid], {
+				width: 50,
+			})
+
+			expect(result.successful).toHaveLength(1)
+			expect(result.successful[0]?.output).toMatchObject({
+				width: 50,
+				height: 25,
+			})
+			expect(result.failed).toHaveLength(1)
+		})
+	})
+})
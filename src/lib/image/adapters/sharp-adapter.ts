@@ -0,0 +1,594 @@
+/**
+ * Sharp image optimization adapter
+ * Produces optimized bytes on the server from file paths or Buffers
+ */
+
+import type sharp from 'sharp'
+
+import { ImageValidationError } from '../errors.js'
+import type {
+	CompressionProfile,
+	ImageFormat,
+	ImageOptimizationOptions,
+	ImageSource,
+	ImageTransform,
+	LQIPConfig,
+	OptimizedImage,
+} from '../types.js'
+import type { NormalizedWatermark } from '../utils/index.js'
+import {
+	generateLQIPDataURI,
+	getCompressionOptions,
+	getDisplayDimensions,
+	getQualityForFormat,
+	getWatermarkAlignment,
+	normalizeTransforms,
+	normalizeWatermark,
+} from '../utils/index.js'
+import type { SharpFactory } from '../utils/sharp.js'
+import { loadSharp, openImage, SHARP_POSITIONS } from '../utils/sharp.js'
+import { BaseImageAdapter } from './base-adapter.js'
+
+export type { SharpFactory } from '../utils/sharp.js'
+
+/**
+ * Raster formats Sharp can encode
+ */
+const OUTPUT_FORMATS: ReadonlySet<ImageFormat> = new Set([
+	'png',
+	'webp',
+	'avif',
+	'jpeg',
+	'jpg',
+])
+
+/**
+ * Escape text for Pango markup
+ */
+const escapeMarkup = (text: string): string =>
+	text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;')
+
+/**
+ * Sharp adapter configuration
+ */
+export interface SharpAdapterConfig {
+	/**
+	 * Directory where optimized files are written
+	 * Without it, images are returned as data URIs
+	 */
+	outputDir?: string
+
+	/**
+	 * Public URL prefix under which outputDir is served
+	 * Defaults to the written file path
+	 */
+	publicPath?: string
+
+	/**
+	 * Default quality profile
+	 */
+	defaultProfile?: CompressionProfile
+
+	/**
+	 * Sharp module to use
+	 * Loaded from the optional `sharp` peer dependency when omitted
+	 */
+	sharp?: SharpFactory
+
+	/**
+	 * Directory watermark images are read from
+	 * Defaults to the working directory
+	 */
+	watermarkDir?: string
+}
+
+/**
+ * Optimized image produced locally, with its encoded bytes
+ */
+export interface SharpOptimizedImage extends OptimizedImage {
+	/** Encoded image */
+	data: Buffer
+	/** Encoded size in bytes */
+	size: number
+}
+
+/**
+ * Sharp image adapter implementation
+ * Resizes within the requested box (or as `fit` requests), never
+ * enlarging, applies transformations and watermarks, then encodes with
+ * profile-based quality
+ */
+export class SharpImageAdapter extends BaseImageAdapter {
+	private readonly outputDir?: string
+	private readonly publicPath?: string
+	private readonly defaultProfile: CompressionProfile
+	private readonly watermarkDir?: string
+	private sharp?: Promise<SharpFactory>
+
+	constructor(config: SharpAdapterConfig = {}) {
+		super('SharpImageAdapter')
+		this.outputDir = config.outputDir
+		this.publicPath = config.publicPath?.replace(/\/$/, '') // Remove trailing slash
+		this.defaultProfile = config.defaultProfile || 'balanced'
+		this.watermarkDir = config.watermarkDir
+		if (config.sharp) {
+			this.sharp = Promise.resolve(config.sharp)
+		}
+	}
+
+	async optimize(
+		source: ImageSource,
+		options: ImageOptimizationOptions = {},
+	): Promise<SharpOptimizedImage> {
+		try {
+			options.signal?.throwIfAborted()
+			// Validate dimensions against security limits
+			this.validateDimensions(options.width, options.height)
+			this.validateFocalPoint(options.focalPoint)
+			const transforms = normalizeTransforms(options.transforms ?? [])
+			const watermark =
+				options.watermark && normalizeWatermark(options.watermark)
+
+			const image = await this.load(source)
+			const metadata = await image.metadata()
+			options.signal?.throwIfAborted()
+			const format = this.resolveFormat(options.format, metadata.format)
+			const profile = options.profile || this.defaultProfile
+			const quality = getQualityForFormat(
+				format,
+				profile,
+				options.quality,
+			)
+
+			let pipeline = this.resize(
+				image.rotate(), // Apply EXIF orientation
+				metadata,
+				options,
+			)
+			pipeline = await this.applyTransforms(
+				pipeline,
+				transforms,
+				options.signal,
+			)
+			if (watermark) {
+				pipeline = await this.drawWatermark(pipeline, watermark)
+			}
+			options.signal?.throwIfAborted()
+
+			const { data, info } = await pipeline
+				.toFormat(
+					format === 'jpg' ? 'jpeg' : format,
+					getCompressionOptions(format, quality),
+				)
+				.toBuffer({ resolveWithObject: true })
+
+			this.log('Image optimized', {
+				format,
+				quality,
+				width: info.width,
+				height: info.height,
+				size: info.size,
+			})
+			options.signal?.throwIfAborted()
+
+			return {
+				src: await this.output(source, data, format, info),
+				width: info.width,
+				height: info.height,
+				format,
+				data,
+				size: info.size,
+			}
+		} catch (error) {
+			// Cancellation rejects with the abort reason, not a library error
+			options.signal?.throwIfAborted()
+			throw this.handleError('optimize', error)
+		}
+	}
+
+	async generateLQIP(
+		source: ImageSource,
+		config: Partial<LQIPConfig> = {},
+	): Promise<string> {
+		try {
+			return await generateLQIPDataURI(
+				Buffer.isBuffer(source) ? source : this.getSourceString(source),
+				config,
+				{ sharp: this.getSharp() },
+			)
+		} catch (error) {
+			throw this.handleError('generateLQIP', error)
+		}
+	}
+
+	supportsFormat(format: string): boolean {
+		return OUTPUT_FORMATS.has(format.toLowerCase() as ImageFormat)
+	}
+
+	/**
+	 * Resize into the requested box, inside it by default
+	 * Cover crops with a focal point are cut around it, as Sharp only
+	 * positions crops by gravity
+	 */
+	private resize(
+		image: sharp.Sharp,
+		metadata: sharp.Metadata,
+		{
+			width,
+			height,
+			fit = 'inside',
+			position = 'center',
+			focalPoint,
+		}: ImageOptimizationOptions,
+	): sharp.Sharp {
+		if (
+			focalPoint &&
+			fit === 'cover' &&
+			width &&
+			height &&
+			metadata.width &&
+			metadata.height
+		) {
+			const input = getDisplayDimensions({
+				width: metadata.width,
+				height: metadata.height,
+				orientation: metadata.orientation ?? 1,
+			})
+
+			// Scale to cover the box without enlarging, then crop around
+			// the focal point, kept inside the image
+			const scale = Math.min(
+				Math.max(width / input.width, height / input.height),
+				1,
+			)
+			const scaledWidth = Math.round(input.width * scale)
+			const scaledHeight = Math.round(input.height * scale)
+			const cropWidth = Math.min(width, scaledWidth)
+			const cropHeight = Math.min(height, scaledHeight)
+			const clamp = (value: number, max: number): number =>
+				Math.min(Math.max(Math.round(value), 0), max)
+
+			return image.resize(scaledWidth, scaledHeight).extract({
+				left: clamp(
+					focalPoint.x * scaledWidth - cropWidth / 2,
+					scaledWidth - cropWidth,
+				),
+				top: clamp(
+					focalPoint.y * scaledHeight - cropHeight / 2,
+					scaledHeight - cropHeight,
+				),
+				width: cropWidth,
+				height: cropHeight,
+			})
+		}
+
+		return image.resize({
+			width: width || undefined,
+			height: height || undefined,
+			fit,
+			position: SHARP_POSITIONS[position],
+			withoutEnlargement: true,
+		})
+	}
+
+	/**
+	 * Run the pending operations and start a new pipeline from the pixels
+	 * Sharp applies each operation once, in a fixed order, so operations
+	 * that must follow others need their own pipeline
+	 */
+	private async decode(
+		image: sharp.Sharp,
+	): Promise<{ image: sharp.Sharp; info: sharp.OutputInfo }> {
+		const factory = await this.getSharp()
+		const { data, info } = await image
+			.raw()
+			.toBuffer({ resolveWithObject: true })
+
+		return {
+			image: factory(data, {
+				raw: {
+					width: info.width,
+					height: info.height,
+					channels: info.channels,
+				},
+			}),
+			info,
+		}
+	}
+
+	/**
+	 * Apply transformations after resizing, in order, each in its own
+	 * pipeline
+	 * autoOrient needs no step, the EXIF orientation is always applied
+	 * @throws {ImageValidationError} If padding exceeds the dimension limits
+	 */
+	private async applyTransforms(
+		image: sharp.Sharp,
+		transforms: ImageTransform[],
+		signal?: AbortSignal,
+	): Promise<sharp.Sharp> {
+		let current = image
+		// Padding uses the last background color, else transparency
+		let background: string | undefined
+
+		for (const transform of transforms) {
+			if (transform.type === 'autoOrient') continue
+			signal?.throwIfAborted()
+			const { image: next, info } = await this.decode(current)
+
+			switch (transform.type) {
+				case 'rotate':
+					current = next.rotate(transform.angle)
+					break
+				case 'flip':
+					current =
+						transform.direction === 'horizontal'
+							? next.flop()
+							: transform.direction === 'vertical'
+								? next.flip()
+								: next.flip().flop()
+					break
+				case 'blur':
+					// Sharp blurs by sigma, about half the radius
+					current = next.blur(Math.max(transform.radius / 2, 0.3))
+					break
+				case 'sharpen':
+					current =
+						transform.amount > 0
+							? next.sharpen({ sigma: transform.amount / 2 })
+							: next
+					break
+				case 'grayscale':
+					current = next.grayscale()
+					break
+				case 'trim':
+					current = next.trim({ threshold: transform.threshold })
+					break
+				case 'background':
+					background = `#${transform.color}`
+					current = next.flatten({ background })
+					break
+				case 'pad': {
+					const { top, right, bottom, left } = transform
+					this.validateDimensions(
+						info.width + left + right,
+						info.height + top + bottom,
+					)
+					current = (background ? next : next.ensureAlpha()).extend({
+						top,
+						right,
+						bottom,
+						left,
+						background: background ?? {
+							r: 0,
+							g: 0,
+							b: 0,
+							alpha: 0,
+						},
+					})
+					break
+				}
+			}
+		}
+
+		return current
+	}
+
+	/**
+	 * Draw a watermark over the resized image
+	 * The image is decoded first, as its size places the watermark
+	 */
+	private async drawWatermark(
+		image: sharp.Sharp,
+		watermark: NormalizedWatermark,
+	): Promise<sharp.Sharp> {
+		const { image: decoded, info } = await this.decode(image)
+		const layer = await this.renderWatermark(
+			watermark,
+			info.width,
+			info.height,
+		)
+
+		let placement: sharp.OverlayOptions = {
+			tile: true,
+			gravity: 'northwest',
+		}
+		if (!watermark.tile) {
+			const { vertical, horizontal } = getWatermarkAlignment(
+				watermark.position,
+			)
+			const offset = (
+				alignment: string,
+				size: number,
+				layerSize: number,
+			): number =>
+				Math.max(
+					alignment === 'left' || alignment === 'top'
+						? watermark.margin
+						: alignment === 'center'
+							? Math.round((size - layerSize) / 2)
+							: size - layerSize - watermark.margin,
+					0,
+				)
+			placement = {
+				left: offset(horizontal, info.width, layer.info.width),
+				top: offset(vertical, info.height, layer.info.height),
+			}
+		}
+
+		return decoded.composite([{ input: layer.data, ...placement }])
+	}
+
+	/**
+	 * Render a watermark as a transparent PNG fitting inside the image
+	 * margins, with its opacity applied
+	 */
+	private async renderWatermark(
+		watermark: NormalizedWatermark,
+		imageWidth: number,
+		imageHeight: number,
+	): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+		const factory = await this.getSharp()
+		const margin = watermark.tile ? 0 : watermark.margin * 2
+		const maxWidth = Math.max(imageWidth - margin, 1)
+		const maxHeight = Math.max(imageHeight - margin, 1)
+
+		let layer: sharp.Sharp
+		let width: number | undefined
+		if (watermark.type === 'text') {
+			// Glyphs are at most about as wide as the font size, text that
+			// may not fit is fitted to the image instead of rendered larger
+			const family = watermark.font ?? 'sans-serif'
+			const fits =
+				watermark.text.length * watermark.size <= maxWidth &&
+				watermark.size <= maxHeight
+			layer = factory({
+				text: {
+					text: `<span foreground="#${watermark.color}">${escapeMarkup(watermark.text)}</span>`,
+					rgba: true,
+					...(fits
+						? // Font sizes are in points, 72 dpi makes them pixels
+							{ font: `${family} ${watermark.size}`, dpi: 72 }
+						: { font: family, width: maxWidth, height: maxHeight }),
+				},
+			})
+		} else {
+			layer = await openImage(
+				factory,
+				await this.getWatermarkPath(watermark.src),
+			)
+			width = watermark.width
+		}
+
+		layer.ensureAlpha().resize({
+			width: Math.min(width ?? maxWidth, maxWidth),
+			height: maxHeight,
+			fit: 'inside',
+			withoutEnlargement: width === undefined,
+		})
+		if (watermark.opacity < 1) {
+			layer.composite([
+				{
+					input: Buffer.from([
+						0,
+						0,
+						0,
+						Math.round(watermark.opacity * 255),
+					]),
+					raw: { width: 1, height: 1, channels: 4 },
+					tile: true,
+					blend: 'dest-in',
+				},
+			])
+		}
+
+		return layer.png().toBuffer({ resolveWithObject: true })
+	}
+
+	/**
+	 * Path of a watermark image, checked like CDN image sources
+	 * @throws {ImageSecurityError} On path traversal, absolute paths or
+	 * non-image files
+	 */
+	private async getWatermarkPath(src: string): Promise<string> {
+		this.validateSourcePath(src)
+		if (!this.watermarkDir) {
+			return src
+		}
+
+		const { join } = await import('node:path')
+		return join(this.watermarkDir, src)
+	}
+
+	/**
+	 * Sharp module, loaded on first use
+	 */
+	private getSharp(): Promise<SharpFactory> {
+		this.sharp ??= loadSharp()
+		return this.sharp
+	}
+
+	/**
+	 * Create a Sharp pipeline for a local source
+	 * @throws {ImageValidationError} If the source is remote or too large
+	 */
+	private async load(source: ImageSource): Promise<sharp.Sharp> {
+		return openImage(
+			await this.getSharp(),
+			Buffer.isBuffer(source) ? source : this.getSourceString(source),
+		)
+	}
+
+	/**
+	 * Pick the output format: requested, else the input's, else WebP
+	 * @throws {ImageValidationError} If the requested format cannot be encoded
+	 */
+	private resolveFormat(
+		requested: ImageFormat | undefined,
+		inputFormat: string | undefined,
+	): ImageFormat {
+		if (requested) {
+			if (!this.supportsFormat(requested)) {
+				throw new ImageValidationError(
+					`SharpImageAdapter cannot encode ${requested} images`,
+					{ format: requested, reason: 'unsupported_format' },
+				)
+			}
+			return requested
+		}
+
+		const format = inputFormat === 'heif' ? 'avif' : inputFormat
+		return format && this.supportsFormat(format)
+			? (format as ImageFormat)
+			: 'webp'
+	}
+
+	/**
+	 * Write the encoded image to outputDir, or inline it as a data URI
+	 * File names are content-addressed so they can be cached immutably
+	 */
+	private async output(
+		source: ImageSource,
+		data: Buffer,
+		format: ImageFormat,
+		{ width, height }: { width: number; height: number },
+	): Promise<string> {
+		const mimeType = format === 'jpg' ? 'jpeg' : format
+		if (!this.outputDir) {
+			return `data:image/${mimeType};base64,${data.toString('base64')}`
+		}
+
+		const [
+			{ mkdir, writeFile },
+			{ basename, extname, join },
+			{ createHash },
+		] = await Promise.all([
+			import('node:fs/promises'),
+			import('node:path'),
+			import('node:crypto'),
+		])
+
+		const sourcePath = Buffer.isBuffer(source)
+			? 'image'
+			: this.getSourceString(source)
+		const stem = basename(sourcePath, extname(sourcePath))
+			.replace(/[^a-zA-Z0-9_-]+/g, '-')
+			.slice(0, 64)
+		const hash = createHash('sha256').update(data).digest('hex').slice(0, 8)
+		const extension = format === 'jpeg' ? 'jpg' : format
+		const fileName = `${stem || 'image'}-${width}x${height}-${hash}.${extension}`
+
+		await mkdir(this.outputDir, { recursive: true })
+		const filePath = join(this.outputDir, fileName)
+		await writeFile(filePath, data)
+
+		return this.publicPath !== undefined
+			? `${this.publicPath}/${fileName}`
+			: filePath
+	}
+}
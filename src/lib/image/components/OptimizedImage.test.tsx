@@ -0,0 +1,204 @@
+/**
+ * Tests for OptimizedImage placeholders and OptimizedPicture sources
+ * @vitest-environment jsdom
+ */
+
+import { render, screen } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { OptimizedImage as OptimizedImageType } from '../types.js'
+import { OptimizedImage, OptimizedPicture } from './OptimizedImage.js'
+
+describe('OptimizedImage placeholders', () => {
+	const image: OptimizedImageType = {
+		src: '/product.webp',
+		width: 800,
+		height: 600,
+		format: 'webp',
+	}
+
+	beforeEach(() => {
+		// jsdom has no IntersectionObserver, images never enter the viewport
+		vi.stubGlobal(
+			'IntersectionObserver',
+			class {
+				observe = vi.fn()
+				disconnect = vi.fn()
+			},
+		)
+	})
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	it('should render BlurHash placeholders while loading', () => {
+		render(
+			<OptimizedImage
+				image={image}
+				alt="Product"
+				placeholder={{
+					type: 'blurhash',
+					hash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+				}}
+			/>,
+		)
+
+		const img = screen.getByAltText('Product')
+		expect(img.getAttribute('src')).toMatch(/^data:image\/png;base64,/)
+		expect(img.style.filter).toBe('blur(10px)')
+	})
+
+	it('should render ThumbHash placeholders while loading', () => {
+		render(
+			<OptimizedImage
+				image={image}
+				alt="Product"
+				placeholder={{
+					type: 'thumbhash',
+					hash: '1QcSHQRnh493V4dIh4eXh1h4kJUI',
+				}}
+			/>,
+		)
+
+		expect(screen.getByAltText('Product').getAttribute('src')).toMatch(
+			/^data:image\/png;base64,/,
+		)
+	})
+
+	it('should prefer the lqip when both are given', () => {
+		render(
+			<OptimizedImage
+				image={image}
+				alt="Product"
+				lqip="data:image/webp;base64,UklGRg=="
+				placeholder={{
+					type: 'blurhash',
+					hash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+				}}
+			/>,
+		)
+
+		expect(screen.getByAltText('Product').getAttribute('src')).toBe(
+			'data:image/webp;base64,UklGRg==',
+		)
+	})
+
+	it('should load eager images directly', () => {
+		render(
+			<OptimizedImage
+				image={image}
+				alt="Product"
+				loading="eager"
+				placeholder={{
+					type: 'blurhash',
+					hash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+				}}
+			/>,
+		)
+
+		expect(screen.getByAltText('Product').getAttribute('src')).toBe(
+			'/product.webp',
+		)
+	})
+})
+
+describe('OptimizedPicture', () => {
+	const jpeg = (width: number): OptimizedImageType => ({
+		src: `/hero-${width}.jpeg`,
+		width,
+		height: width / 2,
+		format: 'jpeg',
+	})
+
+	const sourcesOf = (container: HTMLElement) =>
+		Array.from(container.querySelectorAll('source'), source => ({
+			media: source.getAttribute('media'),
+			type: source.getAttribute('type'),
+			srcSet: source.getAttribute('srcset'),
+		}))
+
+	it('should emit AVIF, WebP and JPEG sources for one set of widths', () => {
+		const { container } = render(
+			<OptimizedPicture
+				fallback={[jpeg(640), jpeg(1280)]}
+				loader={({ width, format }) => `/hero-${width}.${format}`}
+				sizes="50vw"
+				alt="Hero"
+			/>,
+		)
+
+		expect(sourcesOf(container)).toEqual([
+			{
+				media: null,
+				type: 'image/avif',
+				srcSet: '/hero-640.avif 640w, /hero-1280.avif 1280w',
+			},
+			{
+				media: null,
+				type: 'image/webp',
+				srcSet: '/hero-640.webp 640w, /hero-1280.webp 1280w',
+			},
+			{
+				media: null,
+				type: 'image/jpeg',
+				srcSet: '/hero-640.jpeg 640w, /hero-1280.jpeg 1280w',
+			},
+		])
+		expect(container.querySelector('source')?.getAttribute('sizes')).toBe(
+			'50vw',
+		)
+	})
+
+	it('should give the fallback image its own srcset and sizes', () => {
+		render(
+			<OptimizedPicture
+				fallback={jpeg(640)}
+				loader={({ width, format }) => `/hero-${width}.${format}`}
+				widths={[320, 640]}
+				formats={['webp']}
+				sizes="50vw"
+				alt="Hero"
+			/>,
+		)
+
+		const img = screen.getByAltText('Hero')
+		expect(img.getAttribute('src')).toBe('/hero-640.jpeg')
+		expect(img.getAttribute('srcset')).toBe(
+			'/hero-320.jpeg 320w, /hero-640.jpeg 640w',
+		)
+		expect(img.getAttribute('sizes')).toBe('50vw')
+	})
+
+	it('should use each art direction image format as source type', () => {
+		const { container } = render(
+			<OptimizedPicture
+				sources={[
+					{
+						media: '(max-width: 640px)',
+						images: [
+							{ ...jpeg(320), src: '/m.jpg', format: 'jpg' },
+							{ ...jpeg(320), src: '/m.avif', format: 'avif' },
+						],
+					},
+				]}
+				fallback={jpeg(1280)}
+				alt="Hero"
+			/>,
+		)
+
+		expect(sourcesOf(container)).toEqual([
+			{
+				media: '(max-width: 640px)',
+				type: 'image/avif',
+				srcSet: '/m.avif 320w',
+			},
+			{
+				media: '(max-width: 640px)',
+				type: 'image/jpeg',
+				srcSet: '/m.jpg 320w',
+			},
+		])
+		expect(screen.getByAltText('Hero').getAttribute('srcset')).toBeNull()
+	})
+})
@@ -4,9 +4,20 @@
  */
 
 import type React from 'react'
-
-import type { OptimizedImage as OptimizedImageType } from '../types.js'
-import { COMMON_SIZES } from '../utils/index.js'
+import { useMemo } from 'react'
+
+import type {
+	ImageFormat,
+	ImagePlaceholder,
+	OptimizedImage as OptimizedImageType,
+} from '../types.js'
+import {
+	buildFormatSources,
+	COMMON_SIZES,
+	DEFAULT_SOURCE_FORMATS,
+	generateSrcSet,
+	placeholderToDataURI,
+} from '../utils/index.js'
 import { useLazyImage } from './useLazyImage.js'
 import { useOptimizedImage } from './useOptimizedImage.js'
 
@@ -32,6 +43,9 @@ export interface OptimizedImageProps {
 	/** LQIP placeholder for blur effect */
 	lqip?: string
 
+	/** BlurHash or ThumbHash placeholder, used when no lqip is given */
+	placeholder?: ImagePlaceholder
+
 	/** CSS class name */
 	className?: string
 
@@ -60,6 +74,12 @@ export interface OptimizedImageProps {
  *   loading="lazy"
  *   lqip="/product-lqip.jpg"
  * />
+ *
+ * <OptimizedImage
+ *   image={productImage}
+ *   alt="Product photo"
+ *   placeholder={{ type: 'thumbhash', hash: product.thumbhash }}
+ * />
  * ```
  */
 export function OptimizedImage({
@@ -69,36 +89,52 @@ export function OptimizedImage({
 	loading = 'lazy',
 	fetchPriority,
 	lqip,
+	placeholder,
 	className,
 	style,
 	onClick,
 	onKeyDown,
 	imgProps,
 }: OptimizedImageProps): React.ReactElement {
+	// Decode hash placeholders to a data URI shown like an LQIP
+	// Keyed on the values, placeholders are usually inline objects
+	const placeholderKey = placeholder && JSON.stringify(placeholder)
+	const placeholderSrc = useMemo(
+		() =>
+			lqip ||
+			(placeholderKey &&
+				placeholderToDataURI(
+					JSON.parse(placeholderKey) as ImagePlaceholder,
+				)),
+		[lqip, placeholderKey],
+	)
+
 	// Use optimized image hook for srcset generation
 	const optimized = useOptimizedImage(image, {
 		sizes,
 		loading,
 		...(fetchPriority && { fetchPriority }),
-		...(lqip && { lqip }),
+		...(placeholderSrc && { lqip: placeholderSrc }),
 	})
 
 	// Use lazy loading if enabled and placeholder provided
 	const lazy = useLazyImage(optimized.src, {
-		...(lqip && { placeholder: lqip }),
+		...(placeholderSrc && { placeholder: placeholderSrc }),
 		rootMargin: '50px',
 	})
 
+	const isLazy = loading === 'lazy' && Boolean(placeholderSrc)
+
 	// Combine styles
 	const combinedStyle: React.CSSProperties = {
 		...style,
-		...(loading === 'lazy' && lqip ? lazy.style : {}),
+		...(isLazy ? lazy.style : {}),
 	}
 
 	return (
 		<img
-			ref={loading === 'lazy' && lqip ? lazy.ref : undefined}
-			src={loading === 'lazy' && lqip ? lazy.src : optimized.src}
+			ref={isLazy ? lazy.ref : undefined}
+			src={isLazy ? lazy.src : optimized.src}
 			srcSet={optimized.srcSet}
 			sizes={optimized.sizes}
 			alt={alt}
@@ -117,12 +153,29 @@ export function OptimizedImage({
 }
 
 /**
- * Picture component for art direction
- * Different images/crops for different screen sizes
+ * Builds the URL of an image at a width and format, e.g. for a CDN
+ */
+export type PictureSourceLoader = (params: {
+	width: number
+	format: ImageFormat
+}) => string
+
+/**
+ * Picture component with format fallbacks and art direction
+ * Emits one source per format (AVIF, then WebP, then JPEG by default) so
+ * browsers pick the first format they support, and different images/crops
+ * for different screen sizes
  *
  * @example
  * ```tsx
  * <OptimizedPicture
+ *   fallback={jpegImages}
+ *   loader={({ width, format }) => `/img/hero-${width}.${format}`}
+ *   sizes={COMMON_SIZES.hero}
+ *   alt="Hero image"
+ * />
+ *
+ * <OptimizedPicture
  *   sources={[
  *     { media: '(max-width: 640px)', images: mobileImages },
  *     { media: '(max-width: 1024px)', images: tabletImages }
@@ -133,14 +186,29 @@ export function OptimizedImage({
  * ```
  */
 export interface OptimizedPictureProps {
-	/** Responsive image variants */
-	sources: Array<{
+	/**
+	 * Art direction variants, with one source per media query and format
+	 * of its images
+	 */
+	sources?: Array<{
 		media: string
 		images: OptimizedImageType[]
 	}>
 
-	/** Fallback image */
-	fallback: OptimizedImageType
+	/** Fallback image, or responsive images for the `<img>` srcset */
+	fallback: OptimizedImageType | OptimizedImageType[]
+
+	/** Builds the URLs of format sources */
+	loader?: PictureSourceLoader
+
+	/** Widths of format sources (default: widths of the fallback images) */
+	widths?: number[]
+
+	/** Source formats, most efficient first (default: AVIF, WebP, JPEG) */
+	formats?: ImageFormat[]
+
+	/** Responsive sizes (use COMMON_SIZES presets) */
+	sizes?: string
 
 	/** Alt text (required for accessibility) */
 	alt: string
@@ -153,33 +221,78 @@ export interface OptimizedPictureProps {
 }
 
 export function OptimizedPicture({
-	sources,
+	sources = [],
 	fallback,
+	loader,
+	widths,
+	formats = DEFAULT_SOURCE_FORMATS,
+	sizes = COMMON_SIZES.fullWidth,
 	alt,
 	className,
 	style,
 }: OptimizedPictureProps): React.ReactElement {
+	const fallbackImages = Array.isArray(fallback) ? fallback : [fallback]
+	const primaryImage = fallbackImages[0]
+
+	if (!primaryImage) {
+		throw new Error('At least one fallback image is required')
+	}
+
+	// Same widths in every format, from the loader
+	const sourceWidths = widths ?? fallbackImages.map(img => img.width)
+	const loadImages = (format: ImageFormat): OptimizedImageType[] =>
+		loader
+			? sourceWidths.map(width => ({
+					src: loader({ width, format }),
+					width,
+					height: primaryImage.width
+						? Math.round(
+								(primaryImage.height * width) /
+									primaryImage.width,
+							)
+						: 0,
+					format,
+				}))
+			: []
+
+	const formatSources = buildFormatSources(
+		formats.flatMap(loadImages),
+		formats,
+	)
+
+	// The <img> gets its own srcset for browsers without <picture> formats
+	const imgImages =
+		fallbackImages.length > 1
+			? fallbackImages
+			: loadImages(primaryImage.format)
+	const imgSrcSet =
+		imgImages.length > 0 ? generateSrcSet(imgImages) : undefined
+
 	return (
 		<picture className={className} style={style}>
-			{sources.map(source => (
-				<source
-					key={source.media}
-					media={source.media}
-					srcSet={source.images
-						.map(img => `${img.src} ${img.width}w`)
-						.join(', ')}
-					type={
-						source.images[0]
-							? `image/${source.images[0].format}`
-							: undefined
-					}
-				/>
+			{sources.flatMap(source =>
+				buildFormatSources(source.images, formats).map(
+					({ type, srcSet }) => (
+						<source
+							key={`${source.media} ${type}`}
+							media={source.media}
+							srcSet={srcSet}
+							sizes={sizes}
+							type={type}
+						/>
+					),
+				),
+			)}
+			{formatSources.map(({ type, srcSet }) => (
+				<source key={type} srcSet={srcSet} sizes={sizes} type={type} />
 			))}
 			<img
-				src={fallback.src}
+				src={primaryImage.src}
+				srcSet={imgSrcSet}
+				sizes={imgSrcSet ? sizes : undefined}
 				alt={alt}
-				width={fallback.width}
-				height={fallback.height}
+				width={primaryImage.width}
+				height={primaryImage.height}
 			/>
 		</picture>
 	)
@@ -9,6 +9,7 @@ export {
 	type OptimizedImageProps,
 	OptimizedPicture,
 	type OptimizedPictureProps,
+	type PictureSourceLoader,
 } from './OptimizedImage.js'
 export * from './useLazyImage.js'
 export * from './useOptimizedImage.js'
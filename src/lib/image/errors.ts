@@ -58,6 +58,16 @@ export class ImageConfigError extends ImageOptimizationError {
 	}
 }
 
+/**
+ * Timeout errors (operation exceeded its time budget)
+ */
+export class ImageTimeoutError extends ImageOptimizationError {
+	constructor(message: string, context?: Record<string, unknown>) {
+		super(message, 'TIMEOUT_ERROR', context)
+		this.name = 'ImageTimeoutError'
+	}
+}
+
 /**
  * Type guard to check if error is an ImageOptimizationError
  */
@@ -84,3 +94,12 @@ export function isImageValidationError(
 ): error is ImageValidationError {
 	return error instanceof ImageValidationError
 }
+
+/**
+ * Type guard to check if error is an ImageTimeoutError
+ */
+export function isImageTimeoutError(
+	error: unknown,
+): error is ImageTimeoutError {
+	return error instanceof ImageTimeoutError
+}
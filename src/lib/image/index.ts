@@ -17,15 +17,29 @@ export type {
 	BatchOptimizationResult,
 	CacheStrategyConfig,
 	CompressionProfile,
+	DetectedImageFormat,
+	FocalPoint,
+	ImageBatchOptions,
+	ImageFit,
 	ImageFormat,
+	ImageHeaderMetadata,
 	ImageOptimizationOptions,
+	ImageOverlayWatermark,
+	ImagePlaceholder,
+	ImagePosition,
 	ImageQualityConfig,
 	ImageSource,
+	ImageTransform,
+	ImageTransformType,
 	ImageValidationConfig,
 	ImageValidationResult,
+	ImageWatermark,
 	LQIPConfig,
 	OptimizedImage as OptimizedImageType,
 	ResponsiveImageConfig,
+	TextWatermark,
+	WatermarkPlacement,
+	WatermarkPosition,
 } from './types.js'
 // Core utilities
 export * from './utils/index.js'
@@ -8,6 +8,37 @@
  */
 export type ImageFormat = 'svg' | 'png' | 'webp' | 'avif' | 'jpeg' | 'jpg'
 
+/**
+ * Image format identified from file content
+ * Includes formats that are recognized but not produced by the library
+ */
+export type DetectedImageFormat =
+	| Exclude<ImageFormat, 'jpg'>
+	| 'gif'
+	| 'heif'
+	| 'jxl'
+
+/**
+ * Image information read from file headers, without decoding pixels
+ */
+export interface ImageHeaderMetadata {
+	format: DetectedImageFormat
+	/** Width in pixels as stored, before orientation is applied */
+	width: number
+	/** Height in pixels as stored, before orientation is applied */
+	height: number
+	/** EXIF orientation, from 1 (upright) to 8 */
+	orientation: number
+	/** Bits per channel (palette images report 8) */
+	bitDepth: number
+	/** Whether the image has an alpha channel or transparent color */
+	hasAlpha: boolean
+	/** Whether the image has more than one frame */
+	isAnimated: boolean
+	/** Whether an ICC color profile is embedded */
+	hasICCProfile: boolean
+}
+
 /**
  * Security limits to prevent DoS attacks
  * Protects against memory exhaustion and resource abuse
@@ -97,6 +128,148 @@ export interface LQIPConfig {
 	format: 'webp' | 'jpeg'
 }
 
+/**
+ * Compact hash placeholder, decoded on the client
+ */
+export type ImagePlaceholder =
+	| {
+			type: 'blurhash'
+			/** BlurHash string */
+			hash: string
+			/** Decoded width in pixels, at most 64 (default: 32) */
+			width?: number
+			/** Decoded height in pixels, at most 64 (default: 32) */
+			height?: number
+			/** Contrast boost (default: 1) */
+			punch?: number
+	  }
+	| {
+			type: 'thumbhash'
+			/** Base64-encoded ThumbHash */
+			hash: string
+	  }
+
+/**
+ * How an image is resized into the requested width and height
+ * - cover: fill the box, cropping the overflow
+ * - contain: fit within the box, letterboxing the rest
+ * - fill: stretch to the box, ignoring the aspect ratio
+ * - inside: fit within the box
+ * - outside: cover the box without cropping
+ */
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside'
+
+/**
+ * Part of the image kept when cropping (gravity)
+ * `entropy` and `attention` use the provider's content-aware cropping
+ */
+export type ImagePosition =
+	| 'center'
+	| 'top'
+	| 'right'
+	| 'bottom'
+	| 'left'
+	| 'top-left'
+	| 'top-right'
+	| 'bottom-left'
+	| 'bottom-right'
+	| 'entropy'
+	| 'attention'
+
+/**
+ * Point kept in view when cropping, from 0 to 1 from the top-left corner
+ */
+export interface FocalPoint {
+	x: number
+	y: number
+}
+
+/**
+ * Image transformation, a plain object so transformation lists can be
+ * stored and sent as JSON
+ * - autoOrient: apply the EXIF orientation
+ * - rotate: rotate clockwise
+ * - flip: mirror horizontally, vertically or both
+ * - blur: Gaussian blur with a radius in pixels (1-250)
+ * - sharpen: sharpen with a strength from 0 to 10
+ * - grayscale: remove colors
+ * - trim: remove borders of the top-left pixel color, within a color
+ *   distance threshold (0-255, default: 10)
+ * - background: color flattening transparency, as #rgb or #rrggbb
+ * - pad: add borders in pixels, in the background color
+ */
+export type ImageTransform =
+	| { type: 'autoOrient' }
+	| { type: 'rotate'; angle: 90 | 180 | 270 }
+	| { type: 'flip'; direction: 'horizontal' | 'vertical' | 'both' }
+	| { type: 'blur'; radius: number }
+	| { type: 'sharpen'; amount: number }
+	| { type: 'grayscale' }
+	| { type: 'trim'; threshold?: number }
+	| { type: 'background'; color: string }
+	| {
+			type: 'pad'
+			top: number
+			right: number
+			bottom: number
+			left: number
+	  }
+
+/**
+ * Image transformation name
+ */
+export type ImageTransformType = ImageTransform['type']
+
+/**
+ * Corner, edge or center a watermark is placed at
+ */
+export type WatermarkPosition = Exclude<ImagePosition, 'entropy' | 'attention'>
+
+/**
+ * Watermark placement and blending
+ */
+export interface WatermarkPlacement {
+	/** Where the watermark is placed (default: 'bottom-right') */
+	position?: WatermarkPosition
+	/** Distance from the image edges in pixels (default: 10) */
+	margin?: number
+	/** Opacity from 0 to 1 (default: 1) */
+	opacity?: number
+	/** Repeat the watermark over the whole image, ignoring position and margin */
+	tile?: boolean
+}
+
+/**
+ * Image overlay watermark
+ */
+export interface ImageOverlayWatermark extends WatermarkPlacement {
+	type: 'image'
+	/** Relative path of the watermark image, checked like image sources */
+	src: string
+	/** Watermark width in pixels (default: its own width) */
+	width?: number
+}
+
+/**
+ * Text watermark
+ */
+export interface TextWatermark extends WatermarkPlacement {
+	type: 'text'
+	text: string
+	/** Font family (default: the provider's, Arial on Cloudinary) */
+	font?: string
+	/** Font size in pixels (default: 24) */
+	size?: number
+	/** Text color as #rgb or #rrggbb (default: '#ffffff') */
+	color?: string
+}
+
+/**
+ * Watermark drawn over the optimized image, a plain object so it can be
+ * stored and sent as JSON
+ */
+export type ImageWatermark = ImageOverlayWatermark | TextWatermark
+
 /**
  * Image optimization options
  */
@@ -115,6 +288,21 @@ export interface ImageOptimizationOptions {
 	lqip?: Partial<LQIPConfig>
 	/** Compression profile */
 	profile?: CompressionProfile
+	/** Resize mode when both width and height are given */
+	fit?: ImageFit
+	/** Crop position (gravity) when fit is 'cover' */
+	position?: ImagePosition
+	/** Focal point when fit is 'cover', takes precedence over position */
+	focalPoint?: FocalPoint
+	/** Transformations, in order where the provider allows it */
+	transforms?: ImageTransform[]
+	/** Watermark drawn over the image, after resizing and transformations */
+	watermark?: ImageWatermark
+	/**
+	 * Abort the optimization; it rejects with the signal's abort reason
+	 * Adapters check it between processing steps
+	 */
+	signal?: AbortSignal
 }
 
 /**
@@ -164,6 +352,16 @@ export type ImageSource =
 	| Buffer
 	| { src: string; format?: ImageFormat }
 
+/**
+ * Cancellation options for batch operations
+ */
+export interface ImageBatchOptions {
+	/** Abort the batch; it rejects with the signal's abort reason */
+	signal?: AbortSignal
+	/** Maximum duration of the whole batch in milliseconds */
+	timeout?: number
+}
+
 /**
  * Batch optimization result
  */
@@ -0,0 +1,134 @@
+/**
+ * Tests for BlurHash encoding and decoding
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ImageValidationError } from '../errors.js'
+import { decodeBlurHash, encodeBlurHash, isValidBlurHash } from './blurhash.js'
+
+const createPixels = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => [number, number, number],
+): Uint8ClampedArray => {
+	const pixels = new Uint8ClampedArray(width * height * 4)
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			pixels.set([...color(x, y), 255], (y * width + x) * 4)
+		}
+	}
+	return pixels
+}
+
+describe('BlurHash', () => {
+	describe('encodeBlurHash', () => {
+		it('should encode the component count in the hash length', () => {
+			const pixels = createPixels(16, 16, x => [x * 16, 0, 0])
+
+			expect(encodeBlurHash(pixels, 16, 16)).toHaveLength(28)
+			expect(encodeBlurHash(pixels, 16, 16, 1, 1)).toHaveLength(6)
+			expect(encodeBlurHash(pixels, 16, 16, 9, 9)).toHaveLength(166)
+		})
+
+		it('should produce valid hashes', () => {
+			const pixels = createPixels(20, 10, (x, y) => [x * 12, y * 25, 128])
+
+			expect(isValidBlurHash(encodeBlurHash(pixels, 20, 10))).toBe(true)
+		})
+
+		it('should encode solid colors as their DC component', () => {
+			const hash = encodeBlurHash(
+				createPixels(8, 8, () => [255, 0, 0]),
+				8,
+				8,
+				1,
+				1,
+			)
+
+			expect(hash).toBe('00TI:j')
+		})
+
+		it('should reject pixel data that does not match the dimensions', () => {
+			expect(() => encodeBlurHash(new Uint8Array(10), 2, 2)).toThrow(
+				ImageValidationError,
+			)
+		})
+
+		it('should reject invalid component counts', () => {
+			const pixels = createPixels(4, 4, () => [0, 0, 0])
+
+			expect(() => encodeBlurHash(pixels, 4, 4, 0, 3)).toThrow(
+				ImageValidationError,
+			)
+			expect(() => encodeBlurHash(pixels, 4, 4, 4, 10)).toThrow(
+				ImageValidationError,
+			)
+		})
+	})
+
+	describe('decodeBlurHash', () => {
+		it('should decode to opaque RGBA pixels of the requested size', () => {
+			const image = decodeBlurHash('LEHV6nWB2yk8pyo0adR*.7kCMdnj', 32, 24)
+
+			expect(image.width).toBe(32)
+			expect(image.height).toBe(24)
+			expect(image.pixels).toHaveLength(32 * 24 * 4)
+			expect(image.pixels[3]).toBe(255)
+		})
+
+		it('should reject sizes larger than 64x64', () => {
+			expect(() =>
+				decodeBlurHash('LEHV6nWB2yk8pyo0adR*.7kCMdnj', 64, 64),
+			).not.toThrow()
+			expect(() =>
+				decodeBlurHash('LEHV6nWB2yk8pyo0adR*.7kCMdnj', 65, 10),
+			).toThrow(ImageValidationError)
+			expect(() =>
+				decodeBlurHash('LEHV6nWB2yk8pyo0adR*.7kCMdnj', 10, 100_000),
+			).toThrow(ImageValidationError)
+		})
+
+		it('should round-trip solid colors', () => {
+			const hash = encodeBlurHash(
+				createPixels(8, 8, () => [40, 120, 200]),
+				8,
+				8,
+				1,
+				1,
+			)
+			const { pixels } = decodeBlurHash(hash, 4, 4)
+
+			expect(Array.from(pixels.slice(0, 4))).toEqual([40, 120, 200, 255])
+		})
+
+		it('should keep gradients in the right direction', () => {
+			const hash = encodeBlurHash(
+				createPixels(32, 8, x => [x * 8, x * 8, x * 8]),
+				32,
+				8,
+			)
+			const { pixels } = decodeBlurHash(hash, 32, 8)
+
+			expect(pixels[0]).toBeLessThan(64)
+			expect(pixels[31 * 4]).toBeGreaterThan(192)
+		})
+
+		it('should reject malformed hashes', () => {
+			expect(() => decodeBlurHash('LEHV6nWB2yk8', 32, 32)).toThrow(
+				ImageValidationError,
+			)
+			expect(() =>
+				decodeBlurHash('LEHV6nWB2yk8pyo0adR*.7kCMdn"', 32, 32),
+			).toThrow(ImageValidationError)
+		})
+	})
+
+	describe('isValidBlurHash', () => {
+		it('should check the alphabet and length', () => {
+			expect(isValidBlurHash('LEHV6nWB2yk8pyo0adR*.7kCMdnj')).toBe(true)
+			expect(isValidBlurHash('LEHV6nWB2yk8pyo0adR*.7kCMdn')).toBe(false)
+			expect(isValidBlurHash('')).toBe(false)
+		})
+	})
+})
@@ -0,0 +1,284 @@
+/**
+ * BlurHash placeholder encoding and decoding
+ * Compact strings describing an image as a few DCT components
+ * @see https://github.com/woltapp/blurhash/blob/master/Algorithm.md
+ */
+
+import { ImageValidationError } from '../errors.js'
+import type { RGBAImage } from './rgba.js'
+import { validateRGBA, validateRGBADimensions } from './rgba.js'
+
+/**
+ * Base 83 alphabet used by BlurHash
+ */
+const BASE83 =
+	'0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~'
+
+/**
+ * Largest number of components per axis
+ */
+const MAX_COMPONENTS = 9
+
+/**
+ * Largest decoded dimension
+ * Placeholders are scaled up by the browser, and the size often comes
+ * from props, so it must not allocate unbounded pixel data
+ */
+const MAX_BLURHASH_SIZE = 64
+
+/**
+ * Linear RGB color
+ */
+type LinearColor = [number, number, number]
+
+function encodeBase83(value: number, length: number): string {
+	let result = ''
+	for (let i = 1; i <= length; i++) {
+		const digit = Math.floor(value / 83 ** (length - i)) % 83
+		result += BASE83[digit]
+	}
+	return result
+}
+
+function decodeBase83(value: string): number {
+	let result = 0
+	for (const char of value) {
+		const digit = BASE83.indexOf(char)
+		if (digit === -1) {
+			throw new ImageValidationError(
+				`Invalid BlurHash character "${char}"`,
+				{ reason: 'invalid_placeholder' },
+			)
+		}
+		result = result * 83 + digit
+	}
+	return result
+}
+
+function sRGBToLinear(value: number): number {
+	const v = value / 255
+	return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4
+}
+
+function linearToSRGB(value: number): number {
+	const v = Math.max(0, Math.min(1, value))
+	return v <= 0.0031308
+		? Math.round(v * 12.92 * 255)
+		: Math.round((1.055 * v ** (1 / 2.4) - 0.055) * 255)
+}
+
+function signPow(value: number, exponent: number): number {
+	return Math.sign(value) * Math.abs(value) ** exponent
+}
+
+/**
+ * Encode RGBA pixel data as a BlurHash string
+ * More components keep more detail in a longer hash
+ *
+ * @param componentsX - Horizontal components, 1-9 (default: 4)
+ * @param componentsY - Vertical components, 1-9 (default: 3)
+ * @throws {ImageValidationError} If the input or component counts are invalid
+ *
+ * @example
+ * ```typescript
+ * const { data, info } = await sharp(file)
+ *   .resize(32, 32, { fit: 'inside' })
+ *   .ensureAlpha()
+ *   .raw()
+ *   .toBuffer({ resolveWithObject: true })
+ * const hash = encodeBlurHash(data, info.width, info.height)
+ * // 'LEHV6nWB2yk8pyo0adR*.7kCMdnj'
+ * ```
+ */
+export function encodeBlurHash(
+	pixels: ArrayLike<number>,
+	width: number,
+	height: number,
+	componentsX = 4,
+	componentsY = 3,
+): string {
+	validateRGBA(pixels, width, height)
+	for (const components of [componentsX, componentsY]) {
+		if (
+			!Number.isInteger(components) ||
+			components < 1 ||
+			components > MAX_COMPONENTS
+		) {
+			throw new ImageValidationError(
+				`BlurHash components must be integers from 1 to ${MAX_COMPONENTS}`,
+				{ componentsX, componentsY, reason: 'invalid_components' },
+			)
+		}
+	}
+
+	// Convert once, the DCT reads every pixel for each component
+	const linear = new Float64Array(width * height * 3)
+	for (let i = 0; i < width * height; i++) {
+		linear[i * 3] = sRGBToLinear(pixels[i * 4] ?? 0)
+		linear[i * 3 + 1] = sRGBToLinear(pixels[i * 4 + 1] ?? 0)
+		linear[i * 3 + 2] = sRGBToLinear(pixels[i * 4 + 2] ?? 0)
+	}
+
+	const factors: LinearColor[] = []
+	for (let j = 0; j < componentsY; j++) {
+		for (let i = 0; i < componentsX; i++) {
+			const normalisation = i === 0 && j === 0 ? 1 : 2
+			const factor: LinearColor = [0, 0, 0]
+			for (let y = 0; y < height; y++) {
+				const basisY = Math.cos((Math.PI * j * y) / height)
+				for (let x = 0; x < width; x++) {
+					const basis = basisY * Math.cos((Math.PI * i * x) / width)
+					const index = (y * width + x) * 3
+					factor[0] += basis * (linear[index] ?? 0)
+					factor[1] += basis * (linear[index + 1] ?? 0)
+					factor[2] += basis * (linear[index + 2] ?? 0)
+				}
+			}
+			const scale = normalisation / (width * height)
+			factors.push([
+				factor[0] * scale,
+				factor[1] * scale,
+				factor[2] * scale,
+			])
+		}
+	}
+
+	const [dc = [0, 0, 0], ...ac] = factors
+	let hash = encodeBase83(componentsX - 1 + (componentsY - 1) * 9, 1)
+
+	let maximumValue = 1
+	if (ac.length > 0) {
+		const actualMaximum = Math.max(...ac.flat().map(Math.abs))
+		const quantisedMaximum = Math.max(
+			0,
+			Math.min(82, Math.floor(actualMaximum * 166 - 0.5)),
+		)
+		maximumValue = (quantisedMaximum + 1) / 166
+		hash += encodeBase83(quantisedMaximum, 1)
+	} else {
+		hash += encodeBase83(0, 1)
+	}
+
+	hash += encodeBase83(
+		(linearToSRGB(dc[0]) << 16) +
+			(linearToSRGB(dc[1]) << 8) +
+			linearToSRGB(dc[2]),
+		4,
+	)
+
+	for (const color of ac) {
+		const [r, g, b] = color.map(value =>
+			Math.max(
+				0,
+				Math.min(
+					18,
+					Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5),
+				),
+			),
+		) as LinearColor
+		hash += encodeBase83(r * 19 * 19 + g * 19 + b, 2)
+	}
+
+	return hash
+}
+
+/**
+ * Check whether a string is a well-formed BlurHash
+ */
+export function isValidBlurHash(hash: string): boolean {
+	if (hash.length < 6) return false
+
+	try {
+		const sizeFlag = decodeBase83(hash.charAt(0))
+		const componentsX = (sizeFlag % 9) + 1
+		const componentsY = Math.floor(sizeFlag / 9) + 1
+		decodeBase83(hash)
+		return hash.length === 4 + 2 * componentsX * componentsY
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Decode a BlurHash string to RGBA pixels
+ * The result is smooth at any size, small sizes (e.g. 32x32) are enough
+ * as browsers scale them up
+ *
+ * @param punch - Contrast boost of the varying components (default: 1)
+ * @throws {ImageValidationError} If the hash or dimensions are invalid,
+ * or larger than 64x64 (reason 'dimensions_exceeded')
+ */
+export function decodeBlurHash(
+	hash: string,
+	width: number,
+	height: number,
+	punch = 1,
+): RGBAImage {
+	if (!isValidBlurHash(hash)) {
+		throw new ImageValidationError('Invalid BlurHash', {
+			hash,
+			reason: 'invalid_placeholder',
+		})
+	}
+	validateRGBADimensions(width, height)
+	if (width > MAX_BLURHASH_SIZE || height > MAX_BLURHASH_SIZE) {
+		throw new ImageValidationError(
+			`BlurHash output ${width}x${height} exceeds ${MAX_BLURHASH_SIZE}x${MAX_BLURHASH_SIZE}`,
+			{ width, height, reason: 'dimensions_exceeded' },
+		)
+	}
+
+	const sizeFlag = decodeBase83(hash.charAt(0))
+	const componentsX = (sizeFlag % 9) + 1
+	const componentsY = Math.floor(sizeFlag / 9) + 1
+	const maximumValue = ((decodeBase83(hash.charAt(1)) + 1) / 166) * punch
+
+	const dc = decodeBase83(hash.slice(2, 6))
+	const colors: LinearColor[] = [
+		[
+			sRGBToLinear(dc >> 16),
+			sRGBToLinear((dc >> 8) & 255),
+			sRGBToLinear(dc & 255),
+		],
+	]
+	for (let i = 1; i < componentsX * componentsY; i++) {
+		const value = decodeBase83(hash.slice(4 + i * 2, 6 + i * 2))
+		colors.push(
+			[
+				Math.floor(value / 361),
+				Math.floor(value / 19) % 19,
+				value % 19,
+			].map(
+				quantised => signPow((quantised - 9) / 9, 2) * maximumValue,
+			) as LinearColor,
+		)
+	}
+
+	const pixels = new Uint8ClampedArray(width * height * 4)
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let r = 0
+			let g = 0
+			let b = 0
+			for (let j = 0; j < componentsY; j++) {
+				const basisY = Math.cos((Math.PI * y * j) / height)
+				for (let i = 0; i < componentsX; i++) {
+					const basis = basisY * Math.cos((Math.PI * x * i) / width)
+					const color = colors[i + j * componentsX]
+					if (!color) continue
+					r += color[0] * basis
+					g += color[1] * basis
+					b += color[2] * basis
+				}
+			}
+
+			const index = (y * width + x) * 4
+			pixels[index] = linearToSRGB(r)
+			pixels[index + 1] = linearToSRGB(g)
+			pixels[index + 2] = linearToSRGB(b)
+			pixels[index + 3] = 255
+		}
+	}
+
+	return { width, height, pixels }
+}
@@ -0,0 +1,108 @@
+/**
+ * Tests for color contrast utilities
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+	getAccessibleTextColor,
+	getContrastRatio,
+	getRelativeLuminance,
+	normalizeHexColor,
+	rgbToHex,
+} from './color.js'
+
+const BLACK = { r: 0, g: 0, b: 0 }
+const WHITE = { r: 255, g: 255, b: 255 }
+
+describe('Color utilities', () => {
+	describe('rgbToHex', () => {
+		it('should format padded lowercase hex', () => {
+			expect(rgbToHex({ r: 255, g: 8, b: 170 })).toBe('#ff08aa')
+		})
+
+		it('should round and clamp channels', () => {
+			expect(rgbToHex({ r: 300, g: -5, b: 15.6 })).toBe('#ff0010')
+		})
+	})
+
+	describe('normalizeHexColor', () => {
+		it('should expand and lowercase hex colors without the #', () => {
+			expect(normalizeHexColor('#FfF')).toBe('ffffff')
+			expect(normalizeHexColor('#0A0b0C')).toBe('0a0b0c')
+		})
+
+		it('should return null for other colors', () => {
+			for (const color of ['fff', '#ffff', '#ff000080', 'red', '']) {
+				expect(normalizeHexColor(color)).toBeNull()
+			}
+		})
+	})
+
+	describe('getRelativeLuminance', () => {
+		it('should range from 0 for black to 1 for white', () => {
+			expect(getRelativeLuminance(BLACK)).toBe(0)
+			expect(getRelativeLuminance(WHITE)).toBeCloseTo(1)
+		})
+
+		it('should weight green above red and blue', () => {
+			const red = getRelativeLuminance({ r: 255, g: 0, b: 0 })
+			const green = getRelativeLuminance({ r: 0, g: 255, b: 0 })
+			const blue = getRelativeLuminance({ r: 0, g: 0, b: 255 })
+
+			expect(green).toBeGreaterThan(red)
+			expect(red).toBeGreaterThan(blue)
+		})
+	})
+
+	describe('getContrastRatio', () => {
+		it('should be 21 for black on white', () => {
+			expect(getContrastRatio(BLACK, WHITE)).toBeCloseTo(21)
+		})
+
+		it('should be symmetric and 1 for identical colors', () => {
+			const gray = { r: 118, g: 118, b: 118 }
+
+			expect(getContrastRatio(gray, WHITE)).toBeCloseTo(
+				getContrastRatio(WHITE, gray),
+			)
+			expect(getContrastRatio(gray, gray)).toBe(1)
+		})
+
+		it('should match the WCAG AA threshold for #767676 on white', () => {
+			expect(
+				getContrastRatio({ r: 118, g: 118, b: 118 }, WHITE),
+			).toBeCloseTo(4.54, 2)
+		})
+	})
+
+	describe('getAccessibleTextColor', () => {
+		it('should pick white over dark backgrounds', () => {
+			expect(
+				getAccessibleTextColor({ r: 20, g: 30, b: 90 }),
+			).toMatchObject({
+				hex: '#ffffff',
+				isAccessible: true,
+			})
+		})
+
+		it('should pick black over light backgrounds', () => {
+			expect(
+				getAccessibleTextColor({ r: 250, g: 220, b: 90 }),
+			).toMatchObject({ hex: '#000000', isAccessible: true })
+		})
+
+		it('should flag candidates below WCAG AA', () => {
+			const result = getAccessibleTextColor({ r: 128, g: 128, b: 128 }, [
+				{ r: 150, g: 150, b: 150 },
+			])
+
+			expect(result.isAccessible).toBe(false)
+			expect(result.contrast).toBeLessThan(4.5)
+		})
+
+		it('should fall back to white and black without candidates', () => {
+			expect(getAccessibleTextColor(WHITE, []).hex).toBe('#000000')
+		})
+	})
+})
@@ -0,0 +1,139 @@
+/**
+ * Color utilities
+ * WCAG contrast calculations for text over image colors
+ */
+
+/**
+ * 8-bit RGB color
+ */
+export interface RGBColor {
+	r: number
+	g: number
+	b: number
+}
+
+/**
+ * Minimum WCAG 2 contrast ratios for text
+ */
+export const WCAG_CONTRAST = {
+	/** Normal text, level AA */
+	AA: 4.5,
+	/** Large text (18pt, or 14pt bold), level AA */
+	AA_LARGE: 3,
+	/** Normal text, level AAA */
+	AAA: 7,
+	/** Large text, level AAA */
+	AAA_LARGE: 4.5,
+} as const
+
+/**
+ * Default text color candidates: white and black
+ */
+export const DEFAULT_TEXT_COLORS: readonly RGBColor[] = [
+	{ r: 255, g: 255, b: 255 },
+	{ r: 0, g: 0, b: 0 },
+]
+
+/**
+ * Text color picked for a background
+ */
+export interface AccessibleTextColor {
+	color: RGBColor
+	/** Color as #rrggbb */
+	hex: string
+	/** Contrast ratio against the background */
+	contrast: number
+	/** Whether the contrast meets WCAG AA for normal text */
+	isAccessible: boolean
+}
+
+/**
+ * Format a color as a #rrggbb hex string
+ */
+export function rgbToHex({ r, g, b }: RGBColor): string {
+	return `#${[r, g, b]
+		.map(channel =>
+			Math.max(0, Math.min(255, Math.round(channel)))
+				.toString(16)
+				.padStart(2, '0'),
+		)
+		.join('')}`
+}
+
+/**
+ * Normalize a #rgb or #rrggbb color to lowercase rrggbb
+ * Returns null for anything else
+ */
+export function normalizeHexColor(color: string): string | null {
+	const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)
+	if (!match?.[1]) {
+		return null
+	}
+
+	const hex = match[1].toLowerCase()
+	return hex.length === 3
+		? Array.from(hex, digit => digit + digit).join('')
+		: hex
+}
+
+/**
+ * Relative luminance of a color, from 0 (black) to 1 (white)
+ * @see https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+ */
+export function getRelativeLuminance({ r, g, b }: RGBColor): number {
+	const [red = 0, green = 0, blue = 0] = [r, g, b].map(channel => {
+		const value = channel / 255
+		return value <= 0.04045
+			? value / 12.92
+			: ((value + 0.055) / 1.055) ** 2.4
+	})
+	return 0.2126 * red + 0.7152 * green + 0.0722 * blue
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21
+ * @see https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio
+ */
+export function getContrastRatio(first: RGBColor, second: RGBColor): number {
+	const a = getRelativeLuminance(first)
+	const b = getRelativeLuminance(second)
+	return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05)
+}
+
+/**
+ * Pick the most readable text color over a background
+ *
+ * @param candidates - Text colors to choose from (default: white and black)
+ * @returns The candidate with the highest contrast ratio
+ *
+ * @example
+ * ```typescript
+ * const text = getAccessibleTextColor({ r: 30, g: 60, b: 120 })
+ * // { color: { r: 255, g: 255, b: 255 }, hex: '#ffffff', contrast: 10.4, ... }
+ * ```
+ */
+export function getAccessibleTextColor(
+	background: RGBColor,
+	candidates: readonly RGBColor[] = DEFAULT_TEXT_COLORS,
+): AccessibleTextColor {
+	// Contrast ratios start at 1, so the first candidate always wins over this
+	let best: RGBColor = { r: 0, g: 0, b: 0 }
+	let bestContrast = 0
+
+	for (const candidate of candidates.length > 0
+		? candidates
+		: DEFAULT_TEXT_COLORS) {
+		const contrast = getContrastRatio(background, candidate)
+		if (contrast > bestContrast) {
+			best = candidate
+			bestContrast = contrast
+		}
+	}
+
+	return {
+		color: best,
+		hex: rgbToHex(best),
+		contrast: bestContrast,
+		isAccessible: bestContrast >= WCAG_CONTRAST.AA,
+	}
+}
@@ -4,18 +4,55 @@
 
 import { describe, expect, it } from 'vitest'
 
+import { ImageValidationError } from '../errors.js'
 import type { ImageValidationConfig } from '../types.js'
 import {
 	detectImageFormat,
+	getFormatMimeType,
 	getRecommendedFormat,
 	isVectorFormat,
+	negotiateFormat,
+	sniffImageFormat,
 	supportsTransparency,
 	validateImage,
+	validateImageContent,
 	validateImageDimensions,
 	validateImageFormat,
 	validateImageSize,
 } from './format.js'
 
+const bytes = (...parts: Array<string | number[]>): Uint8Array =>
+	Uint8Array.from(
+		parts.flatMap(part =>
+			typeof part === 'string'
+				? Array.from(part, char => char.charCodeAt(0))
+				: part,
+		),
+	)
+
+/**
+ * ISO-BMFF ftyp box with a major brand and compatible brands
+ */
+const ftyp = (major: string, ...compatible: string[]): Uint8Array =>
+	bytes(
+		[0, 0, 0, 16 + compatible.length * 4],
+		'ftyp',
+		major,
+		[0, 0, 0, 0],
+		...compatible,
+	)
+
+const SAMPLES = {
+	png: bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]),
+	jpeg: bytes([0xff, 0xd8, 0xff, 0xe0, 0, 0x10], 'JFIF'),
+	gif: bytes('GIF89a', [1, 0, 1, 0]),
+	webp: bytes('RIFF', [0x24, 0, 0, 0], 'WEBPVP8 '),
+	avif: ftyp('avif', 'mif1', 'miaf'),
+	heif: ftyp('heic', 'mif1', 'heic'),
+	jxl: bytes([0xff, 0x0a, 0xfa]),
+	svg: bytes('<svg xmlns="http://www.w3.org/2000/svg"></svg>'),
+} as const
+
 describe('Format Utilities', () => {
 	describe('detectImageFormat', () => {
 		describe('MIME type detection', () => {
@@ -126,6 +163,14 @@ describe('Format Utilities', () => {
 		})
 	})
 
+	describe('getFormatMimeType', () => {
+		it('should return MIME types for source types', () => {
+			expect(getFormatMimeType('avif')).toBe('image/avif')
+			expect(getFormatMimeType('jpg')).toBe('image/jpeg')
+			expect(getFormatMimeType('svg')).toBe('image/svg+xml')
+		})
+	})
+
 	describe('isVectorFormat', () => {
 		it('should return true for SVG', () => {
 			expect(isVectorFormat('svg')).toBe(true)
@@ -220,6 +265,79 @@ describe('Format Utilities', () => {
 		})
 	})
 
+	describe('negotiateFormat', () => {
+		const CHROME =
+			'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8'
+		const SAFARI_15 =
+			'image/webp,image/png,image/svg+xml,image/*;q=0.8,video/*;q=0.8,*/*;q=0.5'
+
+		it('should pick the best format the browser accepts', () => {
+			expect(negotiateFormat(CHROME)).toEqual({
+				format: 'avif',
+				headers: { Vary: 'Accept' },
+			})
+			expect(negotiateFormat(SAFARI_15).format).toBe('webp')
+		})
+
+		it('should honor q-values', () => {
+			expect(negotiateFormat('image/avif;q=0.5,image/webp').format).toBe(
+				'webp',
+			)
+			expect(
+				negotiateFormat('image/avif;q=0,image/webp;q=0,*/*').format,
+			).toBe('jpeg')
+		})
+
+		it('should not serve AVIF or WebP for wildcards alone', () => {
+			expect(negotiateFormat('*/*').format).toBe('jpeg')
+			expect(negotiateFormat('image/*').format).toBe('jpeg')
+		})
+
+		it('should use the most specific matching range', () => {
+			expect(
+				negotiateFormat('image/*;q=0.1,image/png', ['jpeg', 'png'])
+					.format,
+			).toBe('png')
+			expect(
+				negotiateFormat('image/jpeg;q=0,*/*', ['jpeg', 'png']).format,
+			).toBe('png')
+		})
+
+		it('should apply server preferences', () => {
+			expect(
+				negotiateFormat(CHROME, ['avif', 'webp', 'jpeg'], {
+					webp: 1,
+					avif: 0.5,
+				}).format,
+			).toBe('webp')
+		})
+
+		it('should prefer earlier candidates on ties', () => {
+			expect(negotiateFormat(CHROME, ['png', 'jpeg']).format).toBe('png')
+			expect(negotiateFormat(CHROME, ['jpg', 'png']).format).toBe('jpg')
+		})
+
+		it('should fall back to the last candidate', () => {
+			expect(negotiateFormat(undefined).format).toBe('jpeg')
+			expect(negotiateFormat('text/html', ['webp', 'png']).format).toBe(
+				'png',
+			)
+		})
+
+		it('should only vary on Accept when there is a choice', () => {
+			expect(negotiateFormat(CHROME, ['webp'])).toEqual({
+				format: 'webp',
+				headers: {},
+			})
+		})
+
+		it('should reject empty candidates', () => {
+			expect(() => negotiateFormat(CHROME, [])).toThrow(
+				ImageValidationError,
+			)
+		})
+	})
+
 	describe('validateImageDimensions', () => {
 		const baseConfig: ImageValidationConfig = {
 			maxWidth: 5000,
@@ -457,4 +575,98 @@ describe('Format Utilities', () => {
 			expect(result.valid).toBe(true)
 		})
 	})
+
+	describe('sniffImageFormat', () => {
+		it.each(Object.entries(SAMPLES))('should detect %s', (format, data) => {
+			expect(sniffImageFormat(data)).toBe(format)
+		})
+
+		it('should detect AVIF from compatible brands', () => {
+			expect(sniffImageFormat(ftyp('mif1', 'avif', 'miaf'))).toBe('avif')
+		})
+
+		it('should detect the JPEG XL container', () => {
+			expect(
+				sniffImageFormat(
+					bytes([0, 0, 0, 0x0c], 'JXL ', [0x0d, 0x0a, 0x87, 0x0a]),
+				),
+			).toBe('jxl')
+		})
+
+		it('should detect SVG after an XML prolog', () => {
+			const svg = bytes(
+				[0xef, 0xbb, 0xbf], // UTF-8 byte order mark
+				'<?xml version="1.0"?>\n<!-- logo -->\n',
+				'<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN">\n<svg>',
+			)
+
+			expect(sniffImageFormat(svg)).toBe('svg')
+		})
+
+		it('should not detect HTML as an image', () => {
+			expect(
+				sniffImageFormat(
+					bytes('<!DOCTYPE html><html><svg></svg></html>'),
+				),
+			).toBeNull()
+		})
+
+		it('should not detect other ISO-BMFF files', () => {
+			expect(sniffImageFormat(ftyp('isom', 'mp41'))).toBeNull()
+		})
+
+		it('should return null for empty or short input', () => {
+			expect(sniffImageFormat(new Uint8Array(0))).toBeNull()
+			expect(sniffImageFormat(bytes([0x89, 0x50]))).toBeNull()
+		})
+
+		it('should accept Buffers', () => {
+			expect(sniffImageFormat(Buffer.from(SAMPLES.png))).toBe('png')
+		})
+	})
+
+	describe('validateImageContent', () => {
+		it('should accept matching content', () => {
+			expect(() => validateImageContent('png', SAMPLES.png)).not.toThrow()
+			expect(() =>
+				validateImageContent('jpg', SAMPLES.jpeg),
+			).not.toThrow()
+		})
+
+		it('should reject content of another format', () => {
+			expect(() => validateImageContent('png', SAMPLES.jpeg)).toThrow(
+				expect.objectContaining({
+					name: 'ImageValidationError',
+					context: {
+						format: 'png',
+						detected: 'jpeg',
+						reason: 'content_mismatch',
+					},
+				}),
+			)
+		})
+
+		it('should reject content that is not an image', () => {
+			expect(() =>
+				validateImageContent(
+					'png',
+					bytes('<html><body></body></html>'),
+				),
+			).toThrow(ImageValidationError)
+		})
+	})
+
+	describe('validateImage with content', () => {
+		it('should validate matching content', () => {
+			expect(
+				validateImage('webp', 800, 600, 1024, {}, SAMPLES.webp),
+			).toEqual({ valid: true, errors: [] })
+		})
+
+		it('should reject extension and content mismatches', () => {
+			expect(() =>
+				validateImage('png', 800, 600, 1024, {}, SAMPLES.jpeg),
+			).toThrow(ImageValidationError)
+		})
+	})
 })
@@ -2,7 +2,9 @@
  * Image format detection and validation utilities
  */
 
+import { ImageValidationError } from '../errors.js'
 import type {
+	DetectedImageFormat,
 	ImageFormat,
 	ImageValidationConfig,
 	ImageValidationResult,
@@ -32,6 +34,25 @@ const EXTENSION_MAP: Record<string, ImageFormat> = {
 	'.jpg': 'jpg',
 }
 
+/**
+ * Format to MIME type mapping, e.g. for `<source type>`
+ */
+const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+	svg: 'image/svg+xml',
+	png: 'image/png',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	jpeg: 'image/jpeg',
+	jpg: 'image/jpeg',
+}
+
+/**
+ * Get the MIME type of an image format
+ */
+export function getFormatMimeType(format: ImageFormat): string {
+	return FORMAT_MIME_TYPES[format]
+}
+
 /**
  * Detect image format from file path or MIME type
  */
@@ -56,6 +77,141 @@ export function detectImageFormat(
 	return null
 }
 
+/**
+ * ISO-BMFF brands identifying AVIF and other HEIF images
+ */
+const AVIF_BRANDS = new Set(['avif', 'avis'])
+const HEIF_BRANDS = new Set([
+	'heic',
+	'heix',
+	'hevc',
+	'hevx',
+	'heim',
+	'heis',
+	'mif1',
+	'msf1',
+])
+
+/**
+ * Leading bytes searched for an SVG root element
+ */
+const SVG_SNIFF_LENGTH = 4096
+
+/**
+ * Prolog allowed before the SVG root: XML declaration, comments, doctype
+ */
+const SVG_PATTERN =
+	/^\uFEFF?\s*(?:<\?xml[^>]*\?>\s*)?(?:(?:<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*<svg[\s>/]/i
+
+const startsWith = (data: Uint8Array, signature: number[]): boolean =>
+	signature.every((byte, index) => data[index] === byte)
+
+const readASCII = (data: Uint8Array, start: number, end: number): string =>
+	String.fromCharCode(...data.subarray(start, end))
+
+/**
+ * Read the brands of an ISO-BMFF ftyp box (AVIF, HEIF)
+ */
+function readFtypBrands(data: Uint8Array): string[] {
+	if (data.length < 12 || readASCII(data, 4, 8) !== 'ftyp') {
+		return []
+	}
+
+	const boxSize =
+		(((data[0] ?? 0) << 24) |
+			((data[1] ?? 0) << 16) |
+			((data[2] ?? 0) << 8) |
+			(data[3] ?? 0)) >>>
+		0
+	const end = Math.min(data.length, boxSize)
+
+	// Major brand, then compatible brands after the minor version
+	const brands = [readASCII(data, 8, 12)]
+	for (let offset = 16; offset + 4 <= end; offset += 4) {
+		brands.push(readASCII(data, offset, offset + 4))
+	}
+	return brands
+}
+
+/**
+ * Detect an image format from its leading bytes
+ * Recognizes PNG, JPEG, GIF, WebP, AVIF, HEIF, JPEG XL and SVG, and returns
+ * null for anything else (e.g. HTML disguised with an image extension)
+ *
+ * @example
+ * ```typescript
+ * sniffImageFormat(await readFile('upload.png')) // 'jpeg' if it is a JPEG
+ * ```
+ */
+export function sniffImageFormat(data: Uint8Array): DetectedImageFormat | null {
+	if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+		return 'png'
+	}
+	if (startsWith(data, [0xff, 0xd8, 0xff])) {
+		return 'jpeg'
+	}
+	if (/^GIF8[79]a$/.test(readASCII(data, 0, 6))) {
+		return 'gif'
+	}
+	if (readASCII(data, 0, 4) === 'RIFF' && readASCII(data, 8, 12) === 'WEBP') {
+		return 'webp'
+	}
+
+	const brands = readFtypBrands(data)
+	if (brands.some(brand => AVIF_BRANDS.has(brand))) {
+		return 'avif'
+	}
+	if (brands.some(brand => HEIF_BRANDS.has(brand))) {
+		return 'heif'
+	}
+
+	// JPEG XL codestream or ISO-BMFF container
+	if (
+		startsWith(data, [0xff, 0x0a]) ||
+		startsWith(
+			data,
+			[0, 0, 0, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a],
+		)
+	) {
+		return 'jxl'
+	}
+
+	const text = new TextDecoder().decode(data.subarray(0, SVG_SNIFF_LENGTH))
+	if (SVG_PATTERN.test(text)) {
+		return 'svg'
+	}
+
+	return null
+}
+
+/**
+ * Check that file content matches its declared format
+ * `jpg` and `jpeg` are the same format
+ * @throws {ImageValidationError} If the content is not an image or is
+ * another format than declared
+ */
+export function validateImageContent(
+	format: ImageFormat,
+	data: Uint8Array,
+): void {
+	const detected = sniffImageFormat(data)
+	const expected = format === 'jpg' ? 'jpeg' : format
+
+	if (detected === null) {
+		throw new ImageValidationError(
+			`File content is not a recognized image (declared ${format})`,
+			{ format, reason: 'unrecognized_content' },
+		)
+	}
+
+	if (detected !== expected) {
+		throw new ImageValidationError(
+			`File content is ${detected} but was declared as ${format}`,
+			{ format, detected, reason: 'content_mismatch' },
+		)
+	}
+}
+
 /**
  * Check if format is a vector format (no raster processing needed)
  */
@@ -99,6 +255,149 @@ export function getRecommendedFormat(options: {
 	return 'webp'
 }
 
+/**
+ * Server-side preference per format, from 0 to 1
+ * Multiplied with the client's q-value to rank formats
+ */
+export type FormatPreferences = Partial<Record<ImageFormat, number>>
+
+/**
+ * Result of Accept header negotiation
+ */
+export interface FormatNegotiationResult {
+	/** Format to serve */
+	format: ImageFormat
+	/** Headers to add to the response, `Vary: Accept` when negotiated */
+	headers: Record<string, string>
+}
+
+/**
+ * Default server preferences, favoring the smallest files
+ */
+const DEFAULT_FORMAT_PREFERENCES: Required<FormatPreferences> = {
+	avif: 1,
+	webp: 0.9,
+	svg: 0.9,
+	png: 0.8,
+	jpeg: 0.8,
+	jpg: 0.8,
+}
+
+/**
+ * Formats that wildcard media ranges do not cover
+ * Clients that cannot decode them still send wildcards
+ */
+const EXPLICIT_ONLY_FORMATS = new Set<ImageFormat>(['avif', 'webp'])
+
+interface MediaRange {
+	type: string
+	subtype: string
+	q: number
+}
+
+/**
+ * Parse an Accept header into media ranges with their q-values
+ */
+function parseAcceptHeader(header: string): MediaRange[] {
+	return header.split(',').flatMap(part => {
+		const [range = '', ...params] = part.split(';')
+		const [type, subtype] = range.trim().toLowerCase().split('/')
+		if (!type || !subtype) {
+			return []
+		}
+
+		const qParam = params
+			.map(param => param.trim().toLowerCase())
+			.find(param => param.startsWith('q='))
+		const q = qParam ? Number(qParam.slice(2)) : 1
+
+		return Number.isFinite(q)
+			? [{ type, subtype, q: Math.min(Math.max(q, 0), 1) }]
+			: []
+	})
+}
+
+const normalizeJPEG = (format: ImageFormat): ImageFormat =>
+	format === 'jpg' ? 'jpeg' : format
+
+/**
+ * How specifically a media range matches a format: 2 for its MIME type,
+ * 1 for any image, 0 for any type, -1 if it does not match
+ */
+function getRangeSpecificity(range: MediaRange, format: ImageFormat): number {
+	const mapped = MIME_TYPE_MAP[`${range.type}/${range.subtype}`]
+	if (mapped && normalizeJPEG(mapped) === normalizeJPEG(format)) {
+		return 2
+	}
+	if (EXPLICIT_ONLY_FORMATS.has(format)) {
+		return -1
+	}
+	if (range.type === 'image' && range.subtype === '*') {
+		return 1
+	}
+	return range.type === '*' && range.subtype === '*' ? 0 : -1
+}
+
+/**
+ * Client q-value for a format, from its most specific matching range
+ */
+function getAcceptedQuality(ranges: MediaRange[], format: ImageFormat): number {
+	let specificity = -1
+	let q = 0
+	for (const range of ranges) {
+		const rangeSpecificity = getRangeSpecificity(range, format)
+		if (rangeSpecificity > specificity) {
+			specificity = rangeSpecificity
+			q = range.q
+		}
+	}
+	return q
+}
+
+/**
+ * Pick the image format to serve from the request Accept header
+ * Formats are ranked by client q-value times server preference, ties go to
+ * the earlier candidate. AVIF and WebP must be listed explicitly, since
+ * wildcards are also sent by clients that cannot decode them. Without an
+ * acceptable candidate, the last one is returned as the fallback
+ *
+ * @example
+ * ```typescript
+ * const { format, headers } = negotiateFormat(request.headers.get('accept'))
+ * return new Response(await render(format), { headers })
+ * ```
+ */
+export function negotiateFormat(
+	acceptHeader: string | null | undefined,
+	candidates: ImageFormat[] = ['avif', 'webp', 'jpeg'],
+	preferences: FormatPreferences = {},
+): FormatNegotiationResult {
+	const fallback = candidates[candidates.length - 1]
+	if (!fallback) {
+		throw new ImageValidationError('No candidate formats to negotiate', {
+			reason: 'no_candidates',
+		})
+	}
+
+	const headers: Record<string, string> =
+		candidates.length > 1 ? { Vary: 'Accept' } : {}
+	const ranges = parseAcceptHeader(acceptHeader ?? '')
+
+	let format = fallback
+	let bestScore = 0
+	for (const candidate of candidates) {
+		const score =
+			getAcceptedQuality(ranges, candidate) *
+			(preferences[candidate] ?? DEFAULT_FORMAT_PREFERENCES[candidate])
+		if (score > bestScore) {
+			format = candidate
+			bestScore = score
+		}
+	}
+
+	return { format, headers }
+}
+
 /**
  * Validate image dimensions
  */
@@ -181,6 +480,9 @@ export function validateImageFormat(
 
 /**
  * Comprehensive image validation
+ * Pass the file content to also check it against the declared format,
+ * e.g. the extension of an upload
+ * @throws {ImageValidationError} If content is given and does not match
  */
 export function validateImage(
 	format: ImageFormat,
@@ -188,7 +490,12 @@ export function validateImage(
 	height: number,
 	sizeInBytes: number,
 	config: ImageValidationConfig,
+	content?: Uint8Array,
 ): ImageValidationResult {
+	if (content) {
+		validateImageContent(format, content)
+	}
+
 	const formatResult = validateImageFormat(format, config)
 	const dimensionsResult = validateImageDimensions(width, height, config)
 	const sizeResult = validateImageSize(sizeInBytes, config)
@@ -2,7 +2,19 @@
  * Image utilities exports
  */
 
+export * from './blurhash.js'
+export * from './color.js'
 export * from './format.js'
 export * from './lqip.js'
+export * from './lqip-generator.js'
+export * from './metadata.js'
+export * from './palette.js'
+export * from './placeholder.js'
 export * from './quality.js'
 export * from './responsive.js'
+export * from './rgba.js'
+export * from './signing.js'
+export * from './svg.js'
+export * from './thumbhash.js'
+export * from './transform.js'
+export * from './watermark.js'
@@ -0,0 +1,134 @@
+/**
+ * Tests for LQIP data URI generation
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import sharp from 'sharp'
+import { describe, expect, it } from 'vitest'
+
+import { ImageProcessingError, ImageValidationError } from '../errors.js'
+import { generateLQIPDataURI } from './lqip-generator.js'
+
+const createImage = (width: number, height: number): Promise<Buffer> =>
+	sharp({
+		create: {
+			width,
+			height,
+			channels: 3,
+			background: { r: 30, g: 120, b: 220 },
+		},
+	})
+		.png()
+		.toBuffer()
+
+const decode = (dataURI: string): Promise<sharp.Metadata> =>
+	sharp(Buffer.from(dataURI.split(',')[1] ?? '', 'base64')).metadata()
+
+describe('generateLQIPDataURI', () => {
+	it('should return an inline WebP data URI by default', async () => {
+		const lqip = await generateLQIPDataURI(await createImage(400, 300))
+
+		expect(lqip).toMatch(/^data:image\/webp;base64,[A-Za-z0-9+/]+=*$/)
+		expect((await decode(lqip)).format).toBe('webp')
+	})
+
+	it('should downsize keeping the aspect ratio', async () => {
+		const landscape = await decode(
+			await generateLQIPDataURI(await createImage(400, 200)),
+		)
+		const portrait = await decode(
+			await generateLQIPDataURI(await createImage(150, 600)),
+		)
+
+		expect(landscape).toMatchObject({ width: 20, height: 10 })
+		expect(portrait).toMatchObject({ width: 5, height: 20 })
+	})
+
+	it('should fit within the configured box', async () => {
+		const metadata = await decode(
+			await generateLQIPDataURI(await createImage(400, 400), {
+				width: 32,
+				height: 16,
+			}),
+		)
+
+		expect(metadata).toMatchObject({ width: 16, height: 16 })
+	})
+
+	it('should not enlarge tiny images', async () => {
+		const metadata = await decode(
+			await generateLQIPDataURI(await createImage(8, 4)),
+		)
+
+		expect(metadata).toMatchObject({ width: 8, height: 4 })
+	})
+
+	it('should encode JPEG placeholders', async () => {
+		const lqip = await generateLQIPDataURI(await createImage(100, 100), {
+			format: 'jpeg',
+			blur: 0,
+		})
+
+		expect(lqip).toMatch(/^data:image\/jpeg;base64,/)
+		expect((await decode(lqip)).format).toBe('jpeg')
+	})
+
+	it('should read local files', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'lqip-'))
+		try {
+			const path = join(dir, 'photo.png')
+			await writeFile(path, await createImage(100, 50))
+
+			const metadata = await decode(await generateLQIPDataURI(path))
+
+			expect(metadata).toMatchObject({ width: 20, height: 10 })
+		} finally {
+			await rm(dir, { recursive: true, force: true })
+		}
+	})
+
+	it('should use the provided sharp module', async () => {
+		let calls = 0
+		const tracked = Object.assign((...args: Parameters<typeof sharp>) => {
+			calls++
+			return sharp(...args)
+		}, sharp)
+
+		await generateLQIPDataURI(
+			await createImage(10, 10),
+			{},
+			{
+				sharp: tracked,
+			},
+		)
+
+		expect(calls).toBe(1)
+	})
+
+	it('should reject remote sources', async () => {
+		await expect(
+			generateLQIPDataURI('https://example.com/photo.jpg'),
+		).rejects.toMatchObject({
+			name: 'ImageValidationError',
+			context: { reason: 'remote_source' },
+		})
+	})
+
+	it('should reject invalid dimensions', async () => {
+		await expect(
+			generateLQIPDataURI(await createImage(10, 10), { width: 0 }),
+		).rejects.toThrow(ImageValidationError)
+		await expect(
+			generateLQIPDataURI(await createImage(10, 10), { height: 20000 }),
+		).rejects.toThrow(ImageValidationError)
+	})
+
+	it('should wrap decoding failures', async () => {
+		await expect(
+			generateLQIPDataURI(Buffer.from('not an image')),
+		).rejects.toThrow(ImageProcessingError)
+	})
+})
@@ -0,0 +1,108 @@
+/**
+ * LQIP generation from source images
+ * Produces inline data URIs so placeholders need no extra request
+ */
+
+import {
+	ImageOptimizationError,
+	ImageProcessingError,
+	ImageValidationError,
+} from '../errors.js'
+import type { LQIPConfig } from '../types.js'
+import { SECURITY_LIMITS } from '../types.js'
+import { encodeToDataURI, mergeLQIPConfig } from './lqip.js'
+import type { LocalImageSource, SharpFactory } from './sharp.js'
+import { loadSharp, openImage } from './sharp.js'
+
+/**
+ * LQIP generator options
+ */
+export interface LQIPGeneratorOptions {
+	/**
+	 * Sharp module to use
+	 * Loaded from the optional `sharp` peer dependency when omitted
+	 */
+	sharp?: SharpFactory | Promise<SharpFactory>
+}
+
+/**
+ * Smallest Gaussian blur sigma accepted by Sharp
+ */
+const MIN_BLUR_SIGMA = 0.3
+
+/**
+ * Ensure the placeholder box is a sensible size
+ * @throws {ImageValidationError} If a dimension is not a positive integer
+ * within the security limits
+ */
+function validateLQIPDimensions({ width, height }: LQIPConfig): void {
+	const valid = (value: number, max: number): boolean =>
+		Number.isInteger(value) && value > 0 && value <= max
+
+	if (
+		!valid(width, SECURITY_LIMITS.MAX_WIDTH) ||
+		!valid(height, SECURITY_LIMITS.MAX_HEIGHT)
+	) {
+		throw new ImageValidationError(
+			`Invalid LQIP dimensions ${width}x${height}`,
+			{ width, height, reason: 'invalid_dimensions' },
+		)
+	}
+}
+
+/**
+ * Generate a LQIP data URI from a local image
+ * The source is downsized to fit within config.width x config.height,
+ * keeping its aspect ratio, blurred and encoded in config.format
+ *
+ * config.blur is the CSS blur radius at display size; the thumbnail is
+ * roughly ten times smaller, so it is blurred by a tenth of that radius
+ *
+ * @throws {ImageValidationError} If the source or config is invalid
+ * @throws {ImageProcessingError} If the image cannot be decoded or encoded
+ *
+ * @example
+ * ```typescript
+ * const lqip = await generateLQIPDataURI('./assets/hero.jpg')
+ * // 'data:image/webp;base64,UklGR...'
+ * ```
+ */
+export async function generateLQIPDataURI(
+	source: LocalImageSource,
+	config: Partial<LQIPConfig> = {},
+	options: LQIPGeneratorOptions = {},
+): Promise<string> {
+	const lqipConfig = mergeLQIPConfig(config)
+	validateLQIPDimensions(lqipConfig)
+
+	try {
+		const factory = await (options.sharp ?? loadSharp())
+		const image = await openImage(factory, source)
+
+		image.rotate().resize({
+			width: lqipConfig.width,
+			height: lqipConfig.height,
+			fit: 'inside',
+			withoutEnlargement: true,
+		})
+		if (lqipConfig.blur > 0) {
+			image.blur(Math.max(MIN_BLUR_SIGMA, lqipConfig.blur / 10))
+		}
+
+		const data = await image
+			.toFormat(lqipConfig.format, { quality: lqipConfig.quality })
+			.toBuffer()
+
+		return encodeToDataURI(data, lqipConfig.format)
+	} catch (error) {
+		if (error instanceof ImageOptimizationError) {
+			throw error
+		}
+
+		const message = error instanceof Error ? error.message : 'Unknown error'
+		throw new ImageProcessingError(`LQIP generation failed: ${message}`, {
+			operation: 'generateLQIP',
+			cause: error,
+		})
+	}
+}
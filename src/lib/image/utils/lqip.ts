@@ -4,6 +4,7 @@
  */
 
 import type { LQIPConfig } from '../types.js'
+import { extractPalette } from './palette.js'
 
 /**
  * Default LQIP configuration
@@ -112,10 +113,11 @@ export function decodeLQIPInteger(encoded: number): {
 }
 
 /**
- * Calculate dominant color from image data (simplified)
- * In production, this should use a proper color extraction algorithm
+ * Calculate the dominant color of image data
+ * Returns the most common swatch of a median cut palette, skipping
+ * transparent pixels, or black if every pixel is transparent
  *
- * @param imageData RGB pixel data
+ * @param imageData RGBA pixel data
  * @returns Dominant color as RGB object
  */
 export function calculateDominantColor(imageData: Uint8ClampedArray): {
@@ -123,29 +125,12 @@ export function calculateDominantColor(imageData: Uint8ClampedArray): {
 	g: number
 	b: number
 } {
-	let r = 0
-	let g = 0
-	let b = 0
-	const pixelCount = imageData.length / 4
-
-	// Calculate average color (simple dominant color approximation)
-	for (let i = 0; i < imageData.length; i += 4) {
-		const red = imageData[i]
-		const green = imageData[i + 1]
-		const blue = imageData[i + 2]
-
-		if (red !== undefined && green !== undefined && blue !== undefined) {
-			r += red
-			g += green
-			b += blue
-		}
+	const [dominant] = extractPalette(imageData, { colorCount: 5 })
+	if (!dominant) {
+		return { r: 0, g: 0, b: 0 }
 	}
 
-	return {
-		r: Math.round(r / pixelCount),
-		g: Math.round(g / pixelCount),
-		b: Math.round(b / pixelCount),
-	}
+	return { r: dominant.r, g: dominant.g, b: dominant.b }
 }
 
 /**
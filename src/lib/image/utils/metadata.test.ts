@@ -0,0 +1,431 @@
+/**
+ * Tests for header-only image metadata
+ */
+
+import sharp from 'sharp'
+import { describe, expect, it } from 'vitest'
+
+import { ImageSecurityError, ImageValidationError } from '../errors.js'
+import {
+	getDisplayDimensions,
+	readImageMetadata,
+	validateDecodeLimits,
+	validateImageData,
+} from './metadata.js'
+
+const bytes = (...parts: Array<string | number[] | Uint8Array>): Uint8Array =>
+	Uint8Array.from(
+		parts.flatMap(part =>
+			typeof part === 'string'
+				? Array.from(part, char => char.charCodeAt(0))
+				: Array.from(part),
+		),
+	)
+
+/**
+ * ISO-BMFF box with its size header
+ */
+const box = (type: string, ...parts: Array<string | number[] | Uint8Array>) => {
+	const payload = bytes(...parts)
+	const size = payload.length + 8
+	return bytes(
+		[size >>> 24, (size >>> 16) & 0xff, (size >>> 8) & 0xff, size & 0xff],
+		type,
+		payload,
+	)
+}
+
+/**
+ * Minimal AVIF header: a 40x30 primary item with the given properties
+ */
+const avifHeader = (...transforms: Uint8Array[]): Uint8Array => {
+	const properties = [
+		box('ispe', [0, 0, 0, 0, 0, 0, 0, 40, 0, 0, 0, 30]),
+		...transforms,
+	]
+	return bytes(
+		box('ftyp', 'avif', [0, 0, 0, 0], 'mif1'),
+		box(
+			'meta',
+			[0, 0, 0, 0],
+			box('pitm', [0, 0, 0, 0, 0, 1]),
+			box(
+				'iprp',
+				box('ipco', ...properties),
+				box(
+					'ipma',
+					[0, 0, 0, 0, 0, 0, 0, 1, 0, 1, properties.length],
+					properties.map((_, index) => 0x80 | (index + 1)),
+				),
+			),
+		),
+	)
+}
+
+const irot = (angle: number) => box('irot', [angle])
+const imir = (axis: number) => box('imir', [axis])
+
+/**
+ * Two-frame 2x1 GIF, red then blue, with a transparent color
+ */
+const ANIMATED_GIF = (() => {
+	// LZW data of two pixels with the given palette index
+	const frame = (index: number) =>
+		bytes(
+			[0x21, 0xf9, 4, 0x01, 10, 0, 2, 0],
+			[0x2c, 0, 0, 0, 0, 2, 0, 1, 0, 0],
+			[2, 2, 0x04 | (index << 3) | (index << 6), 0x0a, 0],
+		)
+	return bytes(
+		'GIF89a',
+		[2, 0, 1, 0, 0x81, 0, 0],
+		[255, 0, 0, 0, 0, 255, 0, 0, 0, 0, 0, 0],
+		[0x21, 0xff, 11],
+		'NETSCAPE2.0',
+		[3, 1, 0, 0, 0],
+		frame(0),
+		frame(1),
+		[0x3b],
+	)
+})()
+
+const createImage = (channels: 3 | 4 = 3) =>
+	sharp({
+		create: {
+			width: 40,
+			height: 30,
+			channels,
+			background: { r: 10, g: 20, b: 30, alpha: 0.5 },
+		},
+	})
+
+const expectValidationError = (data: Uint8Array, reason: string) => {
+	try {
+		readImageMetadata(data)
+		expect.unreachable('should have thrown')
+	} catch (error) {
+		expect(error).toBeInstanceOf(ImageValidationError)
+		expect((error as ImageValidationError).context?.reason).toBe(reason)
+	}
+}
+
+describe('readImageMetadata', () => {
+	describe('PNG', () => {
+		it('should read dimensions and bit depth', async () => {
+			const metadata = readImageMetadata(
+				await createImage().png().toColourspace('rgb16').toBuffer(),
+			)
+
+			expect(metadata).toEqual({
+				format: 'png',
+				width: 40,
+				height: 30,
+				orientation: 1,
+				bitDepth: 16,
+				hasAlpha: false,
+				isAnimated: false,
+				hasICCProfile: false,
+			})
+		})
+
+		it('should detect alpha channels and transparent palettes', async () => {
+			const rgba = await createImage(4).png().toBuffer()
+			const palette = await createImage(4)
+				.png({ palette: true })
+				.toBuffer()
+
+			expect(readImageMetadata(rgba).hasAlpha).toBe(true)
+			expect(readImageMetadata(palette)).toMatchObject({
+				hasAlpha: true,
+				bitDepth: 8,
+			})
+		})
+
+		it('should read orientation and ICC profile', async () => {
+			const metadata = readImageMetadata(
+				await createImage()
+					.withMetadata({ orientation: 6 })
+					.withIccProfile('p3')
+					.png()
+					.toBuffer(),
+			)
+
+			expect(metadata.orientation).toBe(6)
+			expect(metadata.hasICCProfile).toBe(true)
+		})
+	})
+
+	describe('JPEG', () => {
+		it('should read the frame header', async () => {
+			expect(
+				readImageMetadata(await createImage().jpeg().toBuffer()),
+			).toMatchObject({
+				format: 'jpeg',
+				width: 40,
+				height: 30,
+				bitDepth: 8,
+				hasAlpha: false,
+				hasICCProfile: false,
+			})
+		})
+
+		it('should read EXIF orientation and ICC profile', async () => {
+			const metadata = readImageMetadata(
+				await createImage()
+					.withMetadata({ orientation: 8 })
+					.withIccProfile('p3')
+					.jpeg()
+					.toBuffer(),
+			)
+
+			expect(metadata.orientation).toBe(8)
+			expect(metadata.hasICCProfile).toBe(true)
+		})
+
+		it('should only need the data up to the frame header', async () => {
+			const jpeg = await createImage().jpeg().toBuffer()
+			const sos = jpeg.indexOf(Buffer.from([0xff, 0xda]))
+
+			expect(readImageMetadata(jpeg.subarray(0, sos)).width).toBe(40)
+		})
+	})
+
+	describe('WebP', () => {
+		it('should read lossy images', async () => {
+			expect(
+				readImageMetadata(await createImage().webp().toBuffer()),
+			).toMatchObject({ format: 'webp', width: 40, height: 30 })
+		})
+
+		it('should read lossless images with alpha', async () => {
+			const metadata = readImageMetadata(
+				await createImage(4).webp({ lossless: true }).toBuffer(),
+			)
+
+			expect(metadata).toMatchObject({
+				width: 40,
+				height: 30,
+				hasAlpha: true,
+			})
+		})
+
+		it('should read extended format features', async () => {
+			const metadata = readImageMetadata(
+				await createImage(4)
+					.withMetadata({ orientation: 3 })
+					.withIccProfile('p3')
+					.webp()
+					.toBuffer(),
+			)
+
+			expect(metadata).toMatchObject({
+				width: 40,
+				height: 30,
+				orientation: 3,
+				hasAlpha: true,
+				hasICCProfile: true,
+				isAnimated: false,
+			})
+		})
+
+		it('should detect animations', async () => {
+			const webp = await sharp(ANIMATED_GIF, { animated: true })
+				.webp()
+				.toBuffer()
+
+			expect(readImageMetadata(webp)).toMatchObject({
+				width: 2,
+				height: 1,
+				isAnimated: true,
+			})
+		})
+	})
+
+	describe('AVIF', () => {
+		it('should read the primary item properties', async () => {
+			expect(
+				readImageMetadata(await createImage().avif().toBuffer()),
+			).toMatchObject({
+				format: 'avif',
+				width: 40,
+				height: 30,
+				bitDepth: 8,
+				hasAlpha: false,
+			})
+		})
+
+		it('should detect alpha planes and ICC profiles', async () => {
+			const metadata = readImageMetadata(
+				await createImage(4).withIccProfile('p3').avif().toBuffer(),
+			)
+
+			expect(metadata.hasAlpha).toBe(true)
+			expect(metadata.hasICCProfile).toBe(true)
+		})
+
+		it('should map rotation and mirroring to EXIF orientations', () => {
+			expect(readImageMetadata(avifHeader()).orientation).toBe(1)
+			expect(readImageMetadata(avifHeader(irot(1))).orientation).toBe(8)
+			expect(readImageMetadata(avifHeader(irot(2))).orientation).toBe(3)
+			expect(readImageMetadata(avifHeader(irot(3))).orientation).toBe(6)
+			expect(readImageMetadata(avifHeader(imir(0))).orientation).toBe(2)
+			expect(readImageMetadata(avifHeader(imir(1))).orientation).toBe(4)
+		})
+
+		it('should apply transforms in association order', () => {
+			expect(
+				readImageMetadata(avifHeader(irot(1), imir(0))).orientation,
+			).toBe(7)
+			expect(
+				readImageMetadata(avifHeader(imir(0), irot(1))).orientation,
+			).toBe(5)
+		})
+	})
+
+	describe('GIF', () => {
+		it('should read the logical screen', async () => {
+			expect(
+				readImageMetadata(await createImage().gif().toBuffer()),
+			).toMatchObject({
+				format: 'gif',
+				width: 40,
+				height: 30,
+				isAnimated: false,
+			})
+		})
+
+		it('should detect animations and transparency', () => {
+			expect(readImageMetadata(ANIMATED_GIF)).toMatchObject({
+				width: 2,
+				height: 1,
+				hasAlpha: true,
+				isAnimated: true,
+			})
+		})
+	})
+
+	describe('errors', () => {
+		it('should reject content that is not an image', () => {
+			expectValidationError(
+				bytes('<html></html>'),
+				'unrecognized_content',
+			)
+		})
+
+		it('should reject formats without a header reader', () => {
+			expectValidationError(bytes('<svg></svg>'), 'unsupported_format')
+		})
+
+		it('should reject headers cut before the dimensions', async () => {
+			const png = await createImage().png().toBuffer()
+
+			expectValidationError(png.subarray(0, 20), 'invalid_header')
+		})
+	})
+})
+
+describe('getDisplayDimensions', () => {
+	it('should swap dimensions for quarter turn orientations', () => {
+		expect(
+			getDisplayDimensions({ width: 40, height: 30, orientation: 6 }),
+		).toEqual({ width: 30, height: 40 })
+		expect(
+			getDisplayDimensions({ width: 40, height: 30, orientation: 3 }),
+		).toEqual({ width: 40, height: 30 })
+	})
+})
+
+/**
+ * PNG signature and IHDR chunk, without image data
+ */
+const pngHeader = (width: number, height: number): Uint8Array => {
+	const view = new DataView(new ArrayBuffer(8))
+	view.setUint32(0, width)
+	view.setUint32(4, height)
+	return bytes(
+		[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+		[0, 0, 0, 13],
+		'IHDR',
+		new Uint8Array(view.buffer),
+		[8, 6, 0, 0, 0],
+	)
+}
+
+describe('validateDecodeLimits', () => {
+	it('should return the metadata of images within the limits', () => {
+		expect(validateDecodeLimits(pngHeader(8000, 6000))).toMatchObject({
+			width: 8000,
+			height: 6000,
+		})
+	})
+
+	it('should reject tiny files declaring huge dimensions', () => {
+		const header = pngHeader(60000, 60000)
+
+		expect(() => validateDecodeLimits(header)).toThrow(ImageSecurityError)
+		try {
+			validateDecodeLimits(header)
+		} catch (error) {
+			expect((error as ImageSecurityError).context).toMatchObject({
+				format: 'png',
+				width: 60000,
+				height: 60000,
+				pixels: 3600000000,
+				size: header.length,
+				reason: 'decompression_bomb',
+			})
+		}
+	})
+
+	it('should reject a single dimension above the limits', () => {
+		expect(() => validateDecodeLimits(pngHeader(20000, 10))).toThrow(
+			ImageSecurityError,
+		)
+	})
+
+	it('should reject too many pixels within the dimension limits', () => {
+		expect(() => validateDecodeLimits(pngHeader(10000, 10000))).toThrow(
+			ImageSecurityError,
+		)
+	})
+
+	it('should reject unreadable headers', () => {
+		expect(() => validateDecodeLimits(bytes('not an image'))).toThrow(
+			ImageValidationError,
+		)
+	})
+})
+
+describe('validateImageData', () => {
+	it('should validate the dimensions read from the file', async () => {
+		const jpeg = await createImage()
+			.withMetadata({ orientation: 6 })
+			.jpeg()
+			.toBuffer()
+
+		expect(validateImageData(jpeg, { maxWidth: 30 })).toEqual({
+			valid: true,
+			errors: [],
+		})
+		expect(validateImageData(jpeg, { maxHeight: 30 }).errors).toEqual([
+			'Height 40px exceeds maximum 30px',
+		])
+	})
+
+	it('should check the detected format', async () => {
+		const jpeg = await createImage().jpeg().toBuffer()
+
+		expect(validateImageData(jpeg, { allowedFormats: ['jpg'] }).valid).toBe(
+			true,
+		)
+		expect(
+			validateImageData(jpeg, { allowedFormats: ['png', 'webp'] }).errors,
+		).toEqual(['Format "jpeg" is not allowed. Allowed formats: png, webp'])
+	})
+
+	it('should check the data size', async () => {
+		const png = await createImage().png().toBuffer()
+
+		expect(validateImageData(png, { maxFileSize: 10 }).valid).toBe(false)
+	})
+})
@@ -0,0 +1,588 @@
+/**
+ * Header-only image metadata
+ * Reads dimensions, orientation and color information of PNG, JPEG, WebP,
+ * AVIF/HEIF and GIF files from their headers, without decoding pixels
+ */
+
+import { ImageSecurityError, ImageValidationError } from '../errors.js'
+import type {
+	DetectedImageFormat,
+	ImageHeaderMetadata,
+	ImageValidationConfig,
+	ImageValidationResult,
+} from '../types.js'
+import { SECURITY_LIMITS } from '../types.js'
+import {
+	sniffImageFormat,
+	validateImageDimensions,
+	validateImageSize,
+} from './format.js'
+
+type HeaderFields = Omit<ImageHeaderMetadata, 'format'>
+
+/**
+ * ISO-BMFF box, bounds of its payload
+ */
+interface Box {
+	type: string
+	start: number
+	end: number
+}
+
+/**
+ * EXIF orientation tag in the TIFF IFD0
+ */
+const ORIENTATION_TAG = 0x0112
+
+/**
+ * EXIF orientation of an AVIF/HEIF image rotated by `irot` (index) and then
+ * mirrored by `imir`, per mirror axis
+ */
+const TRANSFORM_ORIENTATIONS = {
+	none: [1, 8, 3, 6],
+	vertical: [2, 7, 4, 5],
+	horizontal: [4, 5, 2, 7],
+} as const
+
+/**
+ * Auxiliary image types marking an alpha plane
+ */
+const ALPHA_AUX_TYPES = new Set([
+	'urn:mpeg:mpegB:cicp:systems:auxiliary:alpha',
+	'urn:mpeg:hevc:2015:auxid:1',
+])
+
+const defaultFields = (): HeaderFields => ({
+	width: 0,
+	height: 0,
+	orientation: 1,
+	bitDepth: 8,
+	hasAlpha: false,
+	isAnimated: false,
+	hasICCProfile: false,
+})
+
+/**
+ * Read ASCII text, truncated at the end of the data
+ */
+function readASCII(view: DataView, start: number, length: number): string {
+	let text = ''
+	const end = Math.min(view.byteLength, start + length)
+	for (let offset = start; offset < end; offset++) {
+		text += String.fromCharCode(view.getUint8(offset))
+	}
+	return text
+}
+
+/**
+ * Read the orientation of a TIFF-structured EXIF block
+ * Returns 1 when the block is malformed or has no orientation
+ */
+function readExifOrientation(
+	view: DataView,
+	start: number,
+	end: number,
+): number {
+	const byteOrder = readASCII(view, start, 2)
+	if (byteOrder !== 'II' && byteOrder !== 'MM') return 1
+	const little = byteOrder === 'II'
+
+	try {
+		const ifd = start + view.getUint32(start + 4, little)
+		const count = view.getUint16(ifd, little)
+
+		for (let i = 0; i < count; i++) {
+			const entry = ifd + 2 + i * 12
+			if (entry + 12 > end) break
+			if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+				const value = view.getUint16(entry + 8, little)
+				return value >= 1 && value <= 8 ? value : 1
+			}
+		}
+	} catch {
+		// Offsets outside the block
+	}
+	return 1
+}
+
+function readPNG(view: DataView): HeaderFields {
+	const fields = defaultFields()
+	if (readASCII(view, 12, 4) !== 'IHDR') return fields
+
+	const colorType = view.getUint8(25)
+	fields.width = view.getUint32(16)
+	fields.height = view.getUint32(20)
+	fields.bitDepth = colorType === 3 ? 8 : view.getUint8(24)
+	fields.hasAlpha = colorType === 4 || colorType === 6
+
+	// Ancillary chunks, skipping image data by length
+	let offset = 8
+	while (offset + 8 <= view.byteLength) {
+		const length = view.getUint32(offset)
+		const type = readASCII(view, offset + 4, 4)
+		const data = offset + 8
+		if (type === 'IEND' || data + length > view.byteLength) break
+
+		if (type === 'tRNS') {
+			fields.hasAlpha = true
+		} else if (type === 'acTL') {
+			fields.isAnimated = view.getUint32(data) > 1
+		} else if (type === 'iCCP') {
+			fields.hasICCProfile = true
+		} else if (type === 'eXIf') {
+			fields.orientation = readExifOrientation(view, data, data + length)
+		}
+
+		offset = data + length + 4
+	}
+
+	return fields
+}
+
+const isStartOfFrame = (marker: number): boolean =>
+	marker >= 0xc0 &&
+	marker <= 0xcf &&
+	marker !== 0xc4 &&
+	marker !== 0xc8 &&
+	marker !== 0xcc
+
+function readJPEG(view: DataView): HeaderFields {
+	const fields = defaultFields()
+
+	// Segments up to the frame header; EXIF and ICC come before it
+	let offset = 2
+	while (offset + 4 <= view.byteLength) {
+		if (view.getUint8(offset) !== 0xff) break
+		const marker = view.getUint8(offset + 1)
+
+		// Fill bytes and markers without a length
+		if (marker === 0xff) {
+			offset++
+			continue
+		}
+		if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+			offset += 2
+			continue
+		}
+		if (marker === 0xda || marker === 0xd9) break
+
+		const length = view.getUint16(offset + 2)
+		const data = offset + 4
+		const end = offset + 2 + length
+
+		if (isStartOfFrame(marker)) {
+			fields.bitDepth = view.getUint8(data)
+			fields.height = view.getUint16(data + 1)
+			fields.width = view.getUint16(data + 3)
+			return fields
+		}
+		if (marker === 0xe1 && readASCII(view, data, 6) === 'Exif\0\0') {
+			fields.orientation = readExifOrientation(view, data + 6, end)
+		} else if (
+			marker === 0xe2 &&
+			readASCII(view, data, 12) === 'ICC_PROFILE\0'
+		) {
+			fields.hasICCProfile = true
+		}
+
+		offset = end
+	}
+
+	return fields
+}
+
+const readUint24 = (view: DataView, offset: number): number =>
+	view.getUint16(offset, true) | (view.getUint8(offset + 2) << 16)
+
+function readWebP(view: DataView): HeaderFields {
+	const fields = defaultFields()
+	const end = Math.min(view.byteLength, 8 + view.getUint32(4, true))
+
+	let offset = 12
+	while (offset + 8 <= end) {
+		const type = readASCII(view, offset, 4)
+		const size = view.getUint32(offset + 4, true)
+		const data = offset + 8
+
+		if (type === 'VP8X') {
+			// Extended format: feature flags and canvas size
+			const flags = view.getUint8(data)
+			fields.hasICCProfile = (flags & 0x20) !== 0
+			fields.hasAlpha = (flags & 0x10) !== 0
+			fields.isAnimated = (flags & 0x02) !== 0
+			fields.width = readUint24(view, data + 4) + 1
+			fields.height = readUint24(view, data + 7) + 1
+		} else if (type === 'VP8 ' && !fields.width) {
+			// Lossy key frame: 14-bit dimensions after the start code
+			fields.width = view.getUint16(data + 6, true) & 0x3fff
+			fields.height = view.getUint16(data + 8, true) & 0x3fff
+		} else if (type === 'VP8L' && !fields.width) {
+			// Lossless: 14-bit dimensions minus one, then the alpha hint
+			const bits = view.getUint32(data + 1, true)
+			fields.width = (bits & 0x3fff) + 1
+			fields.height = ((bits >>> 14) & 0x3fff) + 1
+			fields.hasAlpha = ((bits >>> 28) & 1) === 1
+		} else if (type === 'EXIF' && data + size <= end) {
+			const start =
+				readASCII(view, data, 6) === 'Exif\0\0' ? data + 6 : data
+			fields.orientation = readExifOrientation(view, start, data + size)
+		}
+
+		// Chunks are padded to an even size
+		offset = data + size + (size & 1)
+	}
+
+	return fields
+}
+
+/**
+ * Skip GIF data sub-blocks, returning the offset after the terminator
+ */
+function skipSubBlocks(view: DataView, start: number): number {
+	let offset = start
+	while (offset < view.byteLength) {
+		const size = view.getUint8(offset)
+		offset += size + 1
+		if (size === 0) break
+	}
+	return offset
+}
+
+const colorTableSize = (packed: number): number =>
+	packed & 0x80 ? 3 << ((packed & 0x07) + 1) : 0
+
+function readGIF(view: DataView): HeaderFields {
+	const fields = defaultFields()
+	fields.width = view.getUint16(6, true)
+	fields.height = view.getUint16(8, true)
+
+	// Blocks after the global color table, until a second frame is found
+	let offset = 13 + colorTableSize(view.getUint8(10))
+	let frames = 0
+	while (offset < view.byteLength) {
+		const block = view.getUint8(offset)
+
+		if (block === 0x21 && offset + 1 < view.byteLength) {
+			const label = view.getUint8(offset + 1)
+			if (label === 0xf9 && offset + 3 < view.byteLength) {
+				// Graphic control extension: transparent color flag
+				fields.hasAlpha ||= (view.getUint8(offset + 3) & 0x01) !== 0
+			} else if (
+				label === 0xff &&
+				readASCII(view, offset + 3, 11) === 'ICCRGBG1012'
+			) {
+				fields.hasICCProfile = true
+			}
+			offset = skipSubBlocks(view, offset + 2)
+		} else if (block === 0x2c && offset + 10 < view.byteLength) {
+			frames++
+			if (frames > 1) break
+			// Descriptor, local color table and LZW code size, then data
+			offset += 10 + colorTableSize(view.getUint8(offset + 9)) + 1
+			offset = skipSubBlocks(view, offset)
+		} else {
+			break
+		}
+	}
+
+	fields.isAnimated = frames > 1
+	return fields
+}
+
+/**
+ * List the boxes between two offsets
+ */
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+	const boxes: Box[] = []
+	let offset = start
+
+	while (offset + 8 <= end) {
+		let size = view.getUint32(offset)
+		let header = 8
+		if (size === 1) {
+			size = Number(view.getBigUint64(offset + 8))
+			header = 16
+		} else if (size === 0) {
+			size = end - offset
+		}
+		if (size < header) break
+
+		boxes.push({
+			type: readASCII(view, offset + 4, 4),
+			start: offset + header,
+			end: Math.min(end, offset + size),
+		})
+		offset += size
+	}
+
+	return boxes
+}
+
+/**
+ * Indices (1-based) of the ipco properties associated with an item
+ */
+function readItemProperties(view: DataView, ipma: Box, item: number): number[] {
+	const version = view.getUint8(ipma.start)
+	const largeIndices = (view.getUint8(ipma.start + 3) & 0x01) !== 0
+	const count = view.getUint32(ipma.start + 4)
+
+	let offset = ipma.start + 8
+	for (let entry = 0; entry < count; entry++) {
+		const id = version < 1 ? view.getUint16(offset) : view.getUint32(offset)
+		offset += version < 1 ? 2 : 4
+
+		const associations = view.getUint8(offset)
+		offset++
+		const indices: number[] = []
+		for (let i = 0; i < associations; i++) {
+			indices.push(
+				largeIndices
+					? view.getUint16(offset) & 0x7fff
+					: view.getUint8(offset) & 0x7f,
+			)
+			offset += largeIndices ? 2 : 1
+		}
+
+		if (id === item) return indices
+	}
+
+	return []
+}
+
+function readHEIF(view: DataView): HeaderFields {
+	const fields = defaultFields()
+	const top = readBoxes(view, 0, view.byteLength)
+	const meta = top.find(box => box.type === 'meta')
+	if (!meta) return fields
+
+	// Image sequences carry a movie box next to the still image
+	fields.isAnimated =
+		top.some(box => box.type === 'moov') || readASCII(view, 8, 4) === 'avis'
+
+	const children = readBoxes(view, meta.start + 4, meta.end)
+	const iprp = children.find(box => box.type === 'iprp')
+	if (!iprp) return fields
+
+	const iprpChildren = readBoxes(view, iprp.start, iprp.end)
+	const ipco = iprpChildren.find(box => box.type === 'ipco')
+	const ipma = iprpChildren.find(box => box.type === 'ipma')
+	if (!ipco) return fields
+	const properties = readBoxes(view, ipco.start, ipco.end)
+
+	// Properties of the primary item, all of them if it is not declared
+	const pitm = children.find(box => box.type === 'pitm')
+	const primary = pitm
+		? view.getUint8(pitm.start) === 0
+			? view.getUint16(pitm.start + 4)
+			: view.getUint32(pitm.start + 4)
+		: undefined
+	const associated =
+		primary !== undefined && ipma
+			? readItemProperties(view, ipma, primary).flatMap(index => {
+					const property = properties[index - 1]
+					return property ? [property] : []
+				})
+			: properties
+
+	let rotation = 0
+	let mirror: keyof typeof TRANSFORM_ORIENTATIONS = 'none'
+	for (const property of associated) {
+		if (property.type === 'ispe') {
+			fields.width = view.getUint32(property.start + 4)
+			fields.height = view.getUint32(property.start + 8)
+		} else if (property.type === 'pixi') {
+			fields.bitDepth = view.getUint8(property.start + 5)
+		} else if (property.type === 'colr') {
+			const colourType = readASCII(view, property.start, 4)
+			fields.hasICCProfile ||=
+				colourType === 'prof' || colourType === 'rICC'
+		} else if (property.type === 'irot') {
+			// Mirroring before rotating equals rotating the other way first
+			const angle = view.getUint8(property.start) & 0x03
+			rotation = mirror === 'none' ? angle : (4 - angle) % 4
+		} else if (property.type === 'imir') {
+			mirror =
+				(view.getUint8(property.start) & 0x01) === 0
+					? 'vertical'
+					: 'horizontal'
+		}
+	}
+	fields.orientation = TRANSFORM_ORIENTATIONS[mirror][rotation] ?? 1
+
+	// Alpha is stored as an auxiliary image
+	fields.hasAlpha = properties.some(
+		property =>
+			property.type === 'auxC' &&
+			ALPHA_AUX_TYPES.has(
+				readASCII(
+					view,
+					property.start + 4,
+					property.end - property.start - 4,
+				).replace(/\0.*$/s, ''),
+			),
+	)
+
+	return fields
+}
+
+const HEADER_READERS: Partial<
+	Record<DetectedImageFormat, (view: DataView) => HeaderFields>
+> = {
+	png: readPNG,
+	jpeg: readJPEG,
+	webp: readWebP,
+	gif: readGIF,
+	avif: readHEIF,
+	heif: readHEIF,
+}
+
+/**
+ * Read image metadata from file headers, without decoding pixels
+ * Supports PNG, JPEG, WebP, AVIF, HEIF and GIF. The data may be cut after
+ * the headers; properties found further in the file (e.g. GIF frames) are
+ * then reported from what is available
+ *
+ * @throws {ImageValidationError} If the content is not a supported image or
+ * its dimensions cannot be read
+ *
+ * @example
+ * ```typescript
+ * const { format, width, height } = readImageMetadata(upload)
+ * ```
+ */
+export function readImageMetadata(data: Uint8Array): ImageHeaderMetadata {
+	const format = sniffImageFormat(data)
+	if (format === null) {
+		throw new ImageValidationError(
+			'File content is not a recognized image',
+			{ reason: 'unrecognized_content' },
+		)
+	}
+
+	const reader = HEADER_READERS[format]
+	if (!reader) {
+		throw new ImageValidationError(
+			`Reading ${format} metadata is not supported`,
+			{ format, reason: 'unsupported_format' },
+		)
+	}
+
+	let fields: HeaderFields | undefined
+	try {
+		fields = reader(
+			new DataView(data.buffer, data.byteOffset, data.byteLength),
+		)
+	} catch (error) {
+		// Header fields past the end of the data
+		if (!(error instanceof RangeError)) throw error
+	}
+
+	if (!fields?.width || !fields.height) {
+		throw new ImageValidationError(
+			`Could not read ${format} dimensions from the file header`,
+			{ format, reason: 'invalid_header' },
+		)
+	}
+
+	return { format, ...fields }
+}
+
+/**
+ * Dimensions of an image once its orientation is applied
+ * Orientations 5 to 8 rotate by a quarter turn and swap width and height
+ */
+export function getDisplayDimensions(
+	metadata: Pick<ImageHeaderMetadata, 'width' | 'height' | 'orientation'>,
+): { width: number; height: number } {
+	return metadata.orientation >= 5
+		? { width: metadata.height, height: metadata.width }
+		: { width: metadata.width, height: metadata.height }
+}
+
+/**
+ * Reject images whose declared dimensions exceed SECURITY_LIMITS before
+ * anything decodes them
+ * A few kilobytes of compressed data can declare billions of pixels, so the
+ * header is checked instead of the file size
+ *
+ * @throws {ImageSecurityError} If the declared dimensions exceed the limits
+ * (reason 'decompression_bomb')
+ * @throws {ImageValidationError} If the header cannot be read
+ *
+ * @example
+ * ```typescript
+ * const { width, height } = validateDecodeLimits(upload)
+ * const image = sharp(upload)
+ * ```
+ */
+export function validateDecodeLimits(data: Uint8Array): ImageHeaderMetadata {
+	const metadata = readImageMetadata(data)
+	const { format, width, height } = metadata
+	const pixels = width * height
+
+	if (
+		width > SECURITY_LIMITS.MAX_WIDTH ||
+		height > SECURITY_LIMITS.MAX_HEIGHT ||
+		pixels > SECURITY_LIMITS.MAX_PIXELS
+	) {
+		throw new ImageSecurityError(
+			`Image declares ${width}x${height} (${pixels} pixels), exceeding the limits of ${SECURITY_LIMITS.MAX_WIDTH}x${SECURITY_LIMITS.MAX_HEIGHT} and ${SECURITY_LIMITS.MAX_PIXELS} pixels`,
+			{
+				format,
+				width,
+				height,
+				pixels,
+				size: data.byteLength,
+				reason: 'decompression_bomb',
+			},
+		)
+	}
+
+	return metadata
+}
+
+/**
+ * Validate an image file from its content alone
+ * Format, displayed dimensions and size are read from the data instead of
+ * being passed by the caller
+ * @throws {ImageValidationError} If the header cannot be read
+ *
+ * @example
+ * ```typescript
+ * const result = validateImageData(await file.bytes(), {
+ *   maxWidth: 4000,
+ *   allowedFormats: ['jpeg', 'png', 'webp'],
+ * })
+ * ```
+ */
+export function validateImageData(
+	data: Uint8Array,
+	config: ImageValidationConfig,
+): ImageValidationResult {
+	const metadata = readImageMetadata(data)
+	const { width, height } = getDisplayDimensions(metadata)
+	const errors: string[] = []
+
+	// Detected formats are never `jpg`, which allows the same files as `jpeg`
+	const allowedFormats = config.allowedFormats ?? []
+	if (
+		allowedFormats.length > 0 &&
+		!allowedFormats.some(
+			format => (format === 'jpg' ? 'jpeg' : format) === metadata.format,
+		)
+	) {
+		errors.push(
+			`Format "${metadata.format}" is not allowed. Allowed formats: ${allowedFormats.join(', ')}`,
+		)
+	}
+
+	errors.push(
+		...validateImageDimensions(width, height, config).errors,
+		...validateImageSize(data.byteLength, config).errors,
+	)
+
+	return {
+		valid: errors.length === 0,
+		errors,
+	}
+}
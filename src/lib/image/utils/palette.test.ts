@@ -0,0 +1,159 @@
+/**
+ * Tests for palette extraction
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ImageValidationError } from '../errors.js'
+import { calculateDominantColor } from './lqip.js'
+import { extractPalette } from './palette.js'
+
+type RGBA = [number, number, number, number]
+
+/**
+ * Build RGBA data from [color, pixel count] runs
+ */
+const createPixels = (...runs: Array<[RGBA, number]>): Uint8ClampedArray => {
+	const pixels = new Uint8ClampedArray(
+		runs.reduce((total, [, count]) => total + count, 0) * 4,
+	)
+	let offset = 0
+	for (const [color, count] of runs) {
+		for (let i = 0; i < count; i++, offset += 4) {
+			pixels.set(color, offset)
+		}
+	}
+	return pixels
+}
+
+const RED: RGBA = [220, 30, 40, 255]
+const GREEN: RGBA = [20, 200, 60, 255]
+const BLUE: RGBA = [30, 40, 210, 255]
+const WHITE: RGBA = [250, 250, 250, 255]
+
+describe('extractPalette', () => {
+	it('should return swatches sorted by population', () => {
+		const palette = extractPalette(
+			createPixels([GREEN, 200], [RED, 600], [BLUE, 100]),
+			{ colorCount: 3 },
+		)
+
+		expect(palette.map(({ r, g, b }) => [r, g, b])).toEqual([
+			[220, 30, 40],
+			[20, 200, 60],
+			[30, 40, 210],
+		])
+		expect(palette.map(swatch => swatch.population)).toEqual([
+			600, 200, 100,
+		])
+	})
+
+	it('should report hex colors and proportions', () => {
+		const [swatch] = extractPalette(createPixels([RED, 75], [BLUE, 25]), {
+			colorCount: 2,
+		})
+
+		expect(swatch).toMatchObject({ hex: '#dc1e28', proportion: 0.75 })
+	})
+
+	it('should skip transparent pixels', () => {
+		const palette = extractPalette(
+			createPixels([[255, 0, 0, 0], 1000], [BLUE, 10]),
+		)
+
+		expect(palette).toHaveLength(1)
+		expect(palette[0]).toMatchObject({
+			r: 30,
+			g: 40,
+			b: 210,
+			population: 10,
+			proportion: 1,
+		})
+	})
+
+	it('should average similar colors into one swatch', () => {
+		const palette = extractPalette(
+			createPixels([[100, 100, 100, 255], 10], [[102, 100, 98, 255], 10]),
+			{ colorCount: 1 },
+		)
+
+		expect(palette).toEqual([
+			expect.objectContaining({ r: 101, g: 100, b: 99, population: 20 }),
+		])
+	})
+
+	it('should return fewer swatches than requested for simple images', () => {
+		expect(
+			extractPalette(createPixels([RED, 50]), { colorCount: 8 }),
+		).toHaveLength(1)
+	})
+
+	it('should keep small but distinct color regions', () => {
+		const palette = extractPalette(
+			createPixels(
+				[[200, 200, 200, 255], 500],
+				[[190, 190, 190, 255], 500],
+				[[210, 210, 210, 255], 500],
+				[[0, 0, 255, 255], 20],
+			),
+			{ colorCount: 4 },
+		)
+
+		expect(palette.some(swatch => swatch.b > 200 && swatch.r < 50)).toBe(
+			true,
+		)
+	})
+
+	it('should pick accessible text colors for each swatch', () => {
+		const [white, blue] = extractPalette(
+			createPixels([WHITE, 60], [BLUE, 40]),
+			{ colorCount: 2 },
+		)
+
+		expect(white?.text).toMatchObject({
+			hex: '#000000',
+			isAccessible: true,
+		})
+		expect(blue?.text).toMatchObject({ hex: '#ffffff', isAccessible: true })
+	})
+
+	it('should use custom text color candidates', () => {
+		const [swatch] = extractPalette(createPixels([WHITE, 10]), {
+			textColors: [
+				{ r: 200, g: 200, b: 200 },
+				{ r: 40, g: 40, b: 80 },
+			],
+		})
+
+		expect(swatch?.text.hex).toBe('#282850')
+	})
+
+	it('should return an empty palette for fully transparent images', () => {
+		expect(extractPalette(createPixels([[0, 0, 0, 0], 16]))).toEqual([])
+	})
+
+	it('should reject invalid input', () => {
+		expect(() => extractPalette(new Uint8Array(6))).toThrow(
+			ImageValidationError,
+		)
+		expect(() =>
+			extractPalette(createPixels([RED, 1]), { colorCount: 0 }),
+		).toThrow(ImageValidationError)
+	})
+})
+
+describe('calculateDominantColor', () => {
+	it('should return the most common color rather than the average', () => {
+		expect(
+			calculateDominantColor(createPixels([RED, 60], [BLUE, 40])),
+		).toEqual({ r: 220, g: 30, b: 40 })
+	})
+
+	it('should ignore transparent pixels', () => {
+		expect(
+			calculateDominantColor(
+				createPixels([[0, 0, 0, 0], 90], [GREEN, 10]),
+			),
+		).toEqual({ r: 20, g: 200, b: 60 })
+	})
+})
@@ -0,0 +1,301 @@
+/**
+ * Palette extraction with median cut quantization
+ * Finds the dominant colors of an image, ignoring transparent pixels
+ */
+
+import { ImageValidationError } from '../errors.js'
+import type { AccessibleTextColor, RGBColor } from './color.js'
+import {
+	DEFAULT_TEXT_COLORS,
+	getAccessibleTextColor,
+	rgbToHex,
+} from './color.js'
+
+/**
+ * Palette extraction options
+ */
+export interface PaletteOptions {
+	/** Maximum number of swatches (default: 5) */
+	colorCount?: number
+	/** Pixels with a lower alpha are skipped (default: 125) */
+	alphaThreshold?: number
+	/** Text color candidates for each swatch (default: white and black) */
+	textColors?: readonly RGBColor[]
+}
+
+/**
+ * Dominant color of an image
+ */
+export interface PaletteSwatch extends RGBColor {
+	/** Color as #rrggbb */
+	hex: string
+	/** Number of pixels in this swatch */
+	population: number
+	/** Share of the opaque pixels in this swatch, from 0 to 1 */
+	proportion: number
+	/** Most readable text color over this swatch */
+	text: AccessibleTextColor
+}
+
+/**
+ * Bits kept per channel when building the color histogram
+ */
+const SIGNIFICANT_BITS = 5
+const SHIFT = 8 - SIGNIFICANT_BITS
+const HISTOGRAM_SIZE = 1 << (3 * SIGNIFICANT_BITS)
+
+/**
+ * Share of the splits made by population alone, before weighting by volume
+ * so that small but distinct color regions still get a swatch
+ */
+const POPULATION_SPLIT_RATIO = 0.75
+
+/**
+ * Histogram of quantized colors, with channel sums for exact averages
+ */
+interface ColorHistogram {
+	counts: Uint32Array
+	sums: Float64Array
+}
+
+/**
+ * Box of quantized colors, bounds inclusive
+ */
+interface ColorBox {
+	min: [number, number, number]
+	max: [number, number, number]
+	population: number
+}
+
+const histogramIndex = (r: number, g: number, b: number): number =>
+	(r << (2 * SIGNIFICANT_BITS)) | (g << SIGNIFICANT_BITS) | b
+
+function buildHistogram(
+	pixels: ArrayLike<number>,
+	alphaThreshold: number,
+): ColorHistogram {
+	const counts = new Uint32Array(HISTOGRAM_SIZE)
+	const sums = new Float64Array(HISTOGRAM_SIZE * 3)
+
+	for (let i = 0; i < pixels.length; i += 4) {
+		if ((pixels[i + 3] ?? 0) < alphaThreshold) continue
+
+		const r = pixels[i] ?? 0
+		const g = pixels[i + 1] ?? 0
+		const b = pixels[i + 2] ?? 0
+		const index = histogramIndex(r >> SHIFT, g >> SHIFT, b >> SHIFT)
+		counts[index] = (counts[index] ?? 0) + 1
+		sums[index * 3] = (sums[index * 3] ?? 0) + r
+		sums[index * 3 + 1] = (sums[index * 3 + 1] ?? 0) + g
+		sums[index * 3 + 2] = (sums[index * 3 + 2] ?? 0) + b
+	}
+
+	return { counts, sums }
+}
+
+/**
+ * Visit the histogram bins of a box
+ */
+function forEachBin(
+	box: Pick<ColorBox, 'min' | 'max'>,
+	visit: (index: number, r: number, g: number, b: number) => void,
+): void {
+	for (let r = box.min[0]; r <= box.max[0]; r++) {
+		for (let g = box.min[1]; g <= box.max[1]; g++) {
+			for (let b = box.min[2]; b <= box.max[2]; b++) {
+				visit(histogramIndex(r, g, b), r, g, b)
+			}
+		}
+	}
+}
+
+/**
+ * Create a box shrunk to the colors it contains
+ * Returns undefined for empty boxes
+ */
+function createBox(
+	histogram: ColorHistogram,
+	bounds: Pick<ColorBox, 'min' | 'max'>,
+): ColorBox | undefined {
+	const min: [number, number, number] = [Infinity, Infinity, Infinity]
+	const max: [number, number, number] = [-1, -1, -1]
+	let population = 0
+
+	forEachBin(bounds, (index, r, g, b) => {
+		const count = histogram.counts[index] ?? 0
+		if (!count) return
+
+		population += count
+		const channels = [r, g, b]
+		for (let channel = 0; channel < 3; channel++) {
+			const value = channels[channel] ?? 0
+			min[channel] = Math.min(min[channel] ?? value, value)
+			max[channel] = Math.max(max[channel] ?? value, value)
+		}
+	})
+
+	return population > 0 ? { min, max, population } : undefined
+}
+
+const boxVolume = ({ min, max }: ColorBox): number =>
+	(max[0] - min[0] + 1) * (max[1] - min[1] + 1) * (max[2] - min[2] + 1)
+
+/**
+ * Split a box at the population median of its widest channel
+ * Returns undefined if the box holds a single quantized color
+ */
+function splitBox(
+	histogram: ColorHistogram,
+	box: ColorBox,
+): [ColorBox, ColorBox] | undefined {
+	const ranges = [0, 1, 2].map(
+		channel => (box.max[channel] ?? 0) - (box.min[channel] ?? 0),
+	)
+	const widest = ranges.indexOf(Math.max(...ranges))
+	if ((ranges[widest] ?? 0) === 0) return undefined
+
+	const start = box.min[widest] ?? 0
+	const end = box.max[widest] ?? 0
+
+	// Population of each slice along the widest channel
+	const slices = new Array<number>(end - start + 1).fill(0)
+	forEachBin(box, (index, ...channels) => {
+		const slice = (channels[widest] ?? start) - start
+		slices[slice] = (slices[slice] ?? 0) + (histogram.counts[index] ?? 0)
+	})
+
+	// Cut after the slice reaching half the population, keeping both halves
+	let cut = start
+	let cumulative = 0
+	for (let value = start; value < end; value++) {
+		cumulative += slices[value - start] ?? 0
+		cut = value
+		if (cumulative >= box.population / 2) break
+	}
+
+	const lowMax: [number, number, number] = [...box.max]
+	const highMin: [number, number, number] = [...box.min]
+	lowMax[widest] = cut
+	highMin[widest] = cut + 1
+
+	const low = createBox(histogram, { min: box.min, max: lowMax })
+	const high = createBox(histogram, { min: highMin, max: box.max })
+	return low && high ? [low, high] : undefined
+}
+
+/**
+ * Split boxes until there are `target` of them or none can be split
+ */
+function quantize(
+	histogram: ColorHistogram,
+	boxes: ColorBox[],
+	target: number,
+	priority: (box: ColorBox) => number,
+): void {
+	const unsplittable = new Set<ColorBox>()
+
+	while (boxes.length < target) {
+		let candidate: ColorBox | undefined
+		for (const box of boxes) {
+			if (
+				!unsplittable.has(box) &&
+				(!candidate || priority(box) > priority(candidate))
+			) {
+				candidate = box
+			}
+		}
+		if (!candidate) return
+
+		const halves = splitBox(histogram, candidate)
+		if (!halves) {
+			unsplittable.add(candidate)
+			continue
+		}
+		boxes.splice(boxes.indexOf(candidate), 1, ...halves)
+	}
+}
+
+/**
+ * Extract the dominant colors of an image with median cut
+ * Swatches are sorted by population, most common first, and come with the
+ * most readable text color over them
+ *
+ * @param pixels - RGBA pixel data, e.g. ImageData.data or Sharp raw output
+ * @throws {ImageValidationError} If the input or options are invalid
+ *
+ * @example
+ * ```typescript
+ * const { data } = await sharp(file).resize(64, 64).ensureAlpha().raw()
+ *   .toBuffer({ resolveWithObject: true })
+ * const [main] = extractPalette(data, { colorCount: 3 })
+ * card.style.background = main.hex
+ * card.style.color = main.text.hex
+ * ```
+ */
+export function extractPalette(
+	pixels: ArrayLike<number>,
+	options: PaletteOptions = {},
+): PaletteSwatch[] {
+	const {
+		colorCount = 5,
+		alphaThreshold = 125,
+		textColors = DEFAULT_TEXT_COLORS,
+	} = options
+
+	if (pixels.length % 4 !== 0) {
+		throw new ImageValidationError(
+			`RGBA data length ${pixels.length} is not a multiple of 4`,
+			{ length: pixels.length, reason: 'invalid_pixels' },
+		)
+	}
+	if (!Number.isInteger(colorCount) || colorCount < 1) {
+		throw new ImageValidationError(
+			`Palette color count must be a positive integer, got ${colorCount}`,
+			{ colorCount, reason: 'invalid_color_count' },
+		)
+	}
+
+	const histogram = buildHistogram(pixels, alphaThreshold)
+	const limit = (1 << SIGNIFICANT_BITS) - 1
+	const initial = createBox(histogram, {
+		min: [0, 0, 0],
+		max: [limit, limit, limit],
+	})
+	if (!initial) return []
+
+	const boxes = [initial]
+	quantize(
+		histogram,
+		boxes,
+		Math.ceil(colorCount * POPULATION_SPLIT_RATIO),
+		box => box.population,
+	)
+	quantize(
+		histogram,
+		boxes,
+		colorCount,
+		box => box.population * boxVolume(box),
+	)
+
+	return boxes
+		.map(box => {
+			const color: RGBColor = { r: 0, g: 0, b: 0 }
+			forEachBin(box, index => {
+				color.r += histogram.sums[index * 3] ?? 0
+				color.g += histogram.sums[index * 3 + 1] ?? 0
+				color.b += histogram.sums[index * 3 + 2] ?? 0
+			})
+			color.r = Math.round(color.r / box.population)
+			color.g = Math.round(color.g / box.population)
+			color.b = Math.round(color.b / box.population)
+
+			return {
+				...color,
+				hex: rgbToHex(color),
+				population: box.population,
+				proportion: box.population / initial.population,
+				text: getAccessibleTextColor(color, textColors),
+			}
+		})
+		.sort((a, b) => b.population - a.population)
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for hash placeholder rendering
+ */
+
+import sharp from 'sharp'
+import { describe, expect, it } from 'vitest'
+
+import { ImageValidationError } from '../errors.js'
+import { decodePlaceholder, placeholderToDataURI } from './placeholder.js'
+import { encodePNG, rgbaToDataURI } from './rgba.js'
+import { encodeThumbHash } from './thumbhash.js'
+
+const BLURHASH = 'LEHV6nWB2yk8pyo0adR*.7kCMdnj'
+
+describe('Placeholders', () => {
+	describe('decodePlaceholder', () => {
+		it('should decode BlurHash placeholders at 32x32 by default', () => {
+			const image = decodePlaceholder({
+				type: 'blurhash',
+				hash: BLURHASH,
+			})
+
+			expect(image).toMatchObject({ width: 32, height: 32 })
+		})
+
+		it('should decode BlurHash placeholders at the requested size', () => {
+			const image = decodePlaceholder({
+				type: 'blurhash',
+				hash: BLURHASH,
+				width: 16,
+				height: 9,
+			})
+
+			expect(image).toMatchObject({ width: 16, height: 9 })
+		})
+
+		it('should decode ThumbHash placeholders', () => {
+			const hash = encodeThumbHash(new Uint8Array(20 * 10 * 4), 20, 10)
+			const image = decodePlaceholder({ type: 'thumbhash', hash })
+
+			expect(image.width).toBe(32)
+			expect(image.height).toBeLessThan(32)
+		})
+	})
+
+	describe('placeholderToDataURI', () => {
+		it('should render a PNG data URI', async () => {
+			const uri = placeholderToDataURI({
+				type: 'blurhash',
+				hash: BLURHASH,
+			})
+
+			expect(uri).toMatch(/^data:image\/png;base64,/)
+			const metadata = await sharp(
+				Buffer.from(uri.split(',')[1] ?? '', 'base64'),
+			).metadata()
+			expect(metadata).toMatchObject({
+				format: 'png',
+				width: 32,
+				height: 32,
+				channels: 4,
+			})
+		})
+
+		it('should reject malformed hashes', () => {
+			expect(() =>
+				placeholderToDataURI({ type: 'blurhash', hash: 'nope' }),
+			).toThrow(ImageValidationError)
+		})
+	})
+
+	describe('encodePNG', () => {
+		it('should encode pixels losslessly', async () => {
+			const pixels = new Uint8ClampedArray(300 * 80 * 4).map(
+				(_, index) => (index * 31) % 256,
+			)
+
+			const { data, info } = await sharp(encodePNG(pixels, 300, 80))
+				.raw()
+				.toBuffer({ resolveWithObject: true })
+
+			expect(info).toMatchObject({ width: 300, height: 80, channels: 4 })
+			expect(data.equals(Buffer.from(pixels))).toBe(true)
+		})
+
+		it('should reject pixel data that does not match the dimensions', () => {
+			expect(() => rgbaToDataURI(new Uint8Array(4), 2, 2)).toThrow(
+				ImageValidationError,
+			)
+		})
+	})
+})
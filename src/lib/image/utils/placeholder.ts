@@ -0,0 +1,49 @@
+/**
+ * Hash placeholder rendering
+ * Decodes BlurHash and ThumbHash placeholders for display
+ */
+
+import type { ImagePlaceholder } from '../types.js'
+import { decodeBlurHash } from './blurhash.js'
+import type { RGBAImage } from './rgba.js'
+import { rgbaToDataURI } from './rgba.js'
+import { decodeThumbHash } from './thumbhash.js'
+
+/**
+ * Default decoded size of BlurHash placeholders
+ */
+const DEFAULT_BLURHASH_SIZE = 32
+
+/**
+ * Decode a hash placeholder to RGBA pixels
+ * @throws {ImageValidationError} If the hash is malformed or the BlurHash
+ * size exceeds 64x64
+ */
+export function decodePlaceholder(placeholder: ImagePlaceholder): RGBAImage {
+	if (placeholder.type === 'thumbhash') {
+		return decodeThumbHash(placeholder.hash)
+	}
+
+	return decodeBlurHash(
+		placeholder.hash,
+		placeholder.width ?? DEFAULT_BLURHASH_SIZE,
+		placeholder.height ?? DEFAULT_BLURHASH_SIZE,
+		placeholder.punch,
+	)
+}
+
+/**
+ * Decode a hash placeholder to a PNG data URI, usable as an img src
+ * @throws {ImageValidationError} If the hash is malformed or the BlurHash
+ * size exceeds 64x64
+ *
+ * @example
+ * ```typescript
+ * placeholderToDataURI({ type: 'thumbhash', hash: '1QcSHQRnh493V4dIh4eXh1h4kJUI' })
+ * // 'data:image/png;base64,iVBORw0KGgo...'
+ * ```
+ */
+export function placeholderToDataURI(placeholder: ImagePlaceholder): string {
+	const { width, height, pixels } = decodePlaceholder(placeholder)
+	return rgbaToDataURI(pixels, width, height)
+}
@@ -6,6 +6,7 @@ import { describe, expect, it } from 'vitest'
 
 import type { OptimizedImage } from '../types.js'
 import {
+	buildFormatSources,
 	buildPictureSources,
 	COMMON_SIZES,
 	calculateImageDimensions,
@@ -561,6 +562,56 @@ describe('Responsive Image Utilities', () => {
 		})
 	})
 
+	describe('buildFormatSources', () => {
+		const image = (width: number, format: OptimizedImage['format']) => ({
+			src: `/hero-${width}.${format}`,
+			width,
+			height: width / 2,
+			format,
+		})
+
+		it('should group images by format in preference order', () => {
+			expect(
+				buildFormatSources([
+					image(640, 'jpeg'),
+					image(640, 'webp'),
+					image(1280, 'jpeg'),
+					image(640, 'avif'),
+					image(1280, 'avif'),
+				]),
+			).toEqual([
+				{
+					type: 'image/avif',
+					srcSet: '/hero-640.avif 640w, /hero-1280.avif 1280w',
+				},
+				{ type: 'image/webp', srcSet: '/hero-640.webp 640w' },
+				{
+					type: 'image/jpeg',
+					srcSet: '/hero-640.jpeg 640w, /hero-1280.jpeg 1280w',
+				},
+			])
+		})
+
+		it('should append unlisted formats and merge jpg with jpeg', () => {
+			expect(
+				buildFormatSources(
+					[image(640, 'png'), image(640, 'jpg'), image(1280, 'jpeg')],
+					['avif', 'jpeg'],
+				),
+			).toEqual([
+				{
+					type: 'image/jpeg',
+					srcSet: '/hero-640.jpg 640w, /hero-1280.jpeg 1280w',
+				},
+				{ type: 'image/png', srcSet: '/hero-640.png 640w' },
+			])
+		})
+
+		it('should return no sources without images', () => {
+			expect(buildFormatSources([])).toEqual([])
+		})
+	})
+
 	describe('COMMON_SIZES patterns', () => {
 		it('should have fullWidth pattern', () => {
 			expect(COMMON_SIZES.fullWidth).toBe('100vw')
@@ -3,7 +3,12 @@
  * Based on 2025 best practices for responsive images
  */
 
-import type { OptimizedImage, ResponsiveImageConfig } from '../types.js'
+import type {
+	ImageFormat,
+	OptimizedImage,
+	ResponsiveImageConfig,
+} from '../types.js'
+import { getFormatMimeType } from './format.js'
 
 /**
  * Standard responsive breakpoints (2025 best practices)
@@ -193,3 +198,46 @@ export function buildPictureSources(
 		type: images[0]?.format ? `image/${images[0].format}` : undefined,
 	}))
 }
+
+/**
+ * Formats emitted as picture sources, most efficient first
+ */
+export const DEFAULT_SOURCE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg']
+
+/**
+ * Picture source for one image format
+ */
+export interface FormatSource {
+	type: string
+	srcSet: string
+}
+
+/**
+ * Build one picture source per image format, so browsers pick the first
+ * format they support
+ * Formats are ordered as in `formats`, then in order of appearance
+ *
+ * @example
+ * ```typescript
+ * buildFormatSources([avif640, avif1280, jpeg640, jpeg1280])
+ * // [{ type: 'image/avif', srcSet: '... 640w, ... 1280w' },
+ * //  { type: 'image/jpeg', srcSet: '... 640w, ... 1280w' }]
+ * ```
+ */
+export function buildFormatSources(
+	images: OptimizedImage[],
+	formats: ImageFormat[] = DEFAULT_SOURCE_FORMATS,
+): FormatSource[] {
+	const groups = new Map<string, OptimizedImage[]>(
+		formats.map(format => [getFormatMimeType(format), []]),
+	)
+
+	for (const image of images) {
+		const type = getFormatMimeType(image.format)
+		groups.set(type, [...(groups.get(type) ?? []), image])
+	}
+
+	return Array.from(groups)
+		.filter(([, group]) => group.length > 0)
+		.map(([type, group]) => ({ type, srcSet: generateSrcSet(group) }))
+}
@@ -0,0 +1,199 @@
+/**
+ * Raw RGBA pixel helpers
+ * Turns decoded placeholders into data URIs or canvas content
+ */
+
+import { ImageProcessingError, ImageValidationError } from '../errors.js'
+
+/**
+ * Decoded image as 8-bit RGBA pixels, row by row
+ */
+export interface RGBAImage {
+	width: number
+	height: number
+	pixels: Uint8ClampedArray
+}
+
+/**
+ * Check image dimensions
+ * @throws {ImageValidationError} If a dimension is not a positive integer
+ */
+export function validateRGBADimensions(width: number, height: number): void {
+	if (
+		!Number.isInteger(width) ||
+		!Number.isInteger(height) ||
+		width < 1 ||
+		height < 1
+	) {
+		throw new ImageValidationError(
+			`Invalid image dimensions ${width}x${height}`,
+			{ width, height, reason: 'invalid_dimensions' },
+		)
+	}
+}
+
+/**
+ * Check RGBA pixel data against its dimensions
+ * @throws {ImageValidationError} If the dimensions or data length are invalid
+ */
+export function validateRGBA(
+	pixels: ArrayLike<number>,
+	width: number,
+	height: number,
+): void {
+	validateRGBADimensions(width, height)
+
+	if (pixels.length !== width * height * 4) {
+		throw new ImageValidationError(
+			`Expected ${width * height * 4} bytes of RGBA data, got ${pixels.length}`,
+			{ width, height, length: pixels.length, reason: 'invalid_pixels' },
+		)
+	}
+}
+
+/**
+ * Largest payload of an uncompressed deflate block
+ */
+const MAX_STORED_BLOCK = 65535
+
+let crcTable: Uint32Array | undefined
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256)
+		for (let n = 0; n < 256; n++) {
+			let c = n
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+			}
+			crcTable[n] = c >>> 0
+		}
+	}
+
+	let crc = 0xffffffff
+	for (let i = start; i < end; i++) {
+		crc = (crcTable[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8)
+	}
+	return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Encode RGBA pixels as an uncompressed PNG
+ * Placeholders are tiny, so skipping compression keeps this dependency-free
+ */
+export function encodePNG(
+	pixels: ArrayLike<number>,
+	width: number,
+	height: number,
+): Uint8Array {
+	validateRGBA(pixels, width, height)
+
+	// Each row starts with filter type 0 (none)
+	const row = width * 4 + 1
+	const raw = new Uint8Array(row * height)
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width * 4; x++) {
+			raw[y * row + 1 + x] = pixels[y * width * 4 + x] ?? 0
+		}
+	}
+
+	// zlib stream of stored blocks followed by the Adler-32 checksum
+	const blocks = Math.max(1, Math.ceil(raw.length / MAX_STORED_BLOCK))
+	const zlib = new Uint8Array(2 + blocks * 5 + raw.length + 4)
+	const zlibView = new DataView(zlib.buffer)
+	zlib.set([0x78, 0x01])
+	let offset = 2
+	for (let block = 0; block < blocks; block++) {
+		const start = block * MAX_STORED_BLOCK
+		const length = Math.min(MAX_STORED_BLOCK, raw.length - start)
+		zlib[offset] = block === blocks - 1 ? 1 : 0
+		zlibView.setUint16(offset + 1, length, true)
+		zlibView.setUint16(offset + 3, ~length & 0xffff, true)
+		zlib.set(raw.subarray(start, start + length), offset + 5)
+		offset += 5 + length
+	}
+	let a = 1
+	let b = 0
+	for (const byte of raw) {
+		a = (a + byte) % 65521
+		b = (b + a) % 65521
+	}
+	zlibView.setUint32(offset, ((b << 16) | a) >>> 0)
+
+	const header = new Uint8Array(13)
+	const headerView = new DataView(header.buffer)
+	headerView.setUint32(0, width)
+	headerView.setUint32(4, height)
+	header.set([8, 6, 0, 0, 0], 8) // 8-bit RGBA, no interlacing
+
+	const chunks: Array<[string, Uint8Array]> = [
+		['IHDR', header],
+		['IDAT', zlib],
+		['IEND', new Uint8Array(0)],
+	]
+	const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+	const png = new Uint8Array(
+		signature.length +
+			chunks.reduce((size, [, data]) => size + 12 + data.length, 0),
+	)
+	const pngView = new DataView(png.buffer)
+	png.set(signature)
+	offset = signature.length
+	for (const [type, data] of chunks) {
+		pngView.setUint32(offset, data.length)
+		for (let i = 0; i < 4; i++) {
+			png[offset + 4 + i] = type.charCodeAt(i)
+		}
+		png.set(data, offset + 8)
+		pngView.setUint32(
+			offset + 8 + data.length,
+			crc32(png, offset + 4, offset + 8 + data.length),
+		)
+		offset += 12 + data.length
+	}
+
+	return png
+}
+
+/**
+ * Encode RGBA pixels as a PNG data URI
+ * Works in browsers and Node without a canvas
+ */
+export function rgbaToDataURI(
+	pixels: ArrayLike<number>,
+	width: number,
+	height: number,
+): string {
+	const png = encodePNG(pixels, width, height)
+
+	let binary = ''
+	for (let i = 0; i < png.length; i += 0x8000) {
+		binary += String.fromCharCode(...png.subarray(i, i + 0x8000))
+	}
+	return `data:image/png;base64,${btoa(binary)}`
+}
+
+/**
+ * Draw RGBA pixels onto a canvas, resizing it to the image
+ * @throws {ImageProcessingError} If the canvas has no 2D context
+ */
+export function drawRGBA(
+	canvas: HTMLCanvasElement,
+	{ width, height, pixels }: RGBAImage,
+): HTMLCanvasElement {
+	validateRGBA(pixels, width, height)
+
+	const context = canvas.getContext('2d')
+	if (!context) {
+		throw new ImageProcessingError('Canvas 2D context is not available', {
+			operation: 'drawRGBA',
+		})
+	}
+
+	canvas.width = width
+	canvas.height = height
+	const imageData = context.createImageData(width, height)
+	imageData.data.set(pixels)
+	context.putImageData(imageData, 0, 0)
+	return canvas
+}
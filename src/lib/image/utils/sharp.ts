@@ -0,0 +1,134 @@
+/**
+ * Sharp loading helpers for server-side image processing
+ * Sharp and Node modules are imported lazily so browser bundles stay clean
+ */
+
+import type sharp from 'sharp'
+
+import { ImageConfigError, ImageValidationError } from '../errors.js'
+import type { ImagePosition } from '../types.js'
+import { SECURITY_LIMITS } from '../types.js'
+import { validateDecodeLimits } from './metadata.js'
+
+/**
+ * Sharp module factory
+ */
+export type SharpFactory = typeof sharp
+
+/**
+ * Image that can be decoded locally: a file path or encoded bytes
+ */
+export type LocalImageSource = Buffer | string
+
+/**
+ * Sharp resize positions, also valid CSS object-position values
+ */
+export const SHARP_POSITIONS: Record<ImagePosition, string> = {
+	center: 'center',
+	top: 'top',
+	right: 'right',
+	bottom: 'bottom',
+	left: 'left',
+	'top-left': 'left top',
+	'top-right': 'right top',
+	'bottom-left': 'left bottom',
+	'bottom-right': 'right bottom',
+	entropy: 'entropy',
+	attention: 'attention',
+}
+
+/**
+ * Leading bytes of a file read to check its declared dimensions
+ * Headers sit at the start, after metadata such as EXIF and ICC segments
+ */
+const HEADER_READ_LENGTH = 128 * 1024
+
+/**
+ * Load Sharp from the optional peer dependency
+ * @throws {ImageConfigError} If sharp is not installed
+ */
+export async function loadSharp(): Promise<SharpFactory> {
+	try {
+		const module = await import('sharp')
+		return module.default
+	} catch (error) {
+		throw new ImageConfigError(
+			'Image processing requires the optional "sharp" peer dependency',
+			{ cause: error },
+		)
+	}
+}
+
+/**
+ * Reject inputs above the maximum file size
+ * @throws {ImageValidationError} If the size exceeds the limit
+ */
+function validateFileSize(size: number): void {
+	if (size > SECURITY_LIMITS.MAX_FILE_SIZE) {
+		throw new ImageValidationError(
+			`Image size ${size} bytes exceeds maximum allowed: ${SECURITY_LIMITS.MAX_FILE_SIZE} bytes`,
+			{
+				size,
+				maxFileSize: SECURITY_LIMITS.MAX_FILE_SIZE,
+				reason: 'file_size_exceeded',
+			},
+		)
+	}
+}
+
+/**
+ * Reject inputs declaring more pixels than SECURITY_LIMITS allow
+ * Headers that cannot be read are left to Sharp, which still caps decoding
+ * at SECURITY_LIMITS.MAX_PIXELS
+ * @throws {ImageSecurityError} If the input is a decompression bomb
+ */
+function validateHeader(header: Uint8Array): void {
+	try {
+		validateDecodeLimits(header)
+	} catch (error) {
+		if (!(error instanceof ImageValidationError)) throw error
+	}
+}
+
+/**
+ * Create a Sharp pipeline for a local source
+ * Declared dimensions are checked before decoding, which is capped at
+ * SECURITY_LIMITS.MAX_PIXELS
+ * @throws {ImageValidationError} If the source is remote or too large
+ * @throws {ImageSecurityError} If the source is a decompression bomb
+ */
+export async function openImage(
+	factory: SharpFactory,
+	source: LocalImageSource,
+): Promise<sharp.Sharp> {
+	const sharpOptions = { limitInputPixels: SECURITY_LIMITS.MAX_PIXELS }
+
+	if (Buffer.isBuffer(source)) {
+		validateFileSize(source.length)
+		validateHeader(source)
+		return factory(source, sharpOptions)
+	}
+
+	if (/^(https?|data):/i.test(source)) {
+		throw new ImageValidationError(
+			'Only local files and Buffers can be processed',
+			{ source, reason: 'remote_source' },
+		)
+	}
+
+	const { open } = await import('node:fs/promises')
+	const file = await open(source)
+	try {
+		const { size } = await file.stat()
+		validateFileSize(size)
+
+		const { buffer, bytesRead } = await file.read({
+			buffer: Buffer.alloc(Math.min(size, HEADER_READ_LENGTH)),
+			position: 0,
+		})
+		validateHeader(buffer.subarray(0, bytesRead))
+	} finally {
+		await file.close()
+	}
+	return factory(source, sharpOptions)
+}
@@ -0,0 +1,278 @@
+/**
+ * Tests for CDN URL signing and verification
+ */
+
+import { createHash, createHmac } from 'node:crypto'
+
+import { describe, expect, it } from 'vitest'
+
+import { ImageConfigError } from '../errors.js'
+import {
+	md5,
+	signCloudflareURL,
+	signCloudinaryURL,
+	signImgixURL,
+	signImgproxyURL,
+	verifySignedURL,
+} from './signing.js'
+
+const IMGPROXY_KEY =
+	'943b421c9eb07c830af81030552c86009268de4e532ba2ee2eab8247c6da0881'
+const IMGPROXY_SALT =
+	'520f986b998545b4785e0defbc4f3c1203f22de2374a3d53cb7a7fe9fea309c5'
+
+const base64URL = (buffer: Buffer): string =>
+	buffer
+		.toString('base64')
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '')
+
+describe('md5', () => {
+	it('should match node:crypto', () => {
+		for (const input of [
+			'',
+			'abc',
+			'a'.repeat(55),
+			'a'.repeat(56),
+			'a'.repeat(64),
+			'é'.repeat(100),
+		]) {
+			expect(md5(input)).toBe(
+				createHash('md5').update(input).digest('hex'),
+			)
+		}
+	})
+})
+
+describe('signImgixURL', () => {
+	it('should append the MD5 of the token, path and query', () => {
+		const url = 'https://demo.imgix.net/photos/a.jpg?fm=webp&w=400'
+
+		expect(signImgixURL(url, 'token')).toBe(
+			`${url}&s=${md5('token/photos/a.jpg?fm=webp&w=400')}`,
+		)
+		expect(signImgixURL('https://demo.imgix.net/a.jpg', 'token')).toBe(
+			`https://demo.imgix.net/a.jpg?s=${md5('token/a.jpg')}`,
+		)
+	})
+})
+
+describe('signCloudinaryURL', () => {
+	it('should insert the signature after the delivery type', async () => {
+		const signature = base64URL(
+			createHash('sha1')
+				.update('f_webp,q_80/photos/a.jpgsecret')
+				.digest(),
+		).slice(0, 8)
+
+		await expect(
+			signCloudinaryURL(
+				'https://res.cloudinary.com/demo/image/upload/f_webp,q_80/photos%2Fa.jpg',
+				'secret',
+			),
+		).resolves.toBe(
+			`https://res.cloudinary.com/demo/image/upload/s--${signature}--/f_webp,q_80/photos%2Fa.jpg`,
+		)
+	})
+
+	it('should reject other URLs', async () => {
+		await expect(
+			signCloudinaryURL('https://example.com/a.jpg', 'secret'),
+		).rejects.toThrow(ImageConfigError)
+	})
+})
+
+describe('signImgproxyURL', () => {
+	it('should replace the first segment with the path signature', async () => {
+		const path = '/rs:fill:300:400:0/g:sm/plain/local:///a.jpg'
+		const signature = base64URL(
+			createHmac('sha256', Buffer.from(IMGPROXY_KEY, 'hex'))
+				.update(Buffer.from(IMGPROXY_SALT, 'hex'))
+				.update(path)
+				.digest(),
+		)
+
+		await expect(
+			signImgproxyURL(
+				`https://imgproxy.example.com/insecure${path}`,
+				IMGPROXY_KEY,
+				IMGPROXY_SALT,
+			),
+		).resolves.toBe(`https://imgproxy.example.com/${signature}${path}`)
+	})
+
+	it('should reject keys that are not hex', async () => {
+		await expect(
+			signImgproxyURL('https://x.example.com/insecure/a', 'key', ''),
+		).rejects.toMatchObject({
+			name: 'ImageConfigError',
+			context: { reason: 'invalid_signing_secret' },
+		})
+	})
+})
+
+describe('signCloudflareURL', () => {
+	it('should append the expiry and HMAC of the path and query', async () => {
+		const expiresAt = new Date('2030-01-01T00:00:00Z')
+		const exp = expiresAt.getTime() / 1000
+		const signature = createHmac('sha256', 'key')
+			.update(`/abc/hero/public?exp=${exp}`)
+			.digest('hex')
+
+		await expect(
+			signCloudflareURL(
+				'https://imagedelivery.net/abc/hero/public',
+				'key',
+				expiresAt,
+			),
+		).resolves.toBe(
+			`https://imagedelivery.net/abc/hero/public?exp=${exp}&sig=${signature}`,
+		)
+	})
+})
+
+describe('verifySignedURL', () => {
+	it('should accept URLs signed with the same secret', async () => {
+		await expect(
+			verifySignedURL(
+				signImgixURL('https://demo.imgix.net/a.jpg?w=10', 'token'),
+				{ provider: 'imgix', secret: 'token' },
+			),
+		).resolves.toBe(true)
+		await expect(
+			verifySignedURL(
+				await signCloudinaryURL(
+					'https://res.cloudinary.com/demo/image/upload/w_10/a.jpg',
+					'secret',
+				),
+				{ provider: 'cloudinary', secret: 'secret' },
+			),
+		).resolves.toBe(true)
+		await expect(
+			verifySignedURL(
+				await signImgproxyURL(
+					'https://imgproxy.example.com/insecure/w:10/plain/a.jpg',
+					IMGPROXY_KEY,
+					IMGPROXY_SALT,
+				),
+				{
+					provider: 'imgproxy',
+					secret: IMGPROXY_KEY,
+					salt: IMGPROXY_SALT,
+				},
+			),
+		).resolves.toBe(true)
+	})
+
+	it('should reject tampered URLs', async () => {
+		const imgix = signImgixURL('https://demo.imgix.net/a.jpg?w=10', 'token')
+		const cloudinary = await signCloudinaryURL(
+			'https://res.cloudinary.com/demo/image/upload/w_10/a.jpg',
+			'secret',
+		)
+		const imgproxy = await signImgproxyURL(
+			'https://imgproxy.example.com/insecure/w:10/plain/a.jpg',
+			IMGPROXY_KEY,
+			IMGPROXY_SALT,
+		)
+
+		await expect(
+			verifySignedURL(imgix.replace('w=10', 'w=9999'), {
+				provider: 'imgix',
+				secret: 'token',
+			}),
+		).resolves.toBe(false)
+		await expect(
+			verifySignedURL(cloudinary.replace('w_10', 'w_9999'), {
+				provider: 'cloudinary',
+				secret: 'secret',
+			}),
+		).resolves.toBe(false)
+		await expect(
+			verifySignedURL(imgproxy.replace('w:10', 'w:9999'), {
+				provider: 'imgproxy',
+				secret: IMGPROXY_KEY,
+				salt: IMGPROXY_SALT,
+			}),
+		).resolves.toBe(false)
+	})
+
+	it('should reject unsigned URLs and other secrets', async () => {
+		await expect(
+			verifySignedURL('https://demo.imgix.net/a.jpg?w=10', {
+				provider: 'imgix',
+				secret: 'token',
+			}),
+		).resolves.toBe(false)
+		await expect(
+			verifySignedURL(signImgixURL('https://demo.imgix.net/a.jpg', 'a'), {
+				provider: 'imgix',
+				secret: 'b',
+			}),
+		).resolves.toBe(false)
+		await expect(
+			verifySignedURL(
+				'https://res.cloudinary.com/demo/image/upload/w_10/a.jpg',
+				{ provider: 'cloudinary', secret: 'secret' },
+			),
+		).resolves.toBe(false)
+	})
+
+	it('should resolve false for malformed URLs', async () => {
+		const options = { secret: IMGPROXY_KEY, salt: IMGPROXY_SALT }
+
+		await expect(
+			verifySignedURL(
+				'https://res.cloudinary.com/demo/image/upload/s--abcdefgh--/%E0%A4%A',
+				{ provider: 'cloudinary', secret: 'secret' },
+			),
+		).resolves.toBe(false)
+		for (const provider of [
+			'imgix',
+			'cloudinary',
+			'imgproxy',
+			'cloudflare',
+		] as const) {
+			for (const url of [
+				'/insecure/w:10/plain/a.jpg?s=abc',
+				'not a url?exp=2000000000&sig=abc',
+				'',
+			]) {
+				await expect(
+					verifySignedURL(url, { provider, ...options }),
+				).resolves.toBe(false)
+			}
+		}
+	})
+
+	it('should reject expired Cloudflare URLs', async () => {
+		const url = await signCloudflareURL(
+			'https://imagedelivery.net/abc/hero/public',
+			'key',
+			new Date(2_000_000_000_000),
+		)
+
+		await expect(
+			verifySignedURL(url, {
+				provider: 'cloudflare',
+				secret: 'key',
+				now: 1_999_999_999_000,
+			}),
+		).resolves.toBe(true)
+		await expect(
+			verifySignedURL(url, {
+				provider: 'cloudflare',
+				secret: 'key',
+				now: 2_000_000_000_000,
+			}),
+		).resolves.toBe(false)
+		await expect(
+			verifySignedURL(url.replace('exp=2000000000', 'exp=2100000000'), {
+				provider: 'cloudflare',
+				secret: 'key',
+				now: 1_999_999_999_000,
+			}),
+		).resolves.toBe(false)
+	})
+})
@@ -0,0 +1,315 @@
+/**
+ * Tests for SVG sanitization and dimensions
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ImageSecurityError, ImageValidationError } from '../errors.js'
+import { parseSVGDimensions, sanitizeSVG } from './svg.js'
+
+const svg = (content: string, attributes = ''): string =>
+	`<svg xmlns="http://www.w3.org/2000/svg"${attributes}>${content}</svg>`
+
+const expectBlocked = (markup: string, reason: string) => {
+	try {
+		sanitizeSVG(markup, { strict: true })
+		expect.unreachable('should have thrown')
+	} catch (error) {
+		expect(error).toBeInstanceOf(ImageSecurityError)
+		expect((error as ImageSecurityError).context?.reason).toBe(reason)
+	}
+}
+
+describe('sanitizeSVG', () => {
+	it('should keep safe markup', () => {
+		const markup = svg(
+			'<defs><linearGradient id="g"/></defs>\n<rect fill="url(#g)" width="10"/><use href="#g"/>',
+		)
+
+		expect(sanitizeSVG(markup)).toBe(markup)
+	})
+
+	it('should remove scripts with their content', () => {
+		expect(
+			sanitizeSVG(
+				svg('<script>if (a<b) alert(1)</script><circle r="1"/>'),
+			),
+		).toBe(svg('<circle r="1"/>'))
+	})
+
+	it('should remove foreignObject with nested content', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<foreignObject><foreignObject><iframe/></foreignObject><p/></foreignObject><g/>',
+				),
+			),
+		).toBe(svg('<g/>'))
+	})
+
+	it('should remove namespace-prefixed scripts and foreignObject', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<s:script xmlns:s="http://www.w3.org/2000/svg">alert(1)</s:script><h:script xmlns:h="http://www.w3.org/1999/xhtml">alert(2)</h:script><s:foreignObject><s:foreignObject/><p/></s:foreignObject><g/>',
+				),
+			),
+		).toBe(svg('<g/>'))
+		expectBlocked(svg('<s:script>alert(1)</s:script>'), 'script_content')
+		expectBlocked(svg('<x:foreignObject/>'), 'foreign_object')
+	})
+
+	it('should remove elements outside the SVG namespace or allow-list', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<h:iframe srcdoc="&lt;script&gt;alert(1)&lt;/script&gt;"/><h:embed src="a.swf"></h:embed><g xmlns="http://www.w3.org/1999/xhtml"><object data="a.swf"/></g><iframe/><s:g xmlns:s="http://www.w3.org/2000/svg"/><circle r="1"/>',
+					' xmlns:h="http://www.w3.org/1999/xhtml"',
+				),
+			),
+		).toBe(
+			svg(
+				'<s:g xmlns:s="http://www.w3.org/2000/svg"/><circle r="1"/>',
+				' xmlns:h="http://www.w3.org/1999/xhtml"',
+			),
+		)
+		expectBlocked(
+			svg('<h:iframe/>', ' xmlns:h="http://www.w3.org/1999/xhtml"'),
+			'disallowed_element',
+		)
+		expectBlocked(svg('<embed/>'), 'disallowed_element')
+		expect(() =>
+			sanitizeSVG('<svg xmlns="http://www.w3.org/1999/xhtml"/>'),
+		).toThrow(ImageValidationError)
+	})
+
+	it('should remove HTML document and URL attributes', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<g srcdoc="&lt;script&gt;alert(1)&lt;/script&gt;" data="https://evil.example/a" action="javascript:x" formaction="https://evil.example/b" data-id="1"/>',
+				),
+			),
+		).toBe(svg('<g data-id="1"/>'))
+		expectBlocked(svg('<g srcdoc="x"/>'), 'script_content')
+		expectBlocked(svg('<g formaction="https://x/"/>'), 'external_reference')
+	})
+
+	it('should remove namespace-prefixed URL and event attributes', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<a xmlns:y="http://www.w3.org/1999/xlink" y:href="javascript:alert(1)"/><use z:href="https://evil.example/a.svg"/><rect x:onclick="alert(1)"/><use y:href="#icon"/>',
+				),
+			),
+		).toBe(
+			svg(
+				'<a xmlns:y="http://www.w3.org/1999/xlink"/><use/><rect/><use y:href="#icon"/>',
+			),
+		)
+	})
+
+	it('should remove event handler attributes', () => {
+		expect(
+			sanitizeSVG(
+				svg('<rect onclick="alert(1)" ONLOAD=\'x()\' width="2"/>'),
+			),
+		).toBe(svg('<rect width="2"/>'))
+	})
+
+	it('should remove javascript: URLs, even when obfuscated', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<a href="javascript:alert(1)"/><a xlink:href=" jav&#x61;script&colon;x"/><a href="java\tscript:x"/>',
+				),
+			),
+		).toBe(svg('<a/><a/><a/>'))
+	})
+
+	it('should remove animations setting javascript: URLs', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<animate attributeName="href" values="#a;javascript:alert(1)"/><animate attributeName="opacity" values="0;1"/>',
+				),
+			),
+		).toBe(
+			svg(
+				'<animate attributeName="href"/><animate attributeName="opacity" values="0;1"/>',
+			),
+		)
+	})
+
+	it('should remove external references', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<image href="https://evil.example/track.png"/><use href="sprite.svg#icon"/><rect style="fill: url(http://x/y)"/>',
+				),
+			),
+		).toBe(svg('<image/><use/><rect/>'))
+	})
+
+	it('should keep inline raster images', () => {
+		const markup = svg('<image href="data:image/png;base64,iVBORw0KGgo="/>')
+
+		expect(sanitizeSVG(markup)).toBe(markup)
+	})
+
+	it('should remove stylesheets importing other resources', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<style>@import url(https://x/a.css);</style><style>.a{fill:red}</style>',
+				),
+			),
+		).toBe(svg('<style>.a{fill:red}</style>'))
+	})
+
+	it('should check every style attribute, after CSS escapes', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<rect style="fill:u\\72l(https://evil.example/t)"/><rect style="fill:u&#92;72l(https://evil.example/t)"/><rect fill="url(https://evil.example/t"/><rect style="fill:red"/>',
+				),
+			),
+		).toBe(svg('<rect/><rect/><rect/><rect style="fill:red"/>'))
+		expectBlocked(
+			svg('<rect style="fill:u\\72l(https://evil.example/t)"/>'),
+			'external_reference',
+		)
+		expectBlocked(svg('<rect style="content:\'\\61\'"/>'), 'css_escape')
+	})
+
+	it('should remove stylesheets with escaped imports', () => {
+		const markup = svg(
+			'<style>@\\69mport "https://evil.example/a.css";</style>',
+		)
+
+		expect(sanitizeSVG(markup)).toBe(svg(''))
+		expectBlocked(markup, 'external_reference')
+	})
+
+	it('should remove stylesheets fetching images without url()', () => {
+		expect(
+			sanitizeSVG(
+				svg(
+					'<style>.a{fill:image-set("https://evil.example/x.png" 1x)}</style><style>.b{background:src("https://evil.example/y.png")}</style>',
+				),
+			),
+		).toBe(svg(''))
+	})
+
+	it('should remove entity declarations and stylesheet instructions', () => {
+		const markup = `<?xml version="1.0"?><!DOCTYPE svg [<!ENTITY a "aaaa">]><?xml-stylesheet href="https://x/a.css"?>${svg('')}`
+
+		expect(sanitizeSVG(markup)).toBe(`<?xml version="1.0"?>${svg('')}`)
+	})
+
+	it('should minify markup', () => {
+		const markup = `<?xml version="1.0"?>
+<!-- Icon -->
+<svg xmlns="http://www.w3.org/2000/svg">
+	<g>
+		<text>Hello   world</text>
+	</g>
+</svg>
+`
+
+		expect(sanitizeSVG(markup, { minify: true })).toBe(
+			svg('<g><text>Hello world</text></g>'),
+		)
+	})
+
+	it('should reject documents that are not SVG', () => {
+		expect(() => sanitizeSVG('<html><script></script></html>')).toThrow(
+			ImageValidationError,
+		)
+	})
+
+	describe('strict mode', () => {
+		it('should throw with a reason for each threat', () => {
+			expectBlocked(svg('<script/>'), 'script_content')
+			expectBlocked(svg('<foreignObject/>'), 'foreign_object')
+			expectBlocked(svg('<g onload="x()"/>'), 'event_handler')
+			expectBlocked(svg('<a href="javascript:x"/>'), 'javascript_url')
+			expectBlocked(
+				svg('<use href="https://x/sprite.svg#a"/>'),
+				'external_reference',
+			)
+			expectBlocked(
+				`<!DOCTYPE svg [<!ENTITY a "a">]>${svg('')}`,
+				'entity_declaration',
+			)
+		})
+
+		it('should use the CDN sanitizer reasons for paths', () => {
+			expectBlocked(
+				svg('<image href="../../etc/passwd"/>'),
+				'directory_traversal',
+			)
+			expectBlocked(
+				svg('<image href="/private/a.png"/>'),
+				'absolute_path',
+			)
+		})
+
+		it('should accept safe markup', () => {
+			const markup = svg('<use href="#a"/>')
+
+			expect(sanitizeSVG(markup, { strict: true })).toBe(markup)
+		})
+	})
+})
+
+describe('parseSVGDimensions', () => {
+	it('should read width and height', () => {
+		expect(
+			parseSVGDimensions(svg('', ' width="120" height="80px"')),
+		).toEqual({ width: 120, height: 80 })
+	})
+
+	it('should convert absolute units to pixels', () => {
+		expect(
+			parseSVGDimensions(svg('', ' width="1in" height="12pt"')),
+		).toEqual({
+			width: 96,
+			height: 16,
+		})
+	})
+
+	it('should fall back to the viewBox', () => {
+		expect(parseSVGDimensions(svg('', ' viewBox="0 0 24 12"'))).toEqual({
+			width: 24,
+			height: 12,
+		})
+		expect(
+			parseSVGDimensions(svg('', ' viewBox="0,0,24,12" width="100%"')),
+		).toEqual({ width: 24, height: 12 })
+	})
+
+	it('should derive a missing dimension from the viewBox ratio', () => {
+		expect(
+			parseSVGDimensions(svg('', ' viewBox="0 0 24 12" width="48"')),
+		).toEqual({ width: 48, height: 24 })
+		expect(
+			parseSVGDimensions(svg('', ' viewBox="0 0 24 12" height="6"')),
+		).toEqual({ width: 12, height: 6 })
+	})
+
+	it('should read the root element only', () => {
+		expect(
+			parseSVGDimensions(
+				`<!-- <svg width="1" height="1"> -->${svg('<svg width="5" height="5"/>', ' width="64" height="32"')}`,
+			),
+		).toEqual({ width: 64, height: 32 })
+	})
+
+	it('should return null without an absolute size or viewBox', () => {
+		expect(
+			parseSVGDimensions(svg('', ' width="50%" height="2em"')),
+		).toBeNull()
+		expect(parseSVGDimensions('<html></html>')).toBeNull()
+	})
+})
@@ -0,0 +1,564 @@
+/**
+ * SVG utilities
+ * Sanitizes untrusted SVG markup and reads its intrinsic dimensions
+ */
+
+import { ImageSecurityError, ImageValidationError } from '../errors.js'
+
+/**
+ * SVG sanitization options
+ */
+export interface SVGSanitizeOptions {
+	/** Remove comments and whitespace between elements (default: false) */
+	minify?: boolean
+	/**
+	 * Throw on the first dangerous construct instead of removing it
+	 * (default: false)
+	 */
+	strict?: boolean
+}
+
+/**
+ * Intrinsic SVG dimensions in CSS pixels
+ */
+export interface SVGDimensions {
+	width: number
+	height: number
+}
+
+/**
+ * Markup tokens: comments, CDATA, doctype (with internal subset),
+ * processing instructions, tags and text
+ */
+const TOKEN_PATTERN =
+	/<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>|<\?[\s\S]*?\?>|<\/?[A-Za-z][\w:.-]*(?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*\s*\/?>|[^<]+|</gi
+
+const TAG_PATTERN = /^<(\/?)([A-Za-z][\w:.-]*)([\s\S]*?)(\/?)>$/
+
+const ATTRIBUTE_PATTERN =
+	/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+
+/**
+ * Elements removed with their content, by local name, in any namespace
+ */
+const REMOVED_ELEMENTS: Record<string, string> = {
+	script: 'script_content',
+	foreignobject: 'foreign_object',
+}
+
+/**
+ * SVG elements kept, by lowercase local name
+ * Anything else, and any element outside the SVG namespace (such as an
+ * XHTML iframe), is removed with its content
+ */
+const SVG_ELEMENTS = new Set([
+	'a',
+	'animate',
+	'animatemotion',
+	'animatetransform',
+	'circle',
+	'clippath',
+	'defs',
+	'desc',
+	'ellipse',
+	'feblend',
+	'fecolormatrix',
+	'fecomponenttransfer',
+	'fecomposite',
+	'feconvolvematrix',
+	'fediffuselighting',
+	'fedisplacementmap',
+	'fedistantlight',
+	'fedropshadow',
+	'feflood',
+	'fefunca',
+	'fefuncb',
+	'fefuncg',
+	'fefuncr',
+	'fegaussianblur',
+	'feimage',
+	'femerge',
+	'femergenode',
+	'femorphology',
+	'feoffset',
+	'fepointlight',
+	'fespecularlighting',
+	'fespotlight',
+	'fetile',
+	'feturbulence',
+	'filter',
+	'g',
+	'image',
+	'line',
+	'lineargradient',
+	'marker',
+	'mask',
+	'metadata',
+	'mpath',
+	'path',
+	'pattern',
+	'polygon',
+	'polyline',
+	'radialgradient',
+	'rect',
+	'set',
+	'stop',
+	'style',
+	'svg',
+	'switch',
+	'symbol',
+	'text',
+	'textpath',
+	'title',
+	'tspan',
+	'use',
+	'view',
+])
+
+/**
+ * Attributes holding URLs, by local name
+ * `href` in any namespace (`xlink:href` or another prefix) is included,
+ * as are the HTML ones (`data`, `action`, `formaction`)
+ */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'data', 'action', 'formaction'])
+
+/**
+ * Animation attributes, which can set a URL attribute
+ */
+const ANIMATION_ATTRIBUTES = new Set(['to', 'from', 'values', 'by'])
+
+/**
+ * Inline raster images allowed as references
+ */
+const SAFE_DATA_URL = /^data:image\/(?:png|jpe?g|gif|webp|avif);/i
+
+const SCRIPT_URL = /^(?:javascript|vbscript):/i
+
+// Browsers accept a missing closing parenthesis at the end of a value
+const CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]*)\1\s*\)?/gi
+
+/**
+ * CSS functions other than url() that fetch a resource
+ */
+const CSS_FETCH_PATTERN = /@import|\b(?:image-set|image|src)\(/i
+
+/**
+ * Named character references that can spell out URLs and CSS
+ */
+const NAMED_REFERENCES: Record<string, string> = {
+	colon: ':',
+	bsol: '\\',
+	commat: '@',
+	lpar: '(',
+	rpar: ')',
+	tab: '\t',
+	newline: '\n',
+}
+
+/**
+ * CSS pixels per unit for absolute lengths
+ */
+const LENGTH_UNITS: Record<string, number> = {
+	'': 1,
+	px: 1,
+	pt: 4 / 3,
+	pc: 16,
+	in: 96,
+	cm: 96 / 2.54,
+	mm: 96 / 25.4,
+}
+
+/**
+ * Code point as a string, U+FFFD for values outside Unicode
+ */
+const fromCodePoint = (code: number): string =>
+	code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd'
+
+/**
+ * Decode character references, which apply before URLs and CSS are read
+ */
+function decodeCharacterReferences(value: string): string {
+	return value
+		.replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) =>
+			fromCodePoint(Number.parseInt(hex, 16)),
+		)
+		.replace(/&#(\d+);?/g, (_, decimal: string) =>
+			fromCodePoint(Number.parseInt(decimal, 10)),
+		)
+		.replace(
+			/&([a-z]+);/gi,
+			(reference, name: string) =>
+				NAMED_REFERENCES[name.toLowerCase()] ?? reference,
+		)
+}
+
+/**
+ * Decode CSS escapes (`\72` or `\r`) and drop comments, as browsers do
+ * before reading function names
+ */
+function unescapeCSS(css: string): string {
+	return css
+		.replace(/\/\*[\s\S]*?\*\//g, '')
+		.replace(
+			/\\([0-9a-f]{1,6})\s?|\\([\s\S])/gi,
+			(_, hex: string | undefined, char: string) =>
+				hex ? fromCodePoint(Number.parseInt(hex, 16)) : char,
+		)
+}
+
+/**
+ * Decode character references and drop whitespace and control characters,
+ * as browsers do when resolving URLs
+ */
+function normalizeURL(value: string): string {
+	return decodeCharacterReferences(value)
+		.split('')
+		.filter(char => char.charCodeAt(0) > 0x20 && !/\s/.test(char))
+		.join('')
+}
+
+/**
+ * Reason to block a URL, or undefined for fragments and inline rasters
+ */
+function getURLThreat(value: string): string | undefined {
+	const url = normalizeURL(value)
+	if (url === '' || url.startsWith('#') || SAFE_DATA_URL.test(url)) {
+		return undefined
+	}
+	if (SCRIPT_URL.test(url)) return 'javascript_url'
+	if (url.includes('../') || url.includes('..\\')) {
+		return 'directory_traversal'
+	}
+	if (url.startsWith('/') && !url.startsWith('//')) return 'absolute_path'
+	return 'external_reference'
+}
+
+/**
+ * Reason to block a CSS value referencing other resources
+ * Any remaining escape is blocked too, as it can hide a function name
+ */
+function getCSSThreat(value: string): string | undefined {
+	const decoded = decodeCharacterReferences(value)
+	const css = unescapeCSS(decoded)
+	if (CSS_FETCH_PATTERN.test(css)) return 'external_reference'
+	if (/expression\s*\(/i.test(css)) return 'javascript_url'
+
+	for (const [, , url = ''] of css.matchAll(CSS_URL_PATTERN)) {
+		const threat = getURLThreat(url)
+		if (threat) return threat
+	}
+	if (decoded.includes('\\')) return 'css_escape'
+	return undefined
+}
+
+/**
+ * Lowercase local name of an element or attribute, without its namespace
+ * prefix, so that `s:script` is treated as `script`
+ */
+const getLocalName = (name: string): string =>
+	name.slice(name.lastIndexOf(':') + 1).toLowerCase()
+
+function parseAttributes(source: string): Array<[string, string | undefined]> {
+	return Array.from(
+		source.matchAll(ATTRIBUTE_PATTERN),
+		([, name = '', double, single, bare]) => [
+			name,
+			double ?? single ?? bare,
+		],
+	)
+}
+
+/**
+ * Reason to remove an attribute, or undefined to keep it
+ */
+function getAttributeThreat(name: string, value: string): string | undefined {
+	const lowerName = name.toLowerCase()
+	// Namespace declarations hold namespace names, not fetched URLs
+	if (lowerName === 'xmlns' || lowerName.startsWith('xmlns:')) {
+		return undefined
+	}
+
+	const localName = getLocalName(name)
+	if (localName.startsWith('on')) return 'event_handler'
+	// Inline HTML documents, which can hold scripts
+	if (localName === 'srcdoc') return 'script_content'
+	if (URL_ATTRIBUTES.has(localName)) return getURLThreat(value)
+	if (
+		ANIMATION_ATTRIBUTES.has(localName) &&
+		value.split(';').some(item => SCRIPT_URL.test(normalizeURL(item)))
+	) {
+		return 'javascript_url'
+	}
+	// Presentation attributes are CSS values too
+	if (
+		localName === 'style' ||
+		/[(\\]/.test(decodeCharacterReferences(value))
+	) {
+		return getCSSThreat(value)
+	}
+	return undefined
+}
+
+/**
+ * Open element with the namespaces it declares
+ */
+interface ElementScope {
+	name: string
+	namespaces: Map<string, string>
+}
+
+/**
+ * Namespace URI of an element, from its own declarations then the ones
+ * in scope
+ * Unprefixed elements default to SVG, as in HTML documents
+ */
+function resolveNamespace(
+	name: string,
+	namespaces: Map<string, string>,
+	scopes: ElementScope[],
+): string | undefined {
+	const separator = name.indexOf(':')
+	const prefix = separator === -1 ? '' : name.slice(0, separator)
+	if (namespaces.has(prefix)) return namespaces.get(prefix)
+
+	for (let index = scopes.length - 1; index >= 0; index--) {
+		const namespace = scopes[index]?.namespaces.get(prefix)
+		if (namespace !== undefined) return namespace
+	}
+	return prefix ? undefined : SVG_NAMESPACE
+}
+
+/**
+ * Namespaces declared by `xmlns` and `xmlns:prefix` attributes
+ */
+function getNamespaceDeclarations(
+	attributes: Array<[string, string | undefined]>,
+): Map<string, string> {
+	const namespaces = new Map<string, string>()
+	for (const [attribute, value = ''] of attributes) {
+		const match = /^xmlns(?::(.+))?$/i.exec(attribute)
+		if (match) {
+			namespaces.set(
+				match[1]?.toLowerCase() ?? '',
+				decodeCharacterReferences(value).trim(),
+			)
+		}
+	}
+	return namespaces
+}
+
+/**
+ * Remove scripts, event handlers, `javascript:` URLs, external references,
+ * `foreignObject` and elements outside an SVG allow-list from SVG markup
+ * Security errors use the same reasons as the CDN sanitizer where they
+ * apply (`directory_traversal`, `absolute_path`), and `script_content`,
+ * `foreign_object`, `disallowed_element`, `event_handler`,
+ * `javascript_url`, `external_reference`, `css_escape` and
+ * `entity_declaration` otherwise
+ *
+ * @throws {ImageValidationError} If the markup is not an SVG document
+ * @throws {ImageSecurityError} In strict mode, on the first dangerous
+ * construct
+ *
+ * @example
+ * ```typescript
+ * const safe = sanitizeSVG(upload, { minify: true })
+ * ```
+ */
+export function sanitizeSVG(
+	svg: string,
+	options: SVGSanitizeOptions = {},
+): string {
+	const { minify = false, strict = false } = options
+	const notSVG = (): ImageValidationError =>
+		new ImageValidationError('Markup is not an SVG document', {
+			reason: 'unrecognized_content',
+		})
+
+	// Report a dangerous construct, which is then removed
+	const block = (reason: string, detail: string): void => {
+		if (strict) {
+			throw new ImageSecurityError(`Unsafe SVG content: ${detail}`, {
+				detail,
+				reason,
+			})
+		}
+	}
+
+	let output = ''
+	// Removed element and how deep we are inside it
+	let skipped: { name: string; depth: number } | undefined
+	// Open elements with the namespaces they declare
+	const scopes: ElementScope[] = []
+	let style: { start: number; css: string } | undefined
+	let hasRoot = false
+
+	for (const [token] of svg.matchAll(TOKEN_PATTERN)) {
+		const tag = TAG_PATTERN.exec(token)
+		const name = tag?.[2]?.toLowerCase()
+		const localName = name && getLocalName(name)
+
+		if (skipped) {
+			if (tag && name === skipped.name && !tag[4]) {
+				skipped.depth += tag[1] ? -1 : 1
+				if (skipped.depth === 0) skipped = undefined
+			}
+			continue
+		}
+
+		if (token.startsWith('<!--')) {
+			if (!minify) output += token
+		} else if (/^<!DOCTYPE/i.test(token)) {
+			// Entities can expand exponentially or read local files
+			if (/<!ENTITY/i.test(token)) {
+				block('entity_declaration', 'DOCTYPE entity declaration')
+			}
+		} else if (token.startsWith('<?')) {
+			if (/^<\?xml\s/i.test(token)) {
+				if (!minify) output += token
+			} else {
+				block('external_reference', token)
+			}
+		} else if (tag && name) {
+			const [, closing, tagName, source = '', selfClosing] = tag
+
+			if (closing) {
+				// Closing tags of removed elements were skipped with them
+				if (scopes.at(-1)?.name !== name) continue
+				scopes.pop()
+				if (localName === 'style' && style) {
+					// Drop the whole stylesheet if it references other resources
+					const threat = getCSSThreat(style.css)
+					if (threat) {
+						block(threat, '<style> element')
+						output = output.slice(0, style.start)
+						style = undefined
+						continue
+					}
+					style = undefined
+				}
+				output += `</${tagName}>`
+				continue
+			}
+
+			const attributes = parseAttributes(source)
+			const namespaces = getNamespaceDeclarations(attributes)
+			const namespace = resolveNamespace(name, namespaces, scopes)
+			const isSVG =
+				namespace === SVG_NAMESPACE && SVG_ELEMENTS.has(localName ?? '')
+			if (!hasRoot && (localName !== 'svg' || !isSVG)) throw notSVG()
+			hasRoot = true
+			const reason =
+				REMOVED_ELEMENTS[localName ?? ''] ??
+				(isSVG ? undefined : 'disallowed_element')
+
+			if (reason) {
+				block(reason, `<${tagName}> element`)
+				if (!selfClosing) skipped = { name, depth: 1 }
+				continue
+			}
+			if (!selfClosing) scopes.push({ name, namespaces })
+
+			let element = `<${tagName}`
+			for (const [attribute, value] of attributes) {
+				const threat = getAttributeThreat(attribute, value ?? '')
+				if (threat) {
+					block(threat, `${attribute} attribute`)
+					continue
+				}
+				element +=
+					value === undefined
+						? ` ${attribute}`
+						: ` ${attribute}="${value.replace(/"/g, '&quot;')}"`
+			}
+
+			if (localName === 'style' && !selfClosing) {
+				style = { start: output.length, css: '' }
+			}
+			output += `${element}${selfClosing ? '/' : ''}>`
+		} else {
+			// Text, CDATA and stray angle brackets
+			if (style) style.css += token
+			const text = token === '<' ? '&lt;' : token
+			if (!minify) {
+				output += text
+			} else if (text.trim()) {
+				output += text.replace(/\s+/g, ' ')
+			}
+		}
+	}
+
+	if (!hasRoot) throw notSVG()
+	return minify ? output.trim() : output
+}
+
+/**
+ * Parse an absolute SVG length to CSS pixels
+ * Returns undefined for relative units (%, em) and invalid values
+ */
+function parseLength(value: string | undefined): number | undefined {
+	const match = value
+		?.trim()
+		.match(/^\+?(\d*\.?\d+(?:e[+-]?\d+)?)\s*(px|pt|pc|in|cm|mm)?$/i)
+	if (!match) return undefined
+
+	const length =
+		Number(match[1]) * (LENGTH_UNITS[match[2]?.toLowerCase() ?? ''] ?? 1)
+	return length > 0 ? length : undefined
+}
+
+/**
+ * Read the intrinsic dimensions of an SVG from the width, height and
+ * viewBox attributes of its root element
+ * A missing width or height is derived from the viewBox aspect ratio
+ *
+ * @returns Dimensions rounded to whole pixels, or null if the root element
+ * has no absolute size nor viewBox
+ *
+ * @example
+ * ```typescript
+ * parseSVGDimensions('<svg viewBox="0 0 24 12" width="48">') // 48x24
+ * ```
+ */
+export function parseSVGDimensions(svg: string): SVGDimensions | null {
+	const root = svg
+		.replace(/<!--[\s\S]*?-->/g, '')
+		.match(
+			/<svg(\s+(?:[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?\s*)*)\/?>/i,
+		)
+	if (!root) return null
+
+	const attributes = new Map(
+		parseAttributes(root[1] ?? '').map(([name, value]) => [
+			name.toLowerCase(),
+			value,
+		]),
+	)
+	let width = parseLength(attributes.get('width'))
+	let height = parseLength(attributes.get('height'))
+
+	const viewBox = attributes
+		.get('viewbox')
+		?.trim()
+		.split(/[\s,]+/)
+		.map(Number)
+	const boxWidth = viewBox?.[2] ?? 0
+	const boxHeight = viewBox?.[3] ?? 0
+	const hasViewBox =
+		viewBox?.length === 4 &&
+		viewBox.every(Number.isFinite) &&
+		boxWidth > 0 &&
+		boxHeight > 0
+
+	if (hasViewBox) {
+		if (width && !height) height = (width * boxHeight) / boxWidth
+		if (height && !width) width = (height * boxWidth) / boxHeight
+		width ??= boxWidth
+		height ??= boxHeight
+	}
+
+	if (!width || !height) return null
+	return { width: Math.round(width), height: Math.round(height) }
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for ThumbHash encoding and decoding
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ImageValidationError } from '../errors.js'
+import {
+	decodeThumbHash,
+	encodeThumbHash,
+	thumbHashToAspectRatio,
+	thumbHashToAverageColor,
+} from './thumbhash.js'
+
+const createPixels = (
+	width: number,
+	height: number,
+	color: (x: number, y: number) => [number, number, number, number],
+): Uint8ClampedArray => {
+	const pixels = new Uint8ClampedArray(width * height * 4)
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			pixels.set(color(x, y), (y * width + x) * 4)
+		}
+	}
+	return pixels
+}
+
+describe('ThumbHash', () => {
+	describe('encodeThumbHash', () => {
+		it('should produce a short base64 hash', () => {
+			const hash = encodeThumbHash(
+				createPixels(40, 30, (x, y) => [x * 6, y * 8, 100, 255]),
+				40,
+				30,
+			)
+
+			expect(hash).toMatch(/^[A-Za-z0-9+/]+=*$/)
+			expect(atob(hash).length).toBeLessThanOrEqual(25)
+		})
+
+		it('should reject inputs larger than 100x100', () => {
+			expect(() =>
+				encodeThumbHash(new Uint8Array(101 * 10 * 4), 101, 10),
+			).toThrow(ImageValidationError)
+		})
+
+		it('should reject pixel data that does not match the dimensions', () => {
+			expect(() => encodeThumbHash(new Uint8Array(12), 2, 2)).toThrow(
+				ImageValidationError,
+			)
+		})
+	})
+
+	describe('decodeThumbHash', () => {
+		it('should keep the aspect ratio', () => {
+			const landscape = decodeThumbHash(
+				encodeThumbHash(
+					createPixels(100, 50, x => [x * 2, 0, 0, 255]),
+					100,
+					50,
+				),
+			)
+			const portrait = decodeThumbHash(
+				encodeThumbHash(
+					createPixels(30, 90, () => [0, 0, 255, 255]),
+					30,
+					90,
+				),
+			)
+
+			expect(landscape.width).toBe(32)
+			expect(landscape.height).toBeLessThan(landscape.width)
+			expect(portrait.height).toBe(32)
+			expect(portrait.width).toBeLessThan(portrait.height)
+		})
+
+		it('should round-trip solid colors', () => {
+			const { pixels } = decodeThumbHash(
+				encodeThumbHash(
+					createPixels(16, 16, () => [200, 100, 50, 255]),
+					16,
+					16,
+				),
+			)
+
+			const [r = 0, g = 0, b = 0, a = 0] = pixels
+			expect(Math.abs(r - 200)).toBeLessThanOrEqual(8)
+			expect(Math.abs(g - 100)).toBeLessThanOrEqual(8)
+			expect(Math.abs(b - 50)).toBeLessThanOrEqual(8)
+			expect(a).toBe(255)
+		})
+
+		it('should keep transparency', () => {
+			const hash = encodeThumbHash(
+				createPixels(32, 32, x => [255, 0, 0, x < 16 ? 0 : 255]),
+				32,
+				32,
+			)
+			const { width, pixels } = decodeThumbHash(hash)
+
+			expect(pixels[3]).toBeLessThan(128)
+			expect(pixels[(width - 1) * 4 + 3]).toBeGreaterThan(192)
+		})
+
+		it('should accept binary hashes', () => {
+			const hash = encodeThumbHash(
+				createPixels(10, 10, () => [0, 255, 0, 255]),
+				10,
+				10,
+			)
+			const bytes = Uint8Array.from(atob(hash), char =>
+				char.charCodeAt(0),
+			)
+
+			expect(decodeThumbHash(bytes)).toEqual(decodeThumbHash(hash))
+		})
+
+		it('should reject malformed hashes', () => {
+			expect(() => decodeThumbHash('AAA')).toThrow(ImageValidationError)
+			expect(() => decodeThumbHash('not base64!')).toThrow(
+				ImageValidationError,
+			)
+		})
+	})
+
+	describe('metadata', () => {
+		it('should read the approximate aspect ratio', () => {
+			const hash = encodeThumbHash(
+				createPixels(100, 50, () => [0, 0, 0, 255]),
+				100,
+				50,
+			)
+
+			expect(thumbHashToAspectRatio(hash)).toBeCloseTo(7 / 4)
+		})
+
+		it('should read the average color', () => {
+			const hash = encodeThumbHash(
+				createPixels(10, 10, () => [255, 255, 255, 128]),
+				10,
+				10,
+			)
+			const color = thumbHashToAverageColor(hash)
+
+			expect(color.r).toBeCloseTo(1, 1)
+			expect(color.g).toBeCloseTo(1, 1)
+			expect(color.b).toBeCloseTo(1, 1)
+			expect(color.a).toBeCloseTo(0.5, 1)
+		})
+	})
+})
@@ -0,0 +1,393 @@
+/**
+ * ThumbHash placeholder encoding and decoding
+ * Like BlurHash, but keeps the aspect ratio and alpha in about 25 bytes
+ * @see https://evanw.github.io/thumbhash/
+ */
+
+import { ImageValidationError } from '../errors.js'
+import type { RGBAImage } from './rgba.js'
+import { validateRGBA } from './rgba.js'
+
+/**
+ * Largest input dimension accepted by the encoder
+ */
+const MAX_THUMBHASH_SIZE = 100
+
+/**
+ * Size of the longest side of decoded images
+ */
+const DECODED_SIZE = 32
+
+/**
+ * DCT of one channel: constant term, normalized varying terms and their scale
+ */
+interface EncodedChannel {
+	dc: number
+	ac: number[]
+	scale: number
+}
+
+function encodeChannel(
+	channel: Float64Array,
+	width: number,
+	height: number,
+	nx: number,
+	ny: number,
+): EncodedChannel {
+	let dc = 0
+	const ac: number[] = []
+	let scale = 0
+	const fx = new Float64Array(width)
+
+	for (let cy = 0; cy < ny; cy++) {
+		for (let cx = 0; cx * ny < nx * (ny - cy); cx++) {
+			for (let x = 0; x < width; x++) {
+				fx[x] = Math.cos((Math.PI / width) * cx * (x + 0.5))
+			}
+
+			let f = 0
+			for (let y = 0; y < height; y++) {
+				const fy = Math.cos((Math.PI / height) * cy * (y + 0.5))
+				for (let x = 0; x < width; x++) {
+					f += (channel[x + y * width] ?? 0) * (fx[x] ?? 0) * fy
+				}
+			}
+			f /= width * height
+
+			if (cx || cy) {
+				ac.push(f)
+				scale = Math.max(scale, Math.abs(f))
+			} else {
+				dc = f
+			}
+		}
+	}
+
+	return {
+		dc,
+		ac: scale ? ac.map(value => 0.5 + (0.5 / scale) * value) : ac,
+		scale,
+	}
+}
+
+function toBase64(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes))
+}
+
+/**
+ * Read a ThumbHash from its base64 or binary form
+ * @throws {ImageValidationError} If the hash is malformed
+ */
+function toBytes(hash: string | Uint8Array): Uint8Array {
+	let bytes: Uint8Array
+	if (typeof hash === 'string') {
+		try {
+			bytes = Uint8Array.from(atob(hash), char => char.charCodeAt(0))
+		} catch {
+			bytes = new Uint8Array(0)
+		}
+	} else {
+		bytes = hash
+	}
+
+	// Header plus at least the luminance components
+	const hasAlpha = ((bytes[2] ?? 0) & 0x80) !== 0
+	if (bytes.length < (hasAlpha ? 6 : 5) + 1) {
+		throw new ImageValidationError('Invalid ThumbHash', {
+			reason: 'invalid_placeholder',
+		})
+	}
+	return bytes
+}
+
+/**
+ * Encode RGBA pixel data as a base64 ThumbHash
+ * Resize images to at most 100x100 first, e.g. with Sharp
+ *
+ * @throws {ImageValidationError} If the input is invalid or too large
+ *
+ * @example
+ * ```typescript
+ * const { data, info } = await sharp(file)
+ *   .resize(100, 100, { fit: 'inside' })
+ *   .ensureAlpha()
+ *   .raw()
+ *   .toBuffer({ resolveWithObject: true })
+ * const hash = encodeThumbHash(data, info.width, info.height)
+ * // '1QcSHQRnh493V4dIh4eXh1h4kJUI'
+ * ```
+ */
+export function encodeThumbHash(
+	pixels: ArrayLike<number>,
+	width: number,
+	height: number,
+): string {
+	validateRGBA(pixels, width, height)
+	if (width > MAX_THUMBHASH_SIZE || height > MAX_THUMBHASH_SIZE) {
+		throw new ImageValidationError(
+			`ThumbHash input ${width}x${height} exceeds ${MAX_THUMBHASH_SIZE}x${MAX_THUMBHASH_SIZE}`,
+			{ width, height, reason: 'dimensions_exceeded' },
+		)
+	}
+
+	const count = width * height
+
+	// Average color, weighted by alpha
+	let avgR = 0
+	let avgG = 0
+	let avgB = 0
+	let avgA = 0
+	for (let i = 0; i < count; i++) {
+		const alpha = (pixels[i * 4 + 3] ?? 0) / 255
+		avgR += (alpha / 255) * (pixels[i * 4] ?? 0)
+		avgG += (alpha / 255) * (pixels[i * 4 + 1] ?? 0)
+		avgB += (alpha / 255) * (pixels[i * 4 + 2] ?? 0)
+		avgA += alpha
+	}
+	if (avgA) {
+		avgR /= avgA
+		avgG /= avgA
+		avgB /= avgA
+	}
+
+	const hasAlpha = avgA < count
+	const lLimit = hasAlpha ? 5 : 7 // Fewer luminance bits leave room for alpha
+	const lx = Math.max(
+		1,
+		Math.round((lLimit * width) / Math.max(width, height)),
+	)
+	const ly = Math.max(
+		1,
+		Math.round((lLimit * height) / Math.max(width, height)),
+	)
+
+	// Convert to luminance, yellow-blue, red-green and alpha,
+	// compositing transparent pixels over the average color
+	const l = new Float64Array(count)
+	const p = new Float64Array(count)
+	const q = new Float64Array(count)
+	const a = new Float64Array(count)
+	for (let i = 0; i < count; i++) {
+		const alpha = (pixels[i * 4 + 3] ?? 0) / 255
+		const r = avgR * (1 - alpha) + (alpha / 255) * (pixels[i * 4] ?? 0)
+		const g = avgG * (1 - alpha) + (alpha / 255) * (pixels[i * 4 + 1] ?? 0)
+		const b = avgB * (1 - alpha) + (alpha / 255) * (pixels[i * 4 + 2] ?? 0)
+		l[i] = (r + g + b) / 3
+		p[i] = (r + g) / 2 - b
+		q[i] = r - g
+		a[i] = alpha
+	}
+
+	const lChannel = encodeChannel(
+		l,
+		width,
+		height,
+		Math.max(3, lx),
+		Math.max(3, ly),
+	)
+	const pChannel = encodeChannel(p, width, height, 3, 3)
+	const qChannel = encodeChannel(q, width, height, 3, 3)
+	const aChannel = hasAlpha
+		? encodeChannel(a, width, height, 5, 5)
+		: undefined
+
+	const isLandscape = width > height
+	const header24 =
+		Math.round(63 * lChannel.dc) |
+		(Math.round(31.5 + 31.5 * pChannel.dc) << 6) |
+		(Math.round(31.5 + 31.5 * qChannel.dc) << 12) |
+		(Math.round(31 * lChannel.scale) << 18) |
+		((hasAlpha ? 1 : 0) << 23)
+	const header16 =
+		(isLandscape ? ly : lx) |
+		(Math.round(63 * pChannel.scale) << 3) |
+		(Math.round(63 * qChannel.scale) << 9) |
+		((isLandscape ? 1 : 0) << 15)
+
+	const channels = [lChannel, pChannel, qChannel]
+	if (aChannel) channels.push(aChannel)
+	const factors = channels.flatMap(channel => channel.ac)
+	const acStart = aChannel ? 6 : 5
+
+	const hash = new Uint8Array(acStart + Math.ceil(factors.length / 2))
+	hash.set([
+		header24 & 255,
+		(header24 >> 8) & 255,
+		header24 >> 16,
+		header16 & 255,
+		header16 >> 8,
+	])
+	if (aChannel) {
+		hash[5] =
+			Math.round(15 * aChannel.dc) |
+			(Math.round(15 * aChannel.scale) << 4)
+	}
+	factors.forEach((factor, index) => {
+		const position = acStart + (index >> 1)
+		hash[position] =
+			(hash[position] ?? 0) |
+			(Math.round(15 * factor) << ((index & 1) << 2))
+	})
+
+	return toBase64(hash)
+}
+
+/**
+ * Read the aspect ratio (width / height) stored in a ThumbHash
+ * @throws {ImageValidationError} If the hash is malformed
+ */
+export function thumbHashToAspectRatio(hash: string | Uint8Array): number {
+	const bytes = toBytes(hash)
+	const header = bytes[3] ?? 0
+	const hasAlpha = ((bytes[2] ?? 0) & 0x80) !== 0
+	const isLandscape = ((bytes[4] ?? 0) & 0x80) !== 0
+	const lx = isLandscape ? (hasAlpha ? 5 : 7) : header & 7
+	const ly = isLandscape ? header & 7 : hasAlpha ? 5 : 7
+	if (!lx || !ly) {
+		throw new ImageValidationError('Invalid ThumbHash', {
+			reason: 'invalid_placeholder',
+		})
+	}
+	return lx / ly
+}
+
+/**
+ * Read the average color stored in a ThumbHash, channels from 0 to 1
+ * @throws {ImageValidationError} If the hash is malformed
+ */
+export function thumbHashToAverageColor(hash: string | Uint8Array): {
+	r: number
+	g: number
+	b: number
+	a: number
+} {
+	const bytes = toBytes(hash)
+	const header =
+		(bytes[0] ?? 0) | ((bytes[1] ?? 0) << 8) | ((bytes[2] ?? 0) << 16)
+	const l = (header & 63) / 63
+	const p = ((header >> 6) & 63) / 31.5 - 1
+	const q = ((header >> 12) & 63) / 31.5 - 1
+	const hasAlpha = header >> 23
+	const b = l - (2 / 3) * p
+	const r = (3 * l - b + q) / 2
+	const g = r - q
+	const clamp = (value: number): number => Math.max(0, Math.min(1, value))
+
+	return {
+		r: clamp(r),
+		g: clamp(g),
+		b: clamp(b),
+		a: hasAlpha ? ((bytes[5] ?? 0) & 15) / 15 : 1,
+	}
+}
+
+/**
+ * Decode a ThumbHash to RGBA pixels
+ * The longest side is 32px, the other follows the stored aspect ratio
+ *
+ * @throws {ImageValidationError} If the hash is malformed
+ */
+export function decodeThumbHash(hash: string | Uint8Array): RGBAImage {
+	const bytes = toBytes(hash)
+
+	// Constants
+	const header24 =
+		(bytes[0] ?? 0) | ((bytes[1] ?? 0) << 8) | ((bytes[2] ?? 0) << 16)
+	const header16 = (bytes[3] ?? 0) | ((bytes[4] ?? 0) << 8)
+	const lDc = (header24 & 63) / 63
+	const pDc = ((header24 >> 6) & 63) / 31.5 - 1
+	const qDc = ((header24 >> 12) & 63) / 31.5 - 1
+	const lScale = ((header24 >> 18) & 31) / 31
+	const hasAlpha = header24 >> 23 === 1
+	const pScale = ((header16 >> 3) & 63) / 63
+	const qScale = ((header16 >> 9) & 63) / 63
+	const isLandscape = header16 >> 15 === 1
+	const lx = Math.max(3, isLandscape ? (hasAlpha ? 5 : 7) : header16 & 7)
+	const ly = Math.max(3, isLandscape ? header16 & 7 : hasAlpha ? 5 : 7)
+	const aDc = hasAlpha ? ((bytes[5] ?? 0) & 15) / 15 : 1
+	const aScale = ((bytes[5] ?? 0) >> 4) / 15
+
+	// Varying factors, chroma boosted 1.25x to make up for quantization
+	const acStart = hasAlpha ? 6 : 5
+	let acIndex = 0
+	const decodeChannel = (nx: number, ny: number, scale: number): number[] => {
+		const ac: number[] = []
+		for (let cy = 0; cy < ny; cy++) {
+			for (let cx = cy ? 0 : 1; cx * ny < nx * (ny - cy); cx++) {
+				const byte = bytes[acStart + (acIndex >> 1)] ?? 0
+				const nibble = (byte >> ((acIndex & 1) << 2)) & 15
+				ac.push((nibble / 7.5 - 1) * scale)
+				acIndex++
+			}
+		}
+		return ac
+	}
+	const lAc = decodeChannel(lx, ly, lScale)
+	const pAc = decodeChannel(3, 3, pScale * 1.25)
+	const qAc = decodeChannel(3, 3, qScale * 1.25)
+	const aAc = hasAlpha ? decodeChannel(5, 5, aScale) : []
+
+	const ratio = thumbHashToAspectRatio(bytes)
+	const width = Math.max(
+		1,
+		Math.round(ratio > 1 ? DECODED_SIZE : DECODED_SIZE * ratio),
+	)
+	const height = Math.max(
+		1,
+		Math.round(ratio > 1 ? DECODED_SIZE / ratio : DECODED_SIZE),
+	)
+	const pixels = new Uint8ClampedArray(width * height * 4)
+	const fx = new Float64Array(Math.max(lx, hasAlpha ? 5 : 3))
+	const fy = new Float64Array(Math.max(ly, hasAlpha ? 5 : 3))
+
+	for (let y = 0, i = 0; y < height; y++) {
+		for (let x = 0; x < width; x++, i += 4) {
+			let l = lDc
+			let p = pDc
+			let q = qDc
+			let a = aDc
+
+			for (let cx = 0; cx < fx.length; cx++) {
+				fx[cx] = Math.cos((Math.PI / width) * (x + 0.5) * cx)
+			}
+			for (let cy = 0; cy < fy.length; cy++) {
+				fy[cy] = Math.cos((Math.PI / height) * (y + 0.5) * cy)
+			}
+
+			for (let cy = 0, j = 0; cy < ly; cy++) {
+				const fy2 = (fy[cy] ?? 0) * 2
+				for (let cx = cy ? 0 : 1; cx * ly < lx * (ly - cy); cx++, j++) {
+					l += (lAc[j] ?? 0) * (fx[cx] ?? 0) * fy2
+				}
+			}
+
+			for (let cy = 0, j = 0; cy < 3; cy++) {
+				const fy2 = (fy[cy] ?? 0) * 2
+				for (let cx = cy ? 0 : 1; cx < 3 - cy; cx++, j++) {
+					const f = (fx[cx] ?? 0) * fy2
+					p += (pAc[j] ?? 0) * f
+					q += (qAc[j] ?? 0) * f
+				}
+			}
+
+			if (hasAlpha) {
+				for (let cy = 0, j = 0; cy < 5; cy++) {
+					const fy2 = (fy[cy] ?? 0) * 2
+					for (let cx = cy ? 0 : 1; cx < 5 - cy; cx++, j++) {
+						a += (aAc[j] ?? 0) * (fx[cx] ?? 0) * fy2
+					}
+				}
+			}
+
+			const b = l - (2 / 3) * p
+			const r = (3 * l - b + q) / 2
+			const g = r - q
+			pixels[i] = 255 * r
+			pixels[i + 1] = 255 * g
+			pixels[i + 2] = 255 * b
+			pixels[i + 3] = 255 * a
+		}
+	}
+
+	return { width, height, pixels }
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for transformation list validation
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { ImageTransform } from '../types.js'
+import { DEFAULT_TRIM_THRESHOLD, normalizeTransforms } from './transform.js'
+
+describe('normalizeTransforms', () => {
+	it('should keep valid transformations in order', () => {
+		const transforms: ImageTransform[] = [
+			{ type: 'autoOrient' },
+			{ type: 'rotate', angle: 90 },
+			{ type: 'flip', direction: 'both' },
+			{ type: 'blur', radius: 20 },
+			{ type: 'sharpen', amount: 0 },
+			{ type: 'grayscale' },
+			{ type: 'trim', threshold: 30 },
+			{ type: 'pad', top: 0, right: 10, bottom: 0, left: 10 },
+		]
+
+		expect(normalizeTransforms(transforms)).toEqual(transforms)
+	})
+
+	it('should normalize colors and default trim thresholds', () => {
+		expect(
+			normalizeTransforms([
+				{ type: 'background', color: '#FFF' },
+				{ type: 'background', color: '#0a0B0c' },
+				{ type: 'trim' },
+			]),
+		).toEqual([
+			{ type: 'background', color: 'ffffff' },
+			{ type: 'background', color: '0a0b0c' },
+			{ type: 'trim', threshold: DEFAULT_TRIM_THRESHOLD },
+		])
+	})
+
+	it('should reject invalid values with the operation', () => {
+		const invalid = [
+			{ type: 'rotate', angle: 45 },
+			{ type: 'flip', direction: 'diagonal' },
+			{ type: 'blur', radius: 0 },
+			{ type: 'blur', radius: Number.POSITIVE_INFINITY },
+			{ type: 'sharpen', amount: 11 },
+			{ type: 'trim', threshold: -1 },
+			{ type: 'background', color: 'red' },
+			{ type: 'background', color: '#ff000080' },
+			{ type: 'pad', top: 1.5, right: 0, bottom: 0, left: 0 },
+			{ type: 'pad', top: 0, right: 0, bottom: 0, left: 100000 },
+		] as ImageTransform[]
+
+		for (const transform of invalid) {
+			expect(() => normalizeTransforms([transform])).toThrowError(
+				expect.objectContaining({
+					name: 'ImageValidationError',
+					context: {
+						operation: transform.type,
+						reason: 'invalid_transform',
+					},
+				}),
+			)
+		}
+	})
+
+	it('should reject unknown transformations', () => {
+		expect(() =>
+			normalizeTransforms([
+				{ type: 'invert' } as unknown as ImageTransform,
+			]),
+		).toThrowError(
+			expect.objectContaining({
+				context: expect.objectContaining({ operation: 'invert' }),
+			}),
+		)
+	})
+})
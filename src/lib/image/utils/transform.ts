@@ -0,0 +1,95 @@
+/**
+ * Image transformation list utilities
+ * Validates portable transformation lists before adapters translate them
+ */
+
+import { ImageValidationError } from '../errors.js'
+import type { ImageTransform } from '../types.js'
+import { SECURITY_LIMITS } from '../types.js'
+import { normalizeHexColor } from './color.js'
+
+/**
+ * Default trim color distance threshold
+ */
+export const DEFAULT_TRIM_THRESHOLD = 10
+
+const ROTATION_ANGLES = new Set([90, 180, 270])
+const FLIP_DIRECTIONS = new Set(['horizontal', 'vertical', 'both'])
+
+const isInRange = (value: unknown, min: number, max: number): boolean =>
+	typeof value === 'number' &&
+	Number.isFinite(value) &&
+	value >= min &&
+	value <= max
+
+/**
+ * Check a single transformation, returning its normalized form
+ */
+function normalizeTransform(transform: ImageTransform): ImageTransform | null {
+	switch (transform.type) {
+		case 'autoOrient':
+		case 'grayscale':
+			return transform
+		case 'rotate':
+			return ROTATION_ANGLES.has(transform.angle) ? transform : null
+		case 'flip':
+			return FLIP_DIRECTIONS.has(transform.direction) ? transform : null
+		case 'blur':
+			return isInRange(transform.radius, 1, 250) ? transform : null
+		case 'sharpen':
+			return isInRange(transform.amount, 0, 10) ? transform : null
+		case 'trim': {
+			const threshold = transform.threshold ?? DEFAULT_TRIM_THRESHOLD
+			return isInRange(threshold, 0, 255)
+				? { type: 'trim', threshold }
+				: null
+		}
+		case 'background': {
+			const color = normalizeHexColor(transform.color)
+			return color ? { type: 'background', color } : null
+		}
+		case 'pad':
+			return [
+				transform.top,
+				transform.right,
+				transform.bottom,
+				transform.left,
+			].every(
+				size =>
+					Number.isInteger(size) &&
+					isInRange(size, 0, SECURITY_LIMITS.MAX_WIDTH),
+			)
+				? transform
+				: null
+		default:
+			return null
+	}
+}
+
+/**
+ * Validate a transformation list and normalize its values
+ * Trim thresholds get their default, and background colors become
+ * lowercase `rrggbb` hex without the leading #
+ * @throws {ImageValidationError} If a transformation is unknown or has
+ * invalid values (reason 'invalid_transform')
+ *
+ * @example
+ * ```typescript
+ * normalizeTransforms([{ type: 'background', color: '#FFF' }])
+ * // [{ type: 'background', color: 'ffffff' }]
+ * ```
+ */
+export function normalizeTransforms(
+	transforms: ImageTransform[],
+): ImageTransform[] {
+	return transforms.map(transform => {
+		const normalized = normalizeTransform(transform)
+		if (!normalized) {
+			throw new ImageValidationError(
+				`Invalid '${transform.type}' transform: ${JSON.stringify(transform)}`,
+				{ operation: transform.type, reason: 'invalid_transform' },
+			)
+		}
+		return normalized
+	})
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for watermark validation
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { ImageWatermark } from '../types.js'
+import {
+	getWatermarkAlignment,
+	normalizeWatermark,
+	WATERMARK_DEFAULTS,
+} from './watermark.js'
+
+describe('normalizeWatermark', () => {
+	it('should fill in placement defaults', () => {
+		expect(normalizeWatermark({ type: 'image', src: 'logo.png' })).toEqual({
+			type: 'image',
+			src: 'logo.png',
+			position: WATERMARK_DEFAULTS.position,
+			margin: WATERMARK_DEFAULTS.margin,
+			opacity: WATERMARK_DEFAULTS.opacity,
+			tile: false,
+		})
+	})
+
+	it('should fill in text defaults and normalize colors', () => {
+		expect(
+			normalizeWatermark({ type: 'text', text: 'Acme' }),
+		).toMatchObject({ size: WATERMARK_DEFAULTS.size, color: 'ffffff' })
+		expect(
+			normalizeWatermark({
+				type: 'text',
+				text: 'Acme',
+				font: 'Open Sans',
+				color: '#F00',
+			}),
+		).toMatchObject({ font: 'Open Sans', color: 'ff0000' })
+	})
+
+	it('should reject invalid values with the option', () => {
+		const invalid = [
+			['position', { type: 'image', src: 'a.png', position: 'entropy' }],
+			['margin', { type: 'image', src: 'a.png', margin: -1 }],
+			['opacity', { type: 'image', src: 'a.png', opacity: 1.5 }],
+			['src', { type: 'image', src: '' }],
+			['width', { type: 'image', src: 'a.png', width: 0 }],
+			['text', { type: 'text', text: '  ' }],
+			['text', { type: 'text', text: 'a'.repeat(201) }],
+			['font', { type: 'text', text: 'Acme', font: 'Arial"/><x' }],
+			['size', { type: 'text', text: 'Acme', size: 1.5 }],
+			['color', { type: 'text', text: 'Acme', color: 'red' }],
+		] as Array<[string, ImageWatermark]>
+
+		for (const [option, watermark] of invalid) {
+			expect(() => normalizeWatermark(watermark)).toThrowError(
+				expect.objectContaining({
+					name: 'ImageValidationError',
+					context: { option, reason: 'invalid_watermark' },
+				}),
+			)
+		}
+	})
+
+	it('should reject unknown watermark types', () => {
+		expect(() =>
+			normalizeWatermark({ type: 'video' } as unknown as ImageWatermark),
+		).toThrowError(
+			expect.objectContaining({
+				context: { option: 'type', reason: 'invalid_watermark' },
+			}),
+		)
+	})
+})
+
+describe('getWatermarkAlignment', () => {
+	it('should split positions into axes', () => {
+		expect(getWatermarkAlignment('top-left')).toEqual({
+			vertical: 'top',
+			horizontal: 'left',
+		})
+		expect(getWatermarkAlignment('bottom')).toEqual({
+			vertical: 'bottom',
+			horizontal: 'center',
+		})
+		expect(getWatermarkAlignment('right')).toEqual({
+			vertical: 'center',
+			horizontal: 'right',
+		})
+		expect(getWatermarkAlignment('center')).toEqual({
+			vertical: 'center',
+			horizontal: 'center',
+		})
+	})
+})
@@ -0,0 +1,190 @@
+/**
+ * Watermark utilities
+ * Validates watermarks and fills their defaults before adapters draw them
+ */
+
+import { ImageValidationError } from '../errors.js'
+import type {
+	ImageOverlayWatermark,
+	ImageWatermark,
+	TextWatermark,
+	WatermarkPosition,
+} from '../types.js'
+import { SECURITY_LIMITS } from '../types.js'
+import { normalizeHexColor } from './color.js'
+
+/**
+ * Watermark with its defaults filled in
+ * Colors are lowercase rrggbb hex without the leading #
+ */
+export type NormalizedWatermark =
+	| (Required<Omit<ImageOverlayWatermark, 'width'>> &
+			Pick<ImageOverlayWatermark, 'width'>)
+	| (Required<Omit<TextWatermark, 'font'>> & Pick<TextWatermark, 'font'>)
+
+/**
+ * Watermark placement split into its axes
+ */
+export interface WatermarkAlignment {
+	vertical: 'top' | 'center' | 'bottom'
+	horizontal: 'left' | 'center' | 'right'
+}
+
+/**
+ * Default watermark placement and text style
+ */
+export const WATERMARK_DEFAULTS = {
+	position: 'bottom-right',
+	margin: 10,
+	opacity: 1,
+	tile: false,
+	size: 24,
+	color: 'ffffff',
+} as const
+
+/**
+ * Maximum text watermark length, to keep URLs short
+ */
+const MAX_TEXT_LENGTH = 200
+
+const POSITIONS = new Set<string>([
+	'center',
+	'top',
+	'right',
+	'bottom',
+	'left',
+	'top-left',
+	'top-right',
+	'bottom-left',
+	'bottom-right',
+])
+
+/**
+ * Font families are passed to URLs and font descriptions as-is
+ */
+const FONT_PATTERN = /^[a-z0-9][a-z0-9 -]{0,63}$/i
+
+const isSize = (value: unknown, min: number): boolean =>
+	Number.isInteger(value) &&
+	(value as number) >= min &&
+	(value as number) <= SECURITY_LIMITS.MAX_WIDTH
+
+/**
+ * Fill in watermark defaults, undefined for unknown watermark types
+ */
+function withDefaults(
+	watermark: ImageWatermark,
+): NormalizedWatermark | undefined {
+	const placement = {
+		position: watermark.position ?? WATERMARK_DEFAULTS.position,
+		margin: watermark.margin ?? WATERMARK_DEFAULTS.margin,
+		opacity: watermark.opacity ?? WATERMARK_DEFAULTS.opacity,
+		tile: watermark.tile ?? WATERMARK_DEFAULTS.tile,
+	}
+
+	switch (watermark.type) {
+		case 'image':
+			return { ...watermark, ...placement }
+		case 'text':
+			return {
+				...watermark,
+				...placement,
+				size: watermark.size ?? WATERMARK_DEFAULTS.size,
+				color:
+					watermark.color === undefined
+						? WATERMARK_DEFAULTS.color
+						: (normalizeHexColor(watermark.color) ?? ''),
+			}
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Name of the first invalid watermark option, if any
+ */
+function findInvalidOption(watermark: NormalizedWatermark): string | undefined {
+	const { position, margin, opacity, tile } = watermark
+
+	if (!POSITIONS.has(position)) return 'position'
+	if (!isSize(margin, 0)) return 'margin'
+	if (
+		typeof opacity !== 'number' ||
+		!Number.isFinite(opacity) ||
+		opacity < 0 ||
+		opacity > 1
+	) {
+		return 'opacity'
+	}
+	if (typeof tile !== 'boolean') return 'tile'
+
+	if (watermark.type === 'image') {
+		if (typeof watermark.src !== 'string' || !watermark.src) return 'src'
+		if (watermark.width !== undefined && !isSize(watermark.width, 1)) {
+			return 'width'
+		}
+		return undefined
+	}
+
+	if (
+		typeof watermark.text !== 'string' ||
+		!watermark.text.trim() ||
+		watermark.text.length > MAX_TEXT_LENGTH
+	) {
+		return 'text'
+	}
+	if (watermark.font !== undefined && !FONT_PATTERN.test(watermark.font)) {
+		return 'font'
+	}
+	if (!isSize(watermark.size, 1)) return 'size'
+	if (!watermark.color) return 'color'
+	return undefined
+}
+
+/**
+ * Validate a watermark and fill in its defaults
+ * The image source is not checked here, adapters validate it as they
+ * validate image sources
+ * @throws {ImageValidationError} If the watermark has invalid values
+ * (reason 'invalid_watermark')
+ *
+ * @example
+ * ```typescript
+ * normalizeWatermark({ type: 'text', text: '© Acme', color: '#000' })
+ * // { type: 'text', text: '© Acme', color: '000000', size: 24, ... }
+ * ```
+ */
+export function normalizeWatermark(
+	watermark: ImageWatermark,
+): NormalizedWatermark {
+	const normalized = withDefaults(watermark)
+	const option = normalized ? findInvalidOption(normalized) : 'type'
+
+	if (!normalized || option) {
+		throw new ImageValidationError(
+			`Invalid watermark ${option}: ${JSON.stringify(watermark)}`,
+			{ option, reason: 'invalid_watermark' },
+		)
+	}
+	return normalized
+}
+
+/**
+ * Split a watermark position into vertical and horizontal alignment
+ */
+export function getWatermarkAlignment(
+	position: WatermarkPosition,
+): WatermarkAlignment {
+	return {
+		vertical: position.startsWith('top')
+			? 'top'
+			: position.startsWith('bottom')
+				? 'bottom'
+				: 'center',
+		horizontal: position.endsWith('left')
+			? 'left'
+			: position.endsWith('right')
+				? 'right'
+				: 'center',
+	}
+}
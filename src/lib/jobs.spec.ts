@@ -0,0 +1,328 @@
+/**
+ * Asynchronous job tests
+ */
+
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+	vi,
+} from 'vitest'
+
+import type { ApiResponse, JobHandle, JobState } from '../types/index.js'
+import { createClient } from './core.js'
+import {
+	FunctionsConfigError,
+	FunctionsTimeoutError,
+	isFunctionsJobError,
+	ResponseValidationError,
+} from './errors.js'
+import { resolveWaitOptions } from './jobs.js'
+import { schema } from './schema.js'
+
+vi.mock('../utils/logger.js', () => ({
+	apiLogger: {
+		warn: vi.fn(),
+	},
+	coreLogger: {
+		info: vi.fn(),
+	},
+	logApiResponse: vi.fn(),
+	logError: vi.fn(),
+}))
+
+describe('Jobs', () => {
+	const fetchMock = vi.fn()
+
+	const jsonResponse = (body: unknown, status = 200): Response =>
+		new Response(JSON.stringify(body), {
+			status,
+			headers: { 'Content-Type': 'application/json' },
+		})
+
+	const jobResponse = (state: Partial<JobState>, status = 200): Response =>
+		jsonResponse({ id: 'job-1', status: 'running', ...state }, status)
+
+	beforeEach(() => {
+		fetchMock.mockReset()
+		vi.stubGlobal('fetch', fetchMock)
+	})
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+		vi.useRealTimers()
+	})
+
+	describe('submit', () => {
+		it('should POST the payload to the jobs endpoint', async () => {
+			fetchMock.mockResolvedValue(jobResponse({ status: 'queued' }, 202))
+			const client = createClient({ baseUrl: 'https://api.example.com' })
+
+			const job = await client.submit('transcode', { src: 'video.mp4' })
+
+			expect(job.id).toBe('job-1')
+			expect(job.functionName).toBe('transcode')
+			const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+			expect(url).toBe('https://api.example.com/functions/transcode/jobs')
+			expect(init.method).toBe('POST')
+			expect(init.body).toBe(JSON.stringify({ src: 'video.mp4' }))
+		})
+
+		it('should type job handles from the registry', async () => {
+			fetchMock.mockImplementation(async () =>
+				jobResponse({ status: 'queued' }, 202),
+			)
+			type Functions = {
+				transcode: {
+					input: { src: string }
+					output: { url: string }
+				}
+			}
+			const client = createClient<Functions>()
+
+			const job = await client.submit('transcode', { src: 'video.mp4' })
+
+			expectTypeOf(job).toEqualTypeOf<JobHandle<{ url: string }>>()
+			expectTypeOf(job.wait).returns.resolves.toEqualTypeOf<
+				ApiResponse<{ url: string }>
+			>()
+			// @ts-expect-error - payload does not match the registry
+			await client.submit('transcode', { source: 'video.mp4' })
+		})
+
+		it('should reject when the server does not return a job', async () => {
+			fetchMock.mockResolvedValue(jsonResponse({ ok: true }, 202))
+			const client = createClient()
+
+			await expect(client.submit('transcode')).rejects.toThrow(
+				ResponseValidationError,
+			)
+		})
+
+		it('should reject when the function name is empty', async () => {
+			const client = createClient()
+
+			await expect(client.submit('')).rejects.toThrow(
+				FunctionsConfigError,
+			)
+			expect(fetchMock).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('job', () => {
+		it('should resume a job from its id', async () => {
+			fetchMock.mockResolvedValue(jobResponse({ progress: 0.5 }))
+			const client = createClient({ baseUrl: 'https://api.example.com' })
+
+			const state = await client.job('transcode', 'job 1').status()
+
+			expect(state).toMatchObject({ status: 'running', progress: 0.5 })
+			const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+			expect(url).toBe(
+				'https://api.example.com/functions/transcode/jobs/job%201',
+			)
+			expect(init.method).toBe('GET')
+			expect(init.body).toBeUndefined()
+		})
+
+		it('should reject an empty job id', () => {
+			const client = createClient()
+
+			expect(() => client.job('transcode', '')).toThrow(
+				FunctionsConfigError,
+			)
+		})
+
+		it('should cancel the job with a DELETE request', async () => {
+			fetchMock.mockResolvedValue(new Response(null, { status: 204 }))
+			const client = createClient()
+
+			await client.job('transcode', 'job-1').cancel()
+
+			const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+			expect(url).toBe('/functions/transcode/jobs/job-1')
+			expect(init.method).toBe('DELETE')
+		})
+	})
+
+	describe('wait', () => {
+		it('should poll with backoff until the job succeeds', async () => {
+			vi.useFakeTimers()
+			fetchMock
+				.mockResolvedValueOnce(jobResponse({ status: 'queued' }))
+				.mockResolvedValueOnce(jobResponse({ progress: 0.5 }))
+				.mockResolvedValueOnce(
+					jobResponse({
+						status: 'succeeded',
+						result: { url: 'video.webm' },
+					}),
+				)
+			const client = createClient()
+
+			const pending = client
+				.job('transcode', 'job-1')
+				.wait({ pollInterval: 100 })
+			await vi.advanceTimersByTimeAsync(100)
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+			await vi.advanceTimersByTimeAsync(100)
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+			await vi.advanceTimersByTimeAsync(50)
+
+			await expect(pending).resolves.toEqual({
+				success: true,
+				data: { url: 'video.webm' },
+				statusCode: 200,
+			})
+			expect(fetchMock).toHaveBeenCalledTimes(3)
+		})
+
+		it('should cap the poll interval', async () => {
+			vi.useFakeTimers()
+			fetchMock.mockImplementation(async () => jobResponse({}))
+			const client = createClient()
+
+			void client
+				.job('transcode', 'job-1')
+				.wait({ pollInterval: 100, maxPollInterval: 120 })
+				.catch(() => {})
+			await vi.advanceTimersByTimeAsync(100 + 120 + 120)
+
+			expect(fetchMock).toHaveBeenCalledTimes(4)
+		})
+
+		it('should reject with a job error when the job fails', async () => {
+			fetchMock.mockResolvedValue(
+				jobResponse({ status: 'failed', error: 'codec not supported' }),
+			)
+			const client = createClient()
+
+			const error = await client
+				.job('transcode', 'job-1')
+				.wait()
+				.catch(error => error)
+
+			expect(isFunctionsJobError(error)).toBe(true)
+			expect(error).toMatchObject({
+				code: 'JOB_FAILED',
+				jobId: 'job-1',
+				jobStatus: 'failed',
+				functionName: 'transcode',
+			})
+			expect(error.message).toContain('codec not supported')
+		})
+
+		it('should reject with a job error when the job is cancelled', async () => {
+			fetchMock.mockResolvedValue(jobResponse({ status: 'cancelled' }))
+			const client = createClient()
+
+			await expect(
+				client.job('transcode', 'job-1').wait(),
+			).rejects.toMatchObject({ code: 'JOB_CANCELLED' })
+		})
+
+		it('should reject once the wait timeout elapses', async () => {
+			vi.useFakeTimers()
+			fetchMock.mockImplementation(async () => jobResponse({}))
+			const client = createClient()
+
+			const pending = client
+				.job('transcode', 'job-1')
+				.wait({ pollInterval: 100, timeout: 250 })
+			const assertion = expect(pending).rejects.toThrow(
+				FunctionsTimeoutError,
+			)
+			await vi.advanceTimersByTimeAsync(250)
+
+			await assertion
+		})
+
+		it('should stop waiting when the signal aborts', async () => {
+			vi.useFakeTimers()
+			fetchMock.mockImplementation(async () => jobResponse({}))
+			const controller = new AbortController()
+			const client = createClient()
+
+			const pending = client
+				.job('transcode', 'job-1')
+				.wait({ signal: controller.signal })
+			const assertion = expect(pending).rejects.toMatchObject({
+				name: 'AbortError',
+			})
+			await vi.advanceTimersByTimeAsync(0)
+			controller.abort()
+
+			await assertion
+			expect(fetchMock).toHaveBeenCalledTimes(1)
+		})
+
+		it('should validate the result with the schema', async () => {
+			fetchMock.mockResolvedValue(
+				jobResponse({ status: 'succeeded', result: { url: 42 } }),
+			)
+			const client = createClient()
+
+			await expect(
+				client
+					.job('transcode', 'job-1', {
+						schema: schema.object({ url: schema.string() }),
+					})
+					.wait(),
+			).rejects.toThrow(ResponseValidationError)
+		})
+
+		it('should notify progress listeners on changes only', async () => {
+			vi.useFakeTimers()
+			fetchMock
+				.mockResolvedValueOnce(jobResponse({ progress: 0.1 }))
+				.mockResolvedValueOnce(jobResponse({ progress: 0.1 }))
+				.mockResolvedValueOnce(jobResponse({ progress: 0.6 }))
+				.mockResolvedValueOnce(jobResponse({ status: 'succeeded' }))
+			const client = createClient()
+			const job = client.job('transcode', 'job-1')
+			const listener = vi.fn()
+			job.onProgress(listener)
+
+			const pending = job.wait({ pollInterval: 10, maxPollInterval: 10 })
+			await vi.advanceTimersByTimeAsync(30)
+			await pending
+
+			expect(
+				listener.mock.calls.map(([state]) => state.progress),
+			).toEqual([0.1, 0.6, undefined])
+		})
+
+		it('should stop notifying removed listeners', async () => {
+			fetchMock.mockResolvedValue(jobResponse({ progress: 0.2 }))
+			const client = createClient()
+			const job = client.job('transcode', 'job-1')
+			const listener = vi.fn()
+
+			job.onProgress(listener)()
+			await job.status()
+
+			expect(listener).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('resolveWaitOptions', () => {
+		it('should apply defaults', () => {
+			expect(resolveWaitOptions()).toEqual({
+				pollInterval: 1000,
+				maxPollInterval: 10_000,
+			})
+		})
+
+		it.each([
+			{ pollInterval: 0 },
+			{ pollInterval: 500, maxPollInterval: 100 },
+			{ timeout: -1 },
+		])('should reject invalid options %o', options => {
+			expect(() => resolveWaitOptions(options)).toThrow(
+				FunctionsConfigError,
+			)
+		})
+	})
+})
@@ -0,0 +1,262 @@
+/**
+ * Asynchronous jobs for long-running functions
+ * Submitted jobs are polled with backoff until they settle
+ */
+
+import type {
+	ApiResponse,
+	FunctionResponse,
+	InvokeOptions,
+	JobHandle,
+	JobProgressListener,
+	JobState,
+	JobWaitOptions,
+} from '../types/index.js'
+import { delay } from '../utils/utils.js'
+import type { FunctionsErrorContext } from './errors.js'
+import {
+	FunctionsConfigError,
+	FunctionsJobError,
+	FunctionsTimeoutError,
+} from './errors.js'
+import { schema, validateResponse } from './schema.js'
+
+/**
+ * Default delay before the first status poll in milliseconds
+ */
+const DEFAULT_POLL_INTERVAL = 1000
+
+/**
+ * Default upper bound of the delay between status polls in milliseconds
+ */
+const DEFAULT_MAX_POLL_INTERVAL = 10_000
+
+/**
+ * Factor applied to the poll interval after each poll
+ */
+const POLL_BACKOFF_FACTOR = 1.5
+
+/**
+ * Successful response together with its error context
+ */
+export interface ExecutedRequest {
+	response: FunctionResponse
+	context: FunctionsErrorContext
+}
+
+/**
+ * Send a request through the client pipeline (middleware, retries, timeouts)
+ * Resolves with 2xx responses only
+ */
+export type ExecuteRequest = (
+	functionName: string,
+	method: string,
+	url: string,
+	body: unknown,
+	options: InvokeOptions,
+) => Promise<ExecutedRequest>
+
+/**
+ * Dependencies of a job handle
+ */
+export interface JobHandleConfig<TOutput> {
+	/** Name of the function running the job */
+	functionName: string
+	/** Job identifier assigned by the server */
+	id: string
+	/** Jobs collection URL of the function */
+	jobsUrl: string
+	/** Request executor of the client */
+	execute: ExecuteRequest
+	/** Options applied to every status and cancel request */
+	options?: Omit<InvokeOptions<TOutput>, 'signal'>
+}
+
+const jobStateSchema = schema.object({
+	id: schema.string(),
+	status: schema.union(
+		schema.literal('queued'),
+		schema.literal('running'),
+		schema.literal('succeeded'),
+		schema.literal('failed'),
+		schema.literal('cancelled'),
+	),
+	progress: schema.optional(schema.number()),
+	result: schema.unknown(),
+	error: schema.optional(schema.string()),
+})
+
+/**
+ * Validate a job state sent by the server
+ * @throws {ResponseValidationError} If the body is not a job state
+ */
+export function parseJobState(
+	functionName: string,
+	data: unknown,
+	context: FunctionsErrorContext = {},
+): JobState {
+	return validateResponse(functionName, jobStateSchema, data, context)
+}
+
+/**
+ * Merge wait options with defaults
+ * @throws {FunctionsConfigError} If an interval or the timeout is invalid
+ */
+export function resolveWaitOptions(
+	options: JobWaitOptions = {},
+): Required<Pick<JobWaitOptions, 'pollInterval' | 'maxPollInterval'>> &
+	JobWaitOptions {
+	const resolved = {
+		pollInterval: DEFAULT_POLL_INTERVAL,
+		maxPollInterval: DEFAULT_MAX_POLL_INTERVAL,
+		...options,
+	}
+
+	if (
+		!(resolved.pollInterval > 0) ||
+		!(resolved.maxPollInterval >= resolved.pollInterval)
+	) {
+		throw new FunctionsConfigError(
+			`Invalid wait options: expected 0 < pollInterval <= maxPollInterval, got ${resolved.pollInterval} and ${resolved.maxPollInterval}`,
+		)
+	}
+
+	if (resolved.timeout !== undefined && !(resolved.timeout > 0)) {
+		throw new FunctionsConfigError(
+			`Invalid wait options: timeout must be a positive number of milliseconds, got ${resolved.timeout}`,
+		)
+	}
+
+	return resolved
+}
+
+/**
+ * Create a handle tracking a submitted job
+ */
+export function createJobHandle<TOutput>({
+	functionName,
+	id,
+	jobsUrl,
+	execute,
+	options = {},
+}: JobHandleConfig<TOutput>): JobHandle<TOutput> {
+	const jobUrl = `${jobsUrl}/${encodeURIComponent(id)}`
+	const { schema: resultSchema } = options
+	const listeners = new Set<JobProgressListener<TOutput>>()
+	let lastState: JobState<TOutput> | undefined
+
+	// Notify listeners only when the status or progress changed
+	const emit = (state: JobState<TOutput>): void => {
+		const changed =
+			state.status !== lastState?.status ||
+			state.progress !== lastState?.progress
+		lastState = state
+		if (!changed) return
+
+		for (const listener of listeners) {
+			listener(state)
+		}
+	}
+
+	const poll = async (
+		signal?: AbortSignal,
+	): Promise<ExecutedRequest & { state: JobState<TOutput> }> => {
+		const executed = await execute(functionName, 'GET', jobUrl, undefined, {
+			...options,
+			signal,
+		})
+		const state = parseJobState(
+			functionName,
+			executed.response.data,
+			executed.context,
+		) as JobState<TOutput>
+
+		if (state.status === 'succeeded' && resultSchema) {
+			state.result = validateResponse(
+				functionName,
+				resultSchema,
+				state.result,
+				executed.context,
+			)
+		}
+
+		emit(state)
+		return { ...executed, state }
+	}
+
+	const createJobError = (
+		jobStatus: 'failed' | 'cancelled',
+		state: JobState<TOutput>,
+		context: FunctionsErrorContext,
+	): FunctionsJobError =>
+		new FunctionsJobError(
+			jobStatus === 'cancelled'
+				? `Job "${id}" of function "${functionName}" was cancelled`
+				: `Job "${id}" of function "${functionName}" failed: ${state.error ?? 'unknown error'}`,
+			id,
+			jobStatus,
+			{ ...context, body: state },
+		)
+
+	return {
+		id,
+		functionName,
+
+		status: async ({ signal } = {}) => (await poll(signal)).state,
+
+		wait: async (waitOptions): Promise<ApiResponse<TOutput>> => {
+			const { pollInterval, maxPollInterval, timeout, signal } =
+				resolveWaitOptions(waitOptions)
+			const deadline = Date.now() + (timeout ?? Number.POSITIVE_INFINITY)
+			let interval = pollInterval
+
+			for (;;) {
+				const { state, response, context } = await poll(signal)
+
+				if (state.status === 'succeeded') {
+					return {
+						success: true,
+						data: state.result,
+						statusCode: response.status,
+					}
+				}
+
+				if (state.status === 'failed' || state.status === 'cancelled') {
+					throw createJobError(state.status, state, context)
+				}
+
+				const remaining = deadline - Date.now()
+				if (timeout !== undefined && remaining <= 0) {
+					throw new FunctionsTimeoutError(
+						`Job "${id}" of function "${functionName}" did not finish within ${timeout}ms`,
+						timeout,
+						{
+							...context,
+							details: { jobId: id, status: state.status },
+						},
+					)
+				}
+
+				await delay(Math.min(interval, remaining), signal)
+				interval = Math.min(
+					interval * POLL_BACKOFF_FACTOR,
+					maxPollInterval,
+				)
+			}
+		},
+
+		cancel: async ({ signal } = {}) => {
+			await execute(functionName, 'DELETE', jobUrl, undefined, {
+				...options,
+				signal,
+			})
+		},
+
+		onProgress: listener => {
+			listeners.add(listener)
+			return () => {
+				listeners.delete(listener)
+			}
+		},
+	}
+}
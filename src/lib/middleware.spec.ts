@@ -0,0 +1,163 @@
+/**
+ * Middleware pipeline tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type {
+	FunctionRequest,
+	FunctionResponse,
+	Middleware,
+} from '../types/index.js'
+import { logApiResponse, logError } from '../utils/logger.js'
+import { composeMiddleware, loggingMiddleware } from './middleware.js'
+
+// Mock the logger
+vi.mock('../utils/logger.js', () => ({
+	logApiResponse: vi.fn(),
+	logError: vi.fn(),
+}))
+
+describe('Middleware', () => {
+	const request: FunctionRequest = {
+		functionName: 'hello',
+		url: '/functions/hello',
+		method: 'POST',
+		headers: {},
+		body: { name: 'Ada' },
+		requestId: 'req-1',
+		attempt: 1,
+	}
+
+	const okResponse = (data: unknown = null): FunctionResponse => ({
+		status: 200,
+		headers: new Headers(),
+		data,
+	})
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	describe('composeMiddleware', () => {
+		it('should call the handler directly without middleware', async () => {
+			const handler = vi.fn(async () => okResponse('done'))
+
+			const response = await composeMiddleware([], handler)(request)
+
+			expect(handler).toHaveBeenCalledWith(request)
+			expect(response.data).toBe('done')
+		})
+
+		it('should run middleware in order around the handler', async () => {
+			const calls: string[] = []
+			const track =
+				(name: string): Middleware =>
+				async (req, next) => {
+					calls.push(`${name}:before`)
+					const response = await next(req)
+					calls.push(`${name}:after`)
+					return response
+				}
+
+			await composeMiddleware(
+				[track('first'), track('second')],
+				async () => {
+					calls.push('handler')
+					return okResponse()
+				},
+			)(request)
+
+			expect(calls).toEqual([
+				'first:before',
+				'second:before',
+				'handler',
+				'second:after',
+				'first:after',
+			])
+		})
+
+		it('should pass transformed requests and responses', async () => {
+			const addTenant: Middleware = (req, next) =>
+				next({
+					...req,
+					headers: { ...req.headers, 'X-Tenant': 'acme' },
+				})
+			const unwrap: Middleware = async (req, next) => {
+				const response = await next(req)
+				return {
+					...response,
+					data: (response.data as { result: unknown }).result,
+				}
+			}
+			const handler = vi.fn(async () => okResponse({ result: 42 }))
+
+			const response = await composeMiddleware(
+				[unwrap, addTenant],
+				handler,
+			)(request)
+
+			expect(handler).toHaveBeenCalledWith(
+				expect.objectContaining({ headers: { 'X-Tenant': 'acme' } }),
+			)
+			expect(response.data).toBe(42)
+		})
+
+		it('should allow short-circuiting the chain', async () => {
+			const cached: Middleware = async () => okResponse('cached')
+			const handler = vi.fn(async () => okResponse('fresh'))
+
+			const response = await composeMiddleware([cached], handler)(request)
+
+			expect(response.data).toBe('cached')
+			expect(handler).not.toHaveBeenCalled()
+		})
+
+		it('should allow calling next again to retry', async () => {
+			const retryOnce: Middleware = async (req, next) => {
+				const response = await next(req)
+				return response.status === 503 ? next(req) : response
+			}
+			const handler = vi
+				.fn<() => Promise<FunctionResponse>>()
+				.mockResolvedValueOnce({ ...okResponse(), status: 503 })
+				.mockResolvedValueOnce(okResponse('second'))
+
+			const response = await composeMiddleware(
+				[retryOnce],
+				handler,
+			)(request)
+
+			expect(handler).toHaveBeenCalledTimes(2)
+			expect(response.data).toBe('second')
+		})
+	})
+
+	describe('loggingMiddleware', () => {
+		it('should log responses', async () => {
+			await loggingMiddleware(request, async () => okResponse())
+
+			expect(logApiResponse).toHaveBeenCalledWith(
+				'POST',
+				'/functions/hello',
+				200,
+			)
+		})
+
+		it('should log and rethrow failures', async () => {
+			const error = new Error('boom')
+
+			await expect(
+				loggingMiddleware(request, async () => {
+					throw error
+				}),
+			).rejects.toBe(error)
+			expect(logError).toHaveBeenCalledWith(error, {
+				function: 'hello',
+				url: '/functions/hello',
+				requestId: 'req-1',
+				attempt: 1,
+			})
+		})
+	})
+})
@@ -0,0 +1,40 @@
+/**
+ * Middleware pipeline for function invocations
+ */
+
+import type { Middleware, MiddlewareNext } from '../types/index.js'
+import { logApiResponse, logError } from '../utils/logger.js'
+
+/**
+ * Compose middleware around a handler
+ * The first middleware is the outermost: it sees the request first and the response last
+ */
+export function composeMiddleware(
+	middleware: Middleware[],
+	handler: MiddlewareNext,
+): MiddlewareNext {
+	return middleware.reduceRight<MiddlewareNext>(
+		(next, current) => request => current(request, next),
+		handler,
+	)
+}
+
+/**
+ * Built-in logging middleware
+ * Logs every response through logApiResponse and every failure through logError
+ */
+export const loggingMiddleware: Middleware = async (request, next) => {
+	try {
+		const response = await next(request)
+		logApiResponse(request.method, request.url, response.status)
+		return response
+	} catch (error) {
+		logError(error, {
+			function: request.functionName,
+			url: request.url,
+			requestId: request.requestId,
+			attempt: request.attempt,
+		})
+		throw error
+	}
+}
@@ -0,0 +1,172 @@
+/**
+ * Mock transport tests
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { createClient } from './core.js'
+import {
+	FunctionsHttpError,
+	FunctionsNetworkError,
+	FunctionsTimeoutError,
+} from './errors.js'
+import { createMockTransport, mockReply } from './mock-transport.js'
+
+vi.mock('../utils/logger.js', () => ({
+	apiLogger: {
+		warn: vi.fn(),
+	},
+	coreLogger: {
+		info: vi.fn(),
+	},
+	logApiResponse: vi.fn(),
+	logError: vi.fn(),
+}))
+
+describe('Mock Transport', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('should answer with the data returned by the handler', async () => {
+		const mock = createMockTransport().on('resizeImage', request => ({
+			url: `${(request.body as { src: string }).src}?w=800`,
+		}))
+		const client = createClient({ transport: mock })
+
+		const response = await client.invoke('resizeImage', { src: 'a.jpg' })
+
+		expect(response).toEqual({
+			success: true,
+			data: { url: 'a.jpg?w=800' },
+			statusCode: 200,
+		})
+	})
+
+	it('should record calls for assertions', async () => {
+		const mock = createMockTransport().on('ping', () => 'pong')
+		const client = createClient({
+			apiKey: 'test-key',
+			baseUrl: 'https://api.example.com',
+			transport: mock,
+		})
+
+		await client.invoke('ping', { n: 1 })
+		await client.invoke('ping', { n: 2 })
+
+		expect(mock.calls).toHaveLength(2)
+		expect(mock.callsTo('ping').map(call => call.body)).toEqual([
+			{ n: 1 },
+			{ n: 2 },
+		])
+		expect(mock.calls[0]).toMatchObject({
+			functionName: 'ping',
+			method: 'POST',
+			url: 'https://api.example.com/functions/ping',
+			headers: { Authorization: 'Bearer test-key' },
+		})
+	})
+
+	it('should simulate status codes with fixed replies', async () => {
+		const mock = createMockTransport().on(
+			'resizeImage',
+			mockReply({ status: 422, data: { error: 'Invalid width' } }),
+		)
+		const client = createClient({ transport: mock })
+
+		await expect(client.invoke('resizeImage')).rejects.toMatchObject({
+			statusCode: 422,
+			body: { error: 'Invalid width' },
+		})
+	})
+
+	it('should use one-off handlers before persistent ones', async () => {
+		const mock = createMockTransport()
+			.on('flaky', () => 'ok')
+			.once('flaky', mockReply({ status: 503 }))
+		const client = createClient({
+			transport: mock,
+			retry: { baseDelay: 0, maxDelay: 0 },
+		})
+
+		const response = await client.invoke('flaky')
+
+		expect(response.data).toBe('ok')
+		expect(mock.callsTo('flaky')).toHaveLength(2)
+	})
+
+	it('should answer unregistered functions with a 404', async () => {
+		const client = createClient({ transport: createMockTransport() })
+
+		await expect(client.invoke('missing')).rejects.toThrow(
+			FunctionsHttpError,
+		)
+	})
+
+	it('should report handler errors as network errors', async () => {
+		const mock = createMockTransport().on('broken', () => {
+			throw new Error('connection reset')
+		})
+		const client = createClient({
+			transport: mock,
+			retry: { maxAttempts: 2, baseDelay: 0, maxDelay: 0 },
+		})
+
+		await expect(client.invoke('broken')).rejects.toThrow(
+			FunctionsNetworkError,
+		)
+		expect(mock.calls).toHaveLength(2)
+	})
+
+	it('should simulate latency', async () => {
+		vi.useFakeTimers()
+		const mock = createMockTransport({ latency: 200 }).on('slow', () => 1)
+		const client = createClient({ transport: mock, timeout: 100 })
+
+		const pending = client.invoke('slow')
+		const assertion = expect(pending).rejects.toThrow(FunctionsTimeoutError)
+		await vi.advanceTimersByTimeAsync(100)
+
+		await assertion
+	})
+
+	it('should let replies override the latency', async () => {
+		const mock = createMockTransport({ latency: 200 }).on(
+			'fast',
+			mockReply({ data: 1, delay: 0 }),
+		)
+		const client = createClient({ transport: mock, timeout: 100 })
+
+		await expect(client.invoke('fast')).resolves.toMatchObject({
+			data: 1,
+		})
+	})
+
+	it('should stream events to streaming requests', async () => {
+		const mock = createMockTransport().on(
+			'generate',
+			mockReply({ events: [{ token: 'Hel' }, { token: 'lo' }] }),
+		)
+		const client = createClient({ transport: mock })
+
+		const tokens: unknown[] = []
+		for await (const { data } of client.stream('generate')) {
+			tokens.push(data)
+		}
+
+		expect(tokens).toEqual([{ token: 'Hel' }, { token: 'lo' }])
+	})
+
+	it('should clear handlers and calls on reset', async () => {
+		const mock = createMockTransport().on('ping', () => 'pong')
+		const client = createClient({ transport: mock })
+		await client.invoke('ping')
+
+		mock.reset()
+
+		expect(mock.calls).toHaveLength(0)
+		await expect(client.invoke('ping')).rejects.toMatchObject({
+			statusCode: 404,
+		})
+	})
+})
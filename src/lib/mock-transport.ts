@@ -0,0 +1,218 @@
+/**
+ * In-memory transport for testing code that uses the client
+ * Routes requests to handlers registered per function name and records them
+ */
+
+import type {
+	FunctionRequest,
+	FunctionResponse,
+	Transport,
+} from '../types/index.js'
+import { delay } from '../utils/utils.js'
+import { FunctionsClientError, FunctionsNetworkError } from './errors.js'
+
+/**
+ * Response returned by a mock handler
+ */
+export interface MockReply {
+	/** HTTP status code (default: 200) */
+	status?: number
+	/** Response headers */
+	headers?: Record<string, string>
+	/** Response data */
+	data?: unknown
+	/** Events sent as newline-delimited JSON to streaming requests */
+	events?: unknown[]
+	/** Latency of this response in milliseconds, overriding the transport's */
+	delay?: number
+}
+
+/**
+ * Handler answering the requests of a function
+ * Returns response data (sent with status 200) or a `mockReply()`, and
+ * throws to simulate a network failure
+ */
+export type MockHandler = (request: FunctionRequest) => unknown
+
+/**
+ * Options of the mock transport
+ */
+export interface MockTransportOptions {
+	/** Latency of every response in milliseconds (default: 0) */
+	latency?: number
+}
+
+/**
+ * In-memory transport with handler registration and call recording
+ */
+export interface MockTransport extends Transport {
+	/** Answer every request of a function with a handler or a fixed reply */
+	on(name: string, handler: MockHandler | MockReply): MockTransport
+	/** Answer the next request of a function, before persistent handlers */
+	once(name: string, handler: MockHandler | MockReply): MockTransport
+	/** Requests received so far, in order */
+	readonly calls: readonly FunctionRequest[]
+	/** Requests received for a function */
+	callsTo(name: string): FunctionRequest[]
+	/** Remove all handlers and recorded calls */
+	reset(): void
+}
+
+/**
+ * Replies created with mockReply(), told apart from plain response data
+ */
+const replies = new WeakSet<MockReply>()
+
+/**
+ * Create a reply with a status code, headers, events or latency
+ *
+ * @example
+ * ```typescript
+ * mock.on('resizeImage', () => mockReply({ status: 503 }))
+ * ```
+ */
+export function mockReply(reply: MockReply): MockReply {
+	const created = { ...reply }
+	replies.add(created)
+	return created
+}
+
+/**
+ * Encode events as a newline-delimited JSON body
+ */
+const createEventStream = (events: unknown[]): ReadableStream<Uint8Array> => {
+	const encoder = new TextEncoder()
+	return new ReadableStream({
+		start(controller) {
+			for (const event of events) {
+				controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+			}
+			controller.close()
+		},
+	})
+}
+
+/**
+ * Build the response of a reply
+ */
+const createResponse = (
+	request: FunctionRequest,
+	reply: MockReply,
+): FunctionResponse => {
+	const status = reply.status ?? 200
+	const headers = new Headers(reply.headers)
+
+	if (reply.events && request.responseType === 'stream' && status < 300) {
+		if (!headers.has('content-type')) {
+			headers.set('content-type', 'application/x-ndjson')
+		}
+		return { status, headers, data: createEventStream(reply.events) }
+	}
+
+	return { status, headers, data: reply.data }
+}
+
+/**
+ * Create an in-memory transport
+ * Requests to functions without a handler receive a 404 response
+ *
+ * @example
+ * ```typescript
+ * const mock = createMockTransport({ latency: 10 })
+ *   .on('resizeImage', request => ({ url: 'resized.jpg' }))
+ *   .once('ping', mockReply({ status: 503 }))
+ *
+ * const client = createClient({ transport: mock })
+ * await client.invoke('resizeImage', { src: 'photo.jpg' })
+ *
+ * expect(mock.callsTo('resizeImage')[0]?.body).toEqual({ src: 'photo.jpg' })
+ * ```
+ */
+export function createMockTransport(
+	options: MockTransportOptions = {},
+): MockTransport {
+	const handlers = new Map<string, MockHandler | MockReply>()
+	const queued = new Map<string, Array<MockHandler | MockReply>>()
+	const calls: FunctionRequest[] = []
+
+	const resolveReply = async (
+		request: FunctionRequest,
+	): Promise<MockReply> => {
+		const handler =
+			queued.get(request.functionName)?.shift() ??
+			handlers.get(request.functionName)
+
+		if (!handler) {
+			return {
+				status: 404,
+				data: {
+					error: `No mock handler registered for function "${request.functionName}"`,
+				},
+			}
+		}
+
+		if (typeof handler !== 'function') return handler
+
+		const result = await handler(request)
+		return typeof result === 'object' &&
+			result !== null &&
+			replies.has(result)
+			? result
+			: { data: result }
+	}
+
+	const transport = async (
+		request: FunctionRequest,
+	): Promise<FunctionResponse> => {
+		const { signal, ...recorded } = request
+		calls.push(recorded)
+
+		try {
+			const reply = await resolveReply(request)
+			await delay(reply.delay ?? options.latency ?? 0, signal)
+			return createResponse(request, reply)
+		} catch (error) {
+			if (signal?.aborted || error instanceof FunctionsClientError) {
+				throw error
+			}
+
+			const reason =
+				error instanceof Error ? error.message : String(error)
+			throw new FunctionsNetworkError(
+				`Network error while invoking function "${request.functionName}": ${reason}`,
+				{
+					functionName: request.functionName,
+					requestId: request.requestId,
+					cause: error,
+				},
+			)
+		}
+	}
+
+	const enqueue = (name: string, handler: MockHandler | MockReply): void => {
+		const queue = queued.get(name) ?? []
+		queue.push(handler)
+		queued.set(name, queue)
+	}
+
+	const mock: MockTransport = Object.assign(transport, {
+		on: (name: string, handler: MockHandler | MockReply) => {
+			handlers.set(name, handler)
+			return mock
+		},
+		once: (name: string, handler: MockHandler | MockReply) => {
+			enqueue(name, handler)
+			return mock
+		},
+		calls,
+		callsTo: (name: string) =>
+			calls.filter(call => call.functionName === name),
+		reset: () => {
+			handlers.clear()
+			queued.clear()
+			calls.length = 0
+		},
+	})
+
+	return mock
+}
@@ -0,0 +1,137 @@
+/**
+ * Retry policy tests
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import type { RetryPolicy } from '../types/index.js'
+import {
+	calculateBackoffDelay,
+	DEFAULT_RETRY_POLICY,
+	getRetryDelay,
+	isRetryableStatus,
+	parseRetryAfter,
+	resolveRetryPolicy,
+} from './retry.js'
+
+describe('Retry Policy', () => {
+	const policy: RetryPolicy = {
+		...DEFAULT_RETRY_POLICY,
+		baseDelay: 100,
+		maxDelay: 1000,
+		jitter: false,
+	}
+
+	describe('resolveRetryPolicy', () => {
+		it('should return defaults without custom policy', () => {
+			expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY)
+		})
+
+		it('should merge custom values with defaults', () => {
+			const resolved = resolveRetryPolicy({ maxAttempts: 5 })
+
+			expect(resolved.maxAttempts).toBe(5)
+			expect(resolved.baseDelay).toBe(DEFAULT_RETRY_POLICY.baseDelay)
+		})
+
+		it('should reject invalid maxAttempts', () => {
+			expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(
+				/maxAttempts/,
+			)
+			expect(() => resolveRetryPolicy({ maxAttempts: 1.5 })).toThrow(
+				/maxAttempts/,
+			)
+		})
+
+		it('should reject maxDelay below baseDelay', () => {
+			expect(() =>
+				resolveRetryPolicy({ baseDelay: 500, maxDelay: 100 }),
+			).toThrow(/baseDelay <= maxDelay/)
+		})
+	})
+
+	describe('isRetryableStatus', () => {
+		it('should retry gateway errors and rate limits', () => {
+			expect(isRetryableStatus(429, policy)).toBe(true)
+			expect(isRetryableStatus(502, policy)).toBe(true)
+			expect(isRetryableStatus(503, policy)).toBe(true)
+		})
+
+		it('should not retry client errors', () => {
+			expect(isRetryableStatus(400, policy)).toBe(false)
+			expect(isRetryableStatus(404, policy)).toBe(false)
+		})
+	})
+
+	describe('parseRetryAfter', () => {
+		it('should parse delay in seconds', () => {
+			expect(parseRetryAfter('3')).toBe(3000)
+		})
+
+		it('should parse HTTP dates relative to now', () => {
+			const now = Date.parse('Wed, 21 Oct 2025 07:28:00 GMT')
+
+			expect(parseRetryAfter('Wed, 21 Oct 2025 07:28:05 GMT', now)).toBe(
+				5000,
+			)
+		})
+
+		it('should clamp past dates to zero', () => {
+			const now = Date.parse('Wed, 21 Oct 2025 07:28:00 GMT')
+
+			expect(parseRetryAfter('Wed, 21 Oct 2025 07:27:00 GMT', now)).toBe(
+				0,
+			)
+		})
+
+		it('should ignore missing or invalid headers', () => {
+			expect(parseRetryAfter(null)).toBeUndefined()
+			expect(parseRetryAfter('')).toBeUndefined()
+			expect(parseRetryAfter('soon')).toBeUndefined()
+		})
+	})
+
+	describe('calculateBackoffDelay', () => {
+		it('should double the delay on each attempt', () => {
+			expect(calculateBackoffDelay(1, policy)).toBe(100)
+			expect(calculateBackoffDelay(2, policy)).toBe(200)
+			expect(calculateBackoffDelay(3, policy)).toBe(400)
+		})
+
+		it('should cap the delay at maxDelay', () => {
+			expect(calculateBackoffDelay(10, policy)).toBe(1000)
+		})
+
+		it('should keep jittered delays between half and full delay', () => {
+			const jittered = { ...policy, jitter: true }
+
+			expect(calculateBackoffDelay(2, jittered, () => 0)).toBe(100)
+			expect(calculateBackoffDelay(2, jittered, () => 1)).toBe(200)
+			expect(calculateBackoffDelay(2, jittered, () => 0.5)).toBe(150)
+		})
+	})
+
+	describe('getRetryDelay', () => {
+		it('should stop once maxAttempts is reached', () => {
+			expect(getRetryDelay(3, policy)).toBeUndefined()
+		})
+
+		it('should use backoff without Retry-After', () => {
+			expect(getRetryDelay(1, policy)).toBe(100)
+		})
+
+		it('should prefer Retry-After when respected', () => {
+			expect(getRetryDelay(1, policy, '1')).toBe(1000)
+		})
+
+		it('should ignore Retry-After when disabled', () => {
+			expect(
+				getRetryDelay(1, { ...policy, respectRetryAfter: false }, '1'),
+			).toBe(100)
+		})
+
+		it('should not retry when Retry-After exceeds maxDelay', () => {
+			expect(getRetryDelay(1, policy, '60')).toBeUndefined()
+		})
+	})
+})
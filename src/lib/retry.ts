@@ -0,0 +1,124 @@
+/**
+ * Retry policy for function invocations
+ * Exponential backoff with jitter and Retry-After support
+ */
+
+import type { RetryPolicy } from '../types/index.js'
+import { FunctionsConfigError } from './errors.js'
+
+/**
+ * Default retry policy
+ * - 3 attempts in total (1 call + 2 retries)
+ * - 200ms base delay doubling on each attempt, capped at 5s
+ * - Jitter enabled to avoid synchronized retries across clients
+ * - Retries timeouts, rate limits and gateway errors
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	baseDelay: 200,
+	maxDelay: 5000,
+	jitter: true,
+	retryableStatusCodes: [408, 429, 502, 503, 504],
+	respectRetryAfter: true,
+}
+
+/**
+ * Merge a custom retry policy with defaults
+ */
+export function resolveRetryPolicy(custom?: Partial<RetryPolicy>): RetryPolicy {
+	const policy = { ...DEFAULT_RETRY_POLICY, ...custom }
+
+	if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+		throw new FunctionsConfigError(
+			`Invalid retry policy: maxAttempts must be a positive integer, got ${policy.maxAttempts}`,
+		)
+	}
+
+	if (policy.baseDelay < 0 || policy.maxDelay < policy.baseDelay) {
+		throw new FunctionsConfigError(
+			`Invalid retry policy: expected 0 <= baseDelay <= maxDelay, got ${policy.baseDelay} and ${policy.maxDelay}`,
+		)
+	}
+
+	return policy
+}
+
+/**
+ * Check if an HTTP status code should be retried
+ */
+export function isRetryableStatus(
+	status: number,
+	policy: RetryPolicy,
+): boolean {
+	return policy.retryableStatusCodes.includes(status)
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ * Supports both delay-seconds and HTTP-date forms
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(
+	header: string | null | undefined,
+	now: number = Date.now(),
+): number | undefined {
+	if (!header) return undefined
+
+	const value = header.trim()
+	if (/^\d+$/.test(value)) {
+		return Number(value) * 1000
+	}
+
+	const date = Date.parse(value)
+	if (Number.isNaN(date)) return undefined
+
+	return Math.max(0, date - now)
+}
+
+/**
+ * Calculate exponential backoff delay for an attempt
+ * Uses "equal jitter": half of the delay is fixed, half is random
+ *
+ * @param attempt - Attempt that just failed (1-based)
+ */
+export function calculateBackoffDelay(
+	attempt: number,
+	policy: RetryPolicy,
+	random: () => number = Math.random,
+): number {
+	const exponential = policy.baseDelay * 2 ** (attempt - 1)
+	const capped = Math.min(policy.maxDelay, exponential)
+
+	if (!policy.jitter) return capped
+
+	const half = capped / 2
+	return Math.round(half + random() * half)
+}
+
+/**
+ * Get the delay before retrying a failed attempt
+ * A Retry-After header takes precedence over backoff when enabled
+ *
+ * @param attempt - Attempt that just failed (1-based)
+ * @param retryAfter - Retry-After header of the failed response, if any
+ * @returns Delay in milliseconds, or undefined if the call must not be retried
+ */
+export function getRetryDelay(
+	attempt: number,
+	policy: RetryPolicy,
+	retryAfter?: string | null,
+): number | undefined {
+	if (attempt >= policy.maxAttempts) return undefined
+
+	const serverDelay = policy.respectRetryAfter
+		? parseRetryAfter(retryAfter)
+		: undefined
+
+	if (serverDelay !== undefined) {
+		// Retrying before the server allows it would only fail again
+		return serverDelay <= policy.maxDelay ? serverDelay : undefined
+	}
+
+	return calculateBackoffDelay(attempt, policy)
+}
@@ -0,0 +1,180 @@
+/**
+ * Schema DSL and response validation tests
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { ResponseValidationError } from './errors.js'
+import {
+	formatSchemaPath,
+	SchemaValidationError,
+	schema,
+	validateResponse,
+} from './schema.js'
+
+describe('Schema', () => {
+	describe('primitives', () => {
+		it('should accept matching values', () => {
+			expect(schema.string().parse('text')).toBe('text')
+			expect(schema.number().parse(42)).toBe(42)
+			expect(schema.boolean().parse(false)).toBe(false)
+			expect(schema.unknown().parse({ any: 'thing' })).toEqual({
+				any: 'thing',
+			})
+		})
+
+		it('should reject mismatched values', () => {
+			expect(() => schema.string().parse(1)).toThrow(
+				SchemaValidationError,
+			)
+			expect(() => schema.number().parse('1')).toThrow(
+				'Expected number, received string',
+			)
+			expect(() => schema.number().parse(Number.NaN)).toThrow(
+				SchemaValidationError,
+			)
+		})
+
+		it('should validate literals', () => {
+			expect(schema.literal('done').parse('done')).toBe('done')
+			expect(() => schema.literal('done').parse('pending')).toThrow(
+				'Expected "done", received string',
+			)
+		})
+	})
+
+	describe('object', () => {
+		const user = schema.object({
+			id: schema.number(),
+			name: schema.string(),
+			email: schema.optional(schema.string()),
+		})
+
+		it('should parse matching objects', () => {
+			expect(user.parse({ id: 1, name: 'Ada' })).toEqual({
+				id: 1,
+				name: 'Ada',
+			})
+		})
+
+		it('should keep unknown keys', () => {
+			expect(user.parse({ id: 1, name: 'Ada', role: 'admin' })).toEqual({
+				id: 1,
+				name: 'Ada',
+				role: 'admin',
+			})
+		})
+
+		it('should report the path of the offending field', () => {
+			try {
+				user.parse({ id: '1', name: 'Ada' })
+				expect.fail('should have thrown')
+			} catch (error) {
+				expect(error).toBeInstanceOf(SchemaValidationError)
+				if (error instanceof SchemaValidationError) {
+					expect(error.path).toEqual(['id'])
+					expect(error.expected).toBe('number')
+					expect(error.received).toBe('string')
+				}
+			}
+		})
+
+		it('should reject arrays and null', () => {
+			expect(() => user.parse([])).toThrow(
+				'Expected object, received array',
+			)
+			expect(() => user.parse(null)).toThrow(
+				'Expected object, received null',
+			)
+		})
+	})
+
+	describe('composites', () => {
+		it('should report nested array paths', () => {
+			const list = schema.object({
+				items: schema.array(schema.object({ id: schema.number() })),
+			})
+
+			expect(() =>
+				list.parse({ items: [{ id: 1 }, { id: 'x' }] }),
+			).toThrow('at "items[1].id"')
+		})
+
+		it('should validate records', () => {
+			const counts = schema.record(schema.number())
+
+			expect(counts.parse({ a: 1, b: 2 })).toEqual({ a: 1, b: 2 })
+			expect(() => counts.parse({ a: 'x' })).toThrow('at "a"')
+		})
+
+		it('should accept null for nullable schemas', () => {
+			expect(schema.nullable(schema.string()).parse(null)).toBeNull()
+		})
+
+		it('should accept any matching union option', () => {
+			const id = schema.union(schema.string(), schema.number())
+
+			expect(id.parse('a')).toBe('a')
+			expect(id.parse(1)).toBe(1)
+			expect(() => id.parse(true)).toThrow(SchemaValidationError)
+		})
+	})
+
+	describe('formatSchemaPath', () => {
+		it('should format properties and indexes', () => {
+			expect(formatSchemaPath(['items', 0, 'id'])).toBe('items[0].id')
+			expect(formatSchemaPath([0, 'id'])).toBe('[0].id')
+			expect(formatSchemaPath([])).toBe('')
+		})
+	})
+
+	describe('validateResponse', () => {
+		it('should return parsed data', () => {
+			expect(validateResponse('fn', schema.number(), 1)).toBe(1)
+		})
+
+		it('should throw a structured error with the field path', () => {
+			try {
+				validateResponse(
+					'resizeImage',
+					schema.object({ url: schema.string() }),
+					{ url: 42 },
+				)
+				expect.fail('should have thrown')
+			} catch (error) {
+				expect(error).toBeInstanceOf(ResponseValidationError)
+				if (error instanceof ResponseValidationError) {
+					expect(error.code).toBe('RESPONSE_VALIDATION_FAILED')
+					expect(error.path).toEqual(['url'])
+					expect(error.functionName).toBe('resizeImage')
+					expect(error.details).toEqual({
+						path: 'url',
+						expected: 'string',
+						received: 'number',
+					})
+				}
+			}
+		})
+
+		it('should extract paths from Zod-like parser errors', () => {
+			const parser = {
+				parse: (): never => {
+					throw Object.assign(new Error('Invalid input'), {
+						issues: [{ path: ['items', 2, 'id'] }],
+					})
+				},
+			}
+
+			try {
+				validateResponse('list', parser, {})
+				expect.fail('should have thrown')
+			} catch (error) {
+				expect(error).toBeInstanceOf(ResponseValidationError)
+				if (error instanceof ResponseValidationError) {
+					expect(error.path).toEqual(['items', 2, 'id'])
+					expect(error.details.path).toBe('items[2].id')
+				}
+			}
+		})
+	})
+})
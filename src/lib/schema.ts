@@ -0,0 +1,297 @@
+/**
+ * Minimal schema DSL for runtime response validation
+ * Any object with a compatible `parse` method (e.g. a Zod schema) can be used instead
+ */
+
+import type { ResponseParser } from '../types/index.js'
+import type { FunctionsErrorContext } from './errors.js'
+import { ResponseValidationError } from './errors.js'
+
+/**
+ * Segment of the path to a value inside a response
+ */
+export type SchemaPathSegment = string | number
+
+/**
+ * Error thrown when a value does not match a schema
+ */
+export class SchemaValidationError extends Error {
+	constructor(
+		public readonly path: SchemaPathSegment[],
+		public readonly expected: string,
+		public readonly received: string,
+	) {
+		super(
+			`Expected ${expected}, received ${received}${path.length > 0 ? ` at "${formatSchemaPath(path)}"` : ''}`,
+		)
+		this.name = 'SchemaValidationError'
+	}
+}
+
+/**
+ * Schema that validates and returns typed values
+ */
+export interface Schema<T> extends ResponseParser<T> {
+	/**
+	 * Validate a value nested at the given path
+	 * @internal Used by composite schemas to report full paths
+	 */
+	check(value: unknown, path: SchemaPathSegment[]): T
+}
+
+/**
+ * Extract the output type of a schema or parser
+ */
+export type Infer<S> = S extends ResponseParser<infer T> ? T : never
+
+/**
+ * Format a path as a property accessor (e.g. `items[0].id`)
+ */
+export function formatSchemaPath(path: SchemaPathSegment[]): string {
+	return path
+		.map((segment, index) => {
+			if (typeof segment === 'number') return `[${segment}]`
+			return index === 0 ? segment : `.${segment}`
+		})
+		.join('')
+}
+
+/**
+ * Describe the type of a received value for error messages
+ */
+function describeValue(value: unknown): string {
+	if (value === null) return 'null'
+	if (Array.isArray(value)) return 'array'
+	return typeof value
+}
+
+/**
+ * Create a schema from a check function
+ */
+function createSchema<T>(
+	check: (value: unknown, path: SchemaPathSegment[]) => T,
+): Schema<T> {
+	return {
+		check,
+		parse: value => check(value, []),
+	}
+}
+
+/**
+ * Create a schema for a primitive `typeof` check
+ */
+function primitive<T>(type: string): Schema<T> {
+	return createSchema((value, path) => {
+		if (
+			typeof value !== type ||
+			(type === 'number' && Number.isNaN(value))
+		) {
+			throw new SchemaValidationError(path, type, describeValue(value))
+		}
+		return value as T
+	})
+}
+
+type Shape = Record<string, Schema<unknown>>
+
+type OptionalKeys<S extends Shape> = {
+	[K in keyof S]: undefined extends Infer<S[K]> ? K : never
+}[keyof S]
+
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+type ObjectOutput<S extends Shape> = Simplify<
+	{
+		[K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>
+	} & {
+		[K in OptionalKeys<S>]?: Infer<S[K]>
+	}
+>
+
+/**
+ * Schema builders
+ *
+ * @example
+ * ```typescript
+ * const resizeResult = schema.object({
+ *   url: schema.string(),
+ *   width: schema.number(),
+ *   tags: schema.optional(schema.array(schema.string())),
+ * })
+ *
+ * type ResizeResult = Infer<typeof resizeResult>
+ * ```
+ */
+export const schema = {
+	string: (): Schema<string> => primitive('string'),
+
+	number: (): Schema<number> => primitive('number'),
+
+	boolean: (): Schema<boolean> => primitive('boolean'),
+
+	unknown: (): Schema<unknown> => createSchema(value => value),
+
+	literal: <const T extends string | number | boolean | null>(
+		expected: T,
+	): Schema<T> =>
+		createSchema((value, path) => {
+			if (value !== expected) {
+				throw new SchemaValidationError(
+					path,
+					JSON.stringify(expected),
+					describeValue(value),
+				)
+			}
+			return value as T
+		}),
+
+	array: <T>(item: Schema<T>): Schema<T[]> =>
+		createSchema((value, path) => {
+			if (!Array.isArray(value)) {
+				throw new SchemaValidationError(
+					path,
+					'array',
+					describeValue(value),
+				)
+			}
+			return value.map((entry, index) =>
+				item.check(entry, [...path, index]),
+			)
+		}),
+
+	object: <S extends Shape>(shape: S): Schema<ObjectOutput<S>> =>
+		createSchema((value, path) => {
+			if (
+				typeof value !== 'object' ||
+				value === null ||
+				Array.isArray(value)
+			) {
+				throw new SchemaValidationError(
+					path,
+					'object',
+					describeValue(value),
+				)
+			}
+
+			// Unknown keys are kept so newer backends stay compatible
+			const result: Record<string, unknown> = { ...value }
+			for (const [key, property] of Object.entries(shape)) {
+				const parsed = property.check(
+					(value as Record<string, unknown>)[key],
+					[...path, key],
+				)
+				if (parsed !== undefined) {
+					result[key] = parsed
+				}
+			}
+			return result as ObjectOutput<S>
+		}),
+
+	record: <T>(values: Schema<T>): Schema<Record<string, T>> =>
+		createSchema((value, path) => {
+			if (
+				typeof value !== 'object' ||
+				value === null ||
+				Array.isArray(value)
+			) {
+				throw new SchemaValidationError(
+					path,
+					'object',
+					describeValue(value),
+				)
+			}
+
+			const result: Record<string, T> = {}
+			for (const [key, entry] of Object.entries(value)) {
+				result[key] = values.check(entry, [...path, key])
+			}
+			return result
+		}),
+
+	optional: <T>(inner: Schema<T>): Schema<T | undefined> =>
+		createSchema((value, path) =>
+			value === undefined ? undefined : inner.check(value, path),
+		),
+
+	nullable: <T>(inner: Schema<T>): Schema<T | null> =>
+		createSchema((value, path) =>
+			value === null ? null : inner.check(value, path),
+		),
+
+	union: <T extends Schema<unknown>[]>(
+		...options: T
+	): Schema<Infer<T[number]>> =>
+		createSchema((value, path) => {
+			for (const option of options) {
+				try {
+					return option.check(value, path) as Infer<T[number]>
+				} catch (error) {
+					if (!(error instanceof SchemaValidationError)) throw error
+				}
+			}
+			throw new SchemaValidationError(
+				path,
+				`one of ${options.length} options`,
+				describeValue(value),
+			)
+		}),
+} as const
+
+/**
+ * Extract the path of the first issue from a parser error
+ * Supports SchemaValidationError and Zod-like `issues` arrays
+ */
+function getErrorPath(error: unknown): SchemaPathSegment[] {
+	if (error instanceof SchemaValidationError) {
+		return error.path
+	}
+
+	const issues = (error as { issues?: unknown } | null)?.issues
+	if (Array.isArray(issues)) {
+		const path = (issues[0] as { path?: unknown } | undefined)?.path
+		if (Array.isArray(path)) {
+			return path.filter(
+				(segment): segment is SchemaPathSegment =>
+					typeof segment === 'string' || typeof segment === 'number',
+			)
+		}
+	}
+
+	return []
+}
+
+/**
+ * Validate response data of a function with a parser
+ * @throws {ResponseValidationError} If the data does not match
+ */
+export function validateResponse<T>(
+	functionName: string,
+	parser: ResponseParser<T>,
+	data: unknown,
+	context: Omit<FunctionsErrorContext, 'functionName' | 'details'> = {},
+): T {
+	try {
+		return parser.parse(data)
+	} catch (error) {
+		const path = getErrorPath(error)
+		const formattedPath = formatSchemaPath(path)
+		const reason = error instanceof Error ? error.message : String(error)
+
+		throw new ResponseValidationError(
+			`Response of function "${functionName}" failed validation: ${reason}`,
+			path,
+			{
+				...context,
+				functionName,
+				cause: error,
+				details: {
+					path: formattedPath,
+					...(error instanceof SchemaValidationError && {
+						expected: error.expected,
+						received: error.received,
+					}),
+				},
+			},
+		)
+	}
+}
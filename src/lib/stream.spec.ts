@@ -0,0 +1,338 @@
+/**
+ * Streaming response tests
+ */
+
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	it,
+	vi,
+} from 'vitest'
+
+import type { FunctionRequest, StreamEvent } from '../types/index.js'
+import { createClient } from './core.js'
+import {
+	FunctionsHttpError,
+	FunctionsNetworkError,
+	ResponseValidationError,
+} from './errors.js'
+import { schema } from './schema.js'
+
+vi.mock('../utils/logger.js', () => ({
+	apiLogger: {
+		warn: vi.fn(),
+	},
+	coreLogger: {
+		info: vi.fn(),
+	},
+	logApiResponse: vi.fn(),
+	logError: vi.fn(),
+}))
+
+describe('Streams', () => {
+	const fetchMock = vi.fn()
+
+	/**
+	 * Build a streaming response from text chunks
+	 * Fails the body with `error` once all chunks were read, when given
+	 */
+	const streamResponse = (
+		chunks: string[],
+		contentType = 'text/event-stream',
+		options: { error?: Error; onCancel?: () => void } = {},
+	): Response => {
+		const encoder = new TextEncoder()
+		const queue = [...chunks]
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				const chunk = queue.shift()
+				if (chunk !== undefined) {
+					controller.enqueue(encoder.encode(chunk))
+				} else if (options.error) {
+					controller.error(options.error)
+				} else {
+					controller.close()
+				}
+			},
+			cancel: options.onCancel,
+		})
+		return new Response(body, {
+			headers: { 'Content-Type': contentType },
+		})
+	}
+
+	const collect = async <T>(events: AsyncIterable<T>): Promise<T[]> => {
+		const result: T[] = []
+		for await (const event of events) {
+			result.push(event)
+		}
+		return result
+	}
+
+	beforeEach(() => {
+		fetchMock.mockReset()
+		vi.stubGlobal('fetch', fetchMock)
+	})
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	describe('server-sent events', () => {
+		it('should POST the payload and yield parsed events', async () => {
+			fetchMock.mockResolvedValue(
+				streamResponse([
+					': keep-alive\n',
+					'event: log\nid: 1\ndata: {"line":"started"}\n\n',
+					'data: first\ndata: second\n\n',
+				]),
+			)
+			const client = createClient({ baseUrl: 'https://api.example.com' })
+
+			const events = await collect(
+				client.stream('build', { ref: 'main' }),
+			)
+
+			expect(events).toEqual([
+				{ event: 'log', data: { line: 'started' }, id: '1' },
+				{ event: 'message', data: 'first\nsecond', id: '1' },
+			])
+			const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit]
+			expect(url).toBe('https://api.example.com/functions/build')
+			expect(init.method).toBe('POST')
+			expect(init.body).toBe(JSON.stringify({ ref: 'main' }))
+			expect(init.headers).toMatchObject({
+				Accept: 'text/event-stream, application/x-ndjson',
+			})
+		})
+
+		it('should handle events split across chunks and CRLF lines', async () => {
+			fetchMock.mockResolvedValue(
+				streamResponse(['da', 'ta: 4', '2\r\n\r', '\n']),
+			)
+			const client = createClient()
+
+			const events = await collect(client.stream('count'))
+
+			expect(events).toEqual([{ event: 'message', data: 42 }])
+		})
+
+		it('should discard an incomplete trailing event', async () => {
+			fetchMock.mockResolvedValue(
+				streamResponse(['data: 1\n\n', 'data: 2\n']),
+			)
+			const client = createClient()
+
+			const events = await collect(client.stream('count'))
+
+			expect(events.map(event => event.data)).toEqual([1])
+		})
+
+		it('should send Last-Event-ID when resuming a stream', async () => {
+			fetchMock.mockResolvedValue(streamResponse([]))
+			const client = createClient()
+
+			await collect(
+				client.stream('build', undefined, { lastEventId: '7' }),
+			)
+
+			const init = fetchMock.mock.calls[0]?.[1] as RequestInit
+			expect(init.headers).toMatchObject({ 'Last-Event-ID': '7' })
+		})
+
+		it('should reconnect from the last event id when the connection drops', async () => {
+			fetchMock
+				.mockResolvedValueOnce(
+					streamResponse(
+						['retry: 0\n', 'id: 1\ndata: a\n\n', 'id: 2\ndata: b'],
+						'text/event-stream',
+						{ error: new TypeError('terminated') },
+					),
+				)
+				.mockResolvedValueOnce(streamResponse(['id: 2\ndata: b\n\n']))
+			const client = createClient()
+
+			const events = await collect(client.stream('build'))
+
+			expect(events.map(event => event.data)).toEqual(['a', 'b'])
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+			const init = fetchMock.mock.calls[1]?.[1] as RequestInit
+			expect(init.headers).toMatchObject({ 'Last-Event-ID': '1' })
+		})
+
+		it('should not reconnect streams without event ids', async () => {
+			fetchMock.mockResolvedValue(
+				streamResponse(['data: a\n\n'], 'text/event-stream', {
+					error: new TypeError('terminated'),
+				}),
+			)
+			const client = createClient()
+
+			await expect(collect(client.stream('build'))).rejects.toThrow(
+				FunctionsNetworkError,
+			)
+			expect(fetchMock).toHaveBeenCalledTimes(1)
+		})
+
+		it('should not reconnect when reconnection is disabled', async () => {
+			fetchMock.mockResolvedValue(
+				streamResponse(['id: 1\ndata: a\n\n'], 'text/event-stream', {
+					error: new TypeError('terminated'),
+				}),
+			)
+			const client = createClient()
+
+			await expect(
+				collect(
+					client.stream('build', undefined, { reconnect: false }),
+				),
+			).rejects.toThrow(FunctionsNetworkError)
+			expect(fetchMock).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe('newline-delimited JSON', () => {
+		it('should yield one event per line', async () => {
+			fetchMock.mockResolvedValue(
+				streamResponse(
+					['{"token":"Hel', 'lo"}\n\n{"token":"!"}'],
+					'application/x-ndjson',
+				),
+			)
+			const client = createClient()
+
+			const events = await collect(client.stream('generate'))
+
+			expect(events).toEqual([
+				{ event: 'message', data: { token: 'Hello' } },
+				{ event: 'message', data: { token: '!' } },
+			])
+		})
+
+		it('should reject invalid JSON lines', async () => {
+			fetchMock.mockResolvedValue(
+				streamResponse(['{"token":\n'], 'application/x-ndjson'),
+			)
+			const client = createClient()
+
+			await expect(collect(client.stream('generate'))).rejects.toThrow(
+				ResponseValidationError,
+			)
+		})
+	})
+
+	it('should reject responses that are not streams', async () => {
+		fetchMock.mockResolvedValue(
+			new Response('{}', {
+				headers: { 'Content-Type': 'application/json' },
+			}),
+		)
+		const client = createClient()
+
+		await expect(collect(client.stream('build'))).rejects.toThrow(
+			ResponseValidationError,
+		)
+	})
+
+	it('should reject with an HTTP error before the stream starts', async () => {
+		fetchMock.mockResolvedValue(
+			new Response(JSON.stringify({ error: 'Not found' }), {
+				status: 404,
+				headers: { 'Content-Type': 'application/json' },
+			}),
+		)
+		const client = createClient()
+
+		await expect(collect(client.stream('missing'))).rejects.toThrow(
+			FunctionsHttpError,
+		)
+	})
+
+	it('should validate the data of each event with the schema', async () => {
+		fetchMock.mockResolvedValue(
+			streamResponse(['data: {"line":1}\n\n'], 'text/event-stream'),
+		)
+		const client = createClient()
+
+		await expect(
+			collect(
+				client.stream('build', undefined, {
+					schema: schema.object({ line: schema.string() }),
+				}),
+			),
+		).rejects.toThrow(ResponseValidationError)
+	})
+
+	it('should close the connection when iteration stops early', async () => {
+		const onCancel = vi.fn()
+		fetchMock.mockResolvedValue(
+			streamResponse(
+				['data: 1\n\n', 'data: 2\n\n'],
+				'text/event-stream',
+				{ onCancel },
+			),
+		)
+		const client = createClient()
+
+		for await (const event of client.stream('count')) {
+			expect(event.data).toBe(1)
+			break
+		}
+
+		expect(onCancel).toHaveBeenCalled()
+	})
+
+	it('should reject with the abort reason when the signal aborts', async () => {
+		const controller = new AbortController()
+		const reason = new Error('cancelled by user')
+		fetchMock.mockResolvedValue(
+			new Response(new ReadableStream(), {
+				headers: { 'Content-Type': 'text/event-stream' },
+			}),
+		)
+		const client = createClient()
+
+		const pending = collect(
+			client.stream('build', undefined, { signal: controller.signal }),
+		)
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled())
+		controller.abort(reason)
+
+		await expect(pending).rejects.toBe(reason)
+	})
+
+	it('should pass streaming requests through middleware', async () => {
+		fetchMock.mockResolvedValue(streamResponse(['data: 1\n\n']))
+		const seen: FunctionRequest[] = []
+		const client = createClient().use((request, next) => {
+			seen.push(request)
+			return next(request)
+		})
+
+		await collect(client.stream('count'))
+
+		expect(seen[0]?.responseType).toBe('stream')
+	})
+
+	it('should type events from the registry', () => {
+		type Functions = {
+			generate: {
+				input: { prompt: string }
+				output: { text: string }
+				event: { token: string }
+			}
+			build: { input: undefined; output: string }
+		}
+		const client = createClient<Functions>()
+
+		expectTypeOf(client.stream('generate', { prompt: 'Hi' })).toEqualTypeOf<
+			AsyncIterable<StreamEvent<{ token: string }>>
+		>()
+		expectTypeOf(client.stream('build')).toEqualTypeOf<
+			AsyncIterable<StreamEvent<unknown>>
+		>()
+	})
+})
@@ -0,0 +1,221 @@
+/**
+ * Streaming responses of function invocations
+ * Parses server-sent events and newline-delimited JSON bodies
+ */
+
+import type { FunctionResponse, StreamEvent } from '../types/index.js'
+import type { FunctionsErrorContext } from './errors.js'
+import {
+	FunctionsClientError,
+	FunctionsNetworkError,
+	ResponseValidationError,
+} from './errors.js'
+
+/**
+ * Accept header sent with streaming invocations
+ */
+export const STREAM_ACCEPT = 'text/event-stream, application/x-ndjson'
+
+/**
+ * Default event type of server-sent events
+ */
+const DEFAULT_EVENT_TYPE = 'message'
+
+/**
+ * Reconnection state shared across the connections of a stream
+ */
+export interface EventStreamState {
+	/** Identifier of the last received event, sent back as Last-Event-ID */
+	lastEventId?: string
+	/** Reconnection delay in milliseconds requested by the server */
+	retry?: number
+}
+
+/**
+ * Body formats supported by streams
+ */
+type StreamFormat = 'sse' | 'ndjson'
+
+/**
+ * Detect the stream format from a Content-Type header
+ */
+const getStreamFormat = (contentType: string): StreamFormat | undefined => {
+	if (contentType.includes('text/event-stream')) return 'sse'
+	if (contentType.includes('ndjson') || contentType.includes('jsonl')) {
+		return 'ndjson'
+	}
+	return undefined
+}
+
+/**
+ * Parse event data as JSON when possible, falling back to text
+ */
+const parseEventData = (data: string): unknown => {
+	try {
+		return JSON.parse(data)
+	} catch {
+		return data
+	}
+}
+
+/**
+ * Split a byte stream into lines
+ * Cancels the body when the signal aborts or iteration stops early
+ */
+async function* readLines(
+	body: ReadableStream<Uint8Array>,
+	signal?: AbortSignal,
+): AsyncGenerator<string> {
+	const reader = body.getReader()
+	const decoder = new TextDecoder()
+	const onAbort = (): void => {
+		reader.cancel(signal?.reason).catch(() => {})
+	}
+	signal?.addEventListener('abort', onAbort, { once: true })
+
+	try {
+		signal?.throwIfAborted()
+
+		let buffer = ''
+		for (;;) {
+			const { value, done } = await reader.read()
+			if (done) break
+
+			buffer += decoder.decode(value, { stream: true })
+			const lines = buffer.split('\n')
+			buffer = lines.pop() ?? ''
+			for (const line of lines) {
+				yield line.endsWith('\r') ? line.slice(0, -1) : line
+			}
+		}
+
+		signal?.throwIfAborted()
+		buffer += decoder.decode()
+		if (buffer) yield buffer
+	} finally {
+		signal?.removeEventListener('abort', onAbort)
+		await reader.cancel().catch(() => {})
+	}
+}
+
+/**
+ * Parse server-sent events
+ * Event ids are committed on dispatch, so a dropped connection resumes after
+ * the last complete event; incomplete trailing events are discarded
+ */
+async function* parseEventStream(
+	lines: AsyncIterable<string>,
+	state: EventStreamState,
+): AsyncGenerator<StreamEvent> {
+	let data: string[] = []
+	let event = ''
+	let id = state.lastEventId
+
+	for await (const line of lines) {
+		if (line === '') {
+			state.lastEventId = id
+			if (data.length > 0) {
+				yield {
+					event: event || DEFAULT_EVENT_TYPE,
+					data: parseEventData(data.join('\n')),
+					id,
+				}
+			}
+			data = []
+			event = ''
+			continue
+		}
+
+		// Lines starting with a colon are comments (keep-alives)
+		if (line.startsWith(':')) continue
+
+		const colon = line.indexOf(':')
+		const field = colon === -1 ? line : line.slice(0, colon)
+		const value =
+			colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+
+		switch (field) {
+			case 'event':
+				event = value
+				break
+			case 'data':
+				data.push(value)
+				break
+			case 'id':
+				if (!value.includes('\0')) id = value
+				break
+			case 'retry':
+				if (/^\d+$/.test(value)) state.retry = Number(value)
+				break
+		}
+	}
+}
+
+/**
+ * Parse newline-delimited JSON, one event per non-empty line
+ * @throws {ResponseValidationError} If a line is not valid JSON
+ */
+async function* parseNdjsonStream(
+	lines: AsyncIterable<string>,
+	functionName: string,
+	context: FunctionsErrorContext,
+): AsyncGenerator<StreamEvent> {
+	for await (const line of lines) {
+		if (!line.trim()) continue
+
+		let data: unknown
+		try {
+			data = JSON.parse(line)
+		} catch (error) {
+			throw new ResponseValidationError(
+				`Stream of function "${functionName}" sent an invalid JSON line`,
+				[],
+				{ ...context, functionName, cause: error, details: { line } },
+			)
+		}
+		yield { event: DEFAULT_EVENT_TYPE, data }
+	}
+}
+
+/**
+ * Read the events of a streaming response
+ * Read failures are reported as network errors so the stream can reconnect
+ *
+ * @throws {ResponseValidationError} If the body is not a supported stream
+ * @throws {FunctionsNetworkError} If the connection drops mid-stream
+ * @throws The signal's abort reason if the caller aborts
+ */
+export async function* readStreamEvents(
+	functionName: string,
+	response: FunctionResponse,
+	state: EventStreamState,
+	context: FunctionsErrorContext,
+	signal?: AbortSignal,
+): AsyncGenerator<StreamEvent> {
+	const contentType = response.headers.get('content-type') ?? ''
+	const format = getStreamFormat(contentType)
+
+	if (!format || !(response.data instanceof ReadableStream)) {
+		throw new ResponseValidationError(
+			`Response of function "${functionName}" is not a stream (content type "${contentType}")`,
+			[],
+			{ ...context, functionName, details: { contentType } },
+		)
+	}
+
+	const lines = readLines(response.data, signal)
+	try {
+		yield* format === 'sse'
+			? parseEventStream(lines, state)
+			: parseNdjsonStream(lines, functionName, context)
+	} catch (error) {
+		if (signal?.aborted) throw signal.reason
+		if (error instanceof FunctionsClientError) throw error
+
+		const reason = error instanceof Error ? error.message : String(error)
+		throw new FunctionsNetworkError(
+			`Stream of function "${functionName}" was interrupted: ${reason}`,
+			{ ...context, functionName, cause: error },
+		)
+	}
+}
@@ -0,0 +1,73 @@
+/**
+ * Transports performing function requests
+ * The fetch transport is used unless ClientConfig.transport is set
+ */
+
+import type { Transport } from '../types/index.js'
+import { FunctionsNetworkError } from './errors.js'
+
+/**
+ * Methods sent without a request body
+ */
+const BODYLESS_METHODS = new Set(['GET', 'HEAD', 'DELETE'])
+
+/**
+ * Parse a response body as JSON when possible, falling back to text
+ */
+const parseResponseBody = async (response: Response): Promise<unknown> => {
+	const text = await response.text()
+	if (!text) return undefined
+
+	const contentType = response.headers.get('content-type') ?? ''
+	if (!contentType.includes('json')) return text
+
+	try {
+		return JSON.parse(text)
+	} catch {
+		return text
+	}
+}
+
+/**
+ * Default transport: performs the HTTP request with the global fetch
+ * @throws {FunctionsNetworkError} If the request or response body fails
+ */
+export const fetchTransport: Transport = async request => {
+	try {
+		const response = await fetch(request.url, {
+			method: request.method,
+			headers: request.headers,
+			body: BODYLESS_METHODS.has(request.method)
+				? undefined
+				: JSON.stringify(request.body ?? null),
+			signal: request.signal,
+		})
+
+		// Streamed bodies are read by the caller, errors are still parsed
+		if (request.responseType === 'stream' && response.ok) {
+			return {
+				status: response.status,
+				headers: response.headers,
+				data: response.body,
+			}
+		}
+
+		const data = await parseResponseBody(response)
+		return { status: response.status, headers: response.headers, data }
+	} catch (error) {
+		// Aborts carry their own typed reason (e.g. timeout)
+		if (request.signal?.aborted) {
+			throw request.signal.reason ?? error
+		}
+
+		const reason = error instanceof Error ? error.message : String(error)
+		throw new FunctionsNetworkError(
+			`Network error while invoking function "${request.functionName}": ${reason}`,
+			{
+				functionName: request.functionName,
+				requestId: request.requestId,
+				cause: error,
+			},
+		)
+	}
+}
@@ -12,6 +12,32 @@ export interface ClientConfig {
 	baseUrl?: string
 	/** Request timeout in milliseconds */
 	timeout?: number
+	/** Additional headers sent with every request */
+	headers?: Record<string, string>
+	/** Retry policy for failed invocations (merged with defaults) */
+	retry?: Partial<RetryPolicy>
+	/** Middleware applied to every invocation, in order */
+	middleware?: Middleware[]
+	/** Transport performing requests (default: fetchTransport) */
+	transport?: Transport
+}
+
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryPolicy {
+	/** Maximum number of attempts, including the first call (1 disables retries) */
+	maxAttempts: number
+	/** Base delay in milliseconds, doubled on each attempt */
+	baseDelay: number
+	/** Maximum delay in milliseconds between attempts */
+	maxDelay: number
+	/** Randomize delays to avoid synchronized retries */
+	jitter: boolean
+	/** HTTP status codes that trigger a retry */
+	retryableStatusCodes: number[]
+	/** Wait for the Retry-After header delay when present */
+	respectRetryAfter: boolean
 }
 
 /**
@@ -28,6 +54,343 @@ export interface ApiResponse<T = unknown> {
 	statusCode: number
 }
 
+/**
+ * Anything that can validate response data
+ * Compatible with the built-in `schema` DSL and libraries such as Zod
+ */
+export interface ResponseParser<T> {
+	/** Return the validated data or throw if it does not match */
+	parse(value: unknown): T
+}
+
+/**
+ * Per-call options for function invocations
+ */
+export interface InvokeOptions<TOutput = unknown> {
+	/** Additional headers for this call only */
+	headers?: Record<string, string>
+	/** Validate successful response data at runtime */
+	schema?: ResponseParser<TOutput>
+	/** Cancel the call, including pending retries */
+	signal?: AbortSignal
+	/** Timeout of each attempt in milliseconds, overriding ClientConfig.timeout */
+	timeout?: number
+}
+
+/**
+ * Outgoing request passed through the middleware chain
+ */
+export interface FunctionRequest {
+	/** Name of the invoked function */
+	functionName: string
+	/** Absolute or origin-relative request URL */
+	url: string
+	/** HTTP method */
+	method: string
+	/** Request headers */
+	headers: Record<string, string>
+	/** Payload, serialized as JSON by the transport */
+	body: unknown
+	/** Request identifier, also sent as X-Request-Id */
+	requestId: string
+	/** Attempt number (1-based), incremented by the retry policy */
+	attempt: number
+	/** How to read 2xx bodies: parsed (default) or as a raw ReadableStream */
+	responseType?: 'json' | 'stream'
+	/** Signal aborting the request (caller abort or per-attempt timeout) */
+	signal?: AbortSignal
+}
+
+/**
+ * Incoming response passed back through the middleware chain
+ */
+export interface FunctionResponse {
+	/** HTTP status code */
+	status: number
+	/** Response headers */
+	headers: Headers
+	/** Parsed response body, or a ReadableStream for streaming requests */
+	data: unknown
+}
+
+/**
+ * Invoke the rest of the middleware chain
+ */
+export type MiddlewareNext = (
+	request: FunctionRequest,
+) => Promise<FunctionResponse>
+
+/**
+ * Performs requests at the end of the middleware chain
+ * Implementations must honour `request.signal` and `request.responseType`,
+ * and should throw a FunctionsNetworkError when no response was received so
+ * the retry policy applies
+ *
+ * @example
+ * ```typescript
+ * const client = createClient({ transport: createMockTransport() })
+ * ```
+ */
+export type Transport = (request: FunctionRequest) => Promise<FunctionResponse>
+
+/**
+ * Middleware wrapping every invocation attempt
+ * Can transform the request before calling `next`, transform the response
+ * after it, short-circuit by not calling `next`, or retry by calling it again
+ *
+ * @example
+ * ```typescript
+ * const tenant: Middleware = (request, next) =>
+ *   next({ ...request, headers: { ...request.headers, 'X-Tenant': 'acme' } })
+ * ```
+ */
+export type Middleware = (
+	request: FunctionRequest,
+	next: MiddlewareNext,
+) => Promise<FunctionResponse>
+
+/**
+ * Input and output types of a single function
+ */
+export interface FunctionDefinition<
+	TInput = unknown,
+	TOutput = unknown,
+	TEvent = unknown,
+> {
+	/** Payload sent to the function */
+	input: TInput
+	/** Data returned by the function */
+	output: TOutput
+	/** Data of the events emitted when the function is streamed */
+	event?: TEvent
+}
+
+/**
+ * Map of function names to their definitions
+ * Used as the default registry, accepting any function name
+ *
+ * @example
+ * ```typescript
+ * type Functions = {
+ *   resizeImage: FunctionDefinition<ResizeInput, ResizeOutput>
+ *   ping: { input: undefined; output: 'pong' }
+ * }
+ *
+ * const client = createClient<Functions>()
+ * ```
+ */
+export type FunctionRegistry = Record<string, FunctionDefinition>
+
+/**
+ * Constraint for registries, satisfied by both type aliases and interfaces
+ */
+export type FunctionRegistryShape<R> = { [K in keyof R]: FunctionDefinition }
+
+/**
+ * Names of the functions declared in a registry
+ */
+export type FunctionName<R> = keyof R & string
+
+/**
+ * Payload type of a registered function
+ */
+export type FunctionInput<
+	R extends FunctionRegistryShape<R>,
+	K extends FunctionName<R>,
+> = R[K]['input']
+
+/**
+ * Result type of a registered function
+ */
+export type FunctionOutput<
+	R extends FunctionRegistryShape<R>,
+	K extends FunctionName<R>,
+> = R[K]['output']
+
+/**
+ * Stream event data type of a registered function
+ */
+export type FunctionEvent<
+	R extends FunctionRegistryShape<R>,
+	K extends FunctionName<R>,
+> = R[K] extends { event?: infer E } ? E : unknown
+
+/**
+ * Arguments of an invocation
+ * The payload is optional when the function accepts undefined
+ */
+export type InvokeArgs<TInput, TOutput = unknown> = undefined extends TInput
+	? [payload?: TInput, options?: InvokeOptions<TOutput>]
+	: [payload: TInput, options?: InvokeOptions<TOutput>]
+
+/**
+ * Event received from a streaming function
+ */
+export interface StreamEvent<T = unknown> {
+	/** Event type (SSE `event` field, 'message' by default) */
+	event: string
+	/** Event data, parsed as JSON when possible */
+	data: T
+	/** Event identifier (SSE `id` field) */
+	id?: string
+}
+
+/**
+ * Per-call options for streaming invocations
+ * The schema validates the data of each event, the timeout applies to each
+ * connection until the response starts
+ */
+export interface StreamOptions<TEvent = unknown> extends InvokeOptions<TEvent> {
+	/** Resume a stream after this event (sent as Last-Event-ID) */
+	lastEventId?: string
+	/** Reconnect dropped SSE streams from the last event id (default: true) */
+	reconnect?: boolean
+}
+
+/**
+ * Arguments of a streaming invocation
+ * The payload is optional when the function accepts undefined
+ */
+export type StreamArgs<TInput, TEvent = unknown> = undefined extends TInput
+	? [payload?: TInput, options?: StreamOptions<TEvent>]
+	: [payload: TInput, options?: StreamOptions<TEvent>]
+
+/**
+ * Lifecycle status of an asynchronous job
+ */
+export type JobStatus =
+	| 'queued'
+	| 'running'
+	| 'succeeded'
+	| 'failed'
+	| 'cancelled'
+
+/**
+ * Snapshot of an asynchronous job, as reported by the server
+ */
+export interface JobState<TOutput = unknown> {
+	/** Job identifier */
+	id: string
+	/** Current status */
+	status: JobStatus
+	/** Completion ratio between 0 and 1, when reported */
+	progress?: number
+	/** Function result, once the job succeeded */
+	result?: TOutput
+	/** Failure reason, once the job failed */
+	error?: string
+}
+
+/**
+ * Listener notified when the status or progress of a job changes
+ */
+export type JobProgressListener<TOutput = unknown> = (
+	state: JobState<TOutput>,
+) => void
+
+/**
+ * Options for waiting on a job
+ */
+export interface JobWaitOptions {
+	/** Delay before the first status poll in milliseconds (default: 1000) */
+	pollInterval?: number
+	/** Upper bound of the backed-off poll delay in milliseconds (default: 10000) */
+	maxPollInterval?: number
+	/** Stop waiting after this many milliseconds; the job keeps running */
+	timeout?: number
+	/** Stop waiting when aborted; the job keeps running */
+	signal?: AbortSignal
+}
+
+/**
+ * Handle tracking an asynchronous job
+ * Recreate it with `client.job(name, id)` to resume after a restart
+ */
+export interface JobHandle<TOutput = unknown> {
+	/** Job identifier assigned by the server */
+	readonly id: string
+	/** Name of the function running the job */
+	readonly functionName: string
+	/** Fetch the current state of the job */
+	status(options?: { signal?: AbortSignal }): Promise<JobState<TOutput>>
+	/**
+	 * Poll with backoff until the job settles
+	 * Rejects with a FunctionsJobError if it fails or is cancelled
+	 */
+	wait(options?: JobWaitOptions): Promise<ApiResponse<TOutput>>
+	/** Ask the server to cancel the job */
+	cancel(options?: { signal?: AbortSignal }): Promise<void>
+	/**
+	 * Subscribe to status and progress changes seen while polling
+	 * @returns Function removing the listener
+	 */
+	onProgress(listener: JobProgressListener<TOutput>): () => void
+}
+
+/**
+ * Client for invoking Nextnode Functions
+ */
+export interface FunctionsClient<
+	R extends FunctionRegistryShape<R> = FunctionRegistry,
+> {
+	/**
+	 * Invoke a function by name
+	 * Sends the payload as JSON and resolves to the function's response
+	 * The result type is narrowed by the `schema` option when provided
+	 */
+	invoke<
+		K extends FunctionName<R>,
+		TData extends FunctionOutput<R, K> = FunctionOutput<R, K>,
+	>(
+		name: K,
+		...args: InvokeArgs<FunctionInput<R, K>, TData>
+	): Promise<ApiResponse<TData>>
+
+	/**
+	 * Stream the events of a function (server-sent events or NDJSON)
+	 * The request is sent once iteration starts; breaking out of the loop
+	 * closes the connection
+	 */
+	stream<
+		K extends FunctionName<R>,
+		TEvent extends FunctionEvent<R, K> = FunctionEvent<R, K>,
+	>(
+		name: K,
+		...args: StreamArgs<FunctionInput<R, K>, TEvent>
+	): AsyncIterable<StreamEvent<TEvent>>
+
+	/**
+	 * Submit a function as an asynchronous job
+	 * Resolves once the server accepted the job, use the handle to track it
+	 */
+	submit<
+		K extends FunctionName<R>,
+		TData extends FunctionOutput<R, K> = FunctionOutput<R, K>,
+	>(
+		name: K,
+		...args: InvokeArgs<FunctionInput<R, K>, TData>
+	): Promise<JobHandle<TData>>
+
+	/**
+	 * Get a handle for a previously submitted job
+	 * Options apply to every status and cancel request of the handle
+	 */
+	job<
+		K extends FunctionName<R>,
+		TData extends FunctionOutput<R, K> = FunctionOutput<R, K>,
+	>(
+		name: K,
+		id: string,
+		options?: Omit<InvokeOptions<TData>, 'signal'>,
+	): JobHandle<TData>
+
+	/**
+	 * Append a middleware to the chain
+	 * Runs after the middleware passed in ClientConfig
+	 */
+	use(middleware: Middleware): FunctionsClient<R>
+}
+
 /**
  * Generic error interface
  */
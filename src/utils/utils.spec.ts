@@ -61,5 +61,20 @@ describe('Utils', () => {
 
 			expect(end - start).toBeGreaterThanOrEqual(10)
 		})
+
+		it('should reject with the abort reason when aborted', async () => {
+			const controller = new AbortController()
+			const pending = delay(1000, controller.signal)
+
+			controller.abort(new Error('stop'))
+
+			await expect(pending).rejects.toThrow('stop')
+		})
+
+		it('should reject immediately when already aborted', async () => {
+			await expect(
+				delay(1000, AbortSignal.abort(new Error('stop'))),
+			).rejects.toThrow('stop')
+		})
 	})
 })
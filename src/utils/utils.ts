@@ -42,10 +42,27 @@ export const isObject = (value: unknown): value is Record<string, unknown> =>
 /**
  * Delay execution for specified milliseconds
  * @param ms - Milliseconds to wait
- * @returns Promise that resolves after delay
+ * @param signal - Optional signal cancelling the delay
+ * @returns Promise that resolves after delay, or rejects with the abort reason
  */
-export const delay = (ms: number): Promise<void> =>
-	new Promise(resolve => setTimeout(resolve, ms))
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+	new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason)
+			return
+		}
+
+		const onAbort = (): void => {
+			clearTimeout(timer)
+			reject(signal?.reason)
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
 
 // Export date utilities
 export * from './date.js'